@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import SVGLoader from './components/SVGLoader'
 import TableToolbar from './components/TableToolbar'
 import EnhancedCanvas from './components/EnhancedCanvas'
@@ -10,21 +10,65 @@ import ShapeEditor from './components/ShapeEditor'
 import ProjectManager from './components/ProjectManager'
 import MeasurementDialog from './components/MeasurementDialog'
 import DuplicateCustomDialog from './components/DuplicateCustomDialog'
+import DistributeGapDialog from './components/DistributeGapDialog'
+import RadialDuplicateDialog from './components/RadialDuplicateDialog'
+import AutoLayoutDialog from './components/AutoLayoutDialog'
+import CapacityOptimizerDialog from './components/CapacityOptimizerDialog'
+import LayoutProblemsPanel from './components/LayoutProblemsPanel'
+import RoomLockControls from './components/RoomLockControls'
+import ExportDialog from './components/ExportDialog'
+import ScaleCalibrationControls from './components/ScaleCalibrationControls'
+import ScaleCalibrationDialog from './components/ScaleCalibrationDialog'
 import { useErrorHandler } from './hooks/useErrorHandler'
-import { type SVGData, type TableObject, type Position, type BoundaryArea, type TextBoxProps, type ProjectData, type DistanceType, circumscriptionSizeFull, type ScaleProps } from './types';
+import { useLayoutHistory } from './hooks/useLayoutHistory'
+import { getNextZIndex, sortByZIndex, reorderTables } from './utils/zOrder'
+import { getDistance, getRoomScaleFactor } from './utils/scaleCalibration'
+import { setTablesLocked, setSameKindLocked, updateUnlockedTable, hasRoomLock, setRoomLocked, setBoundaryArea, calibrateRoom } from './utils/lockUtils'
+import { type SelectionUnit, buildSelectionUnits, getAlignmentOffsets, getTablesBounds, expandToGroups, getMovableIds, createGroupId, remapGroupIds, cleanupGroups } from './utils/groupUtils'
+import { findOverlappingTables } from './utils/overlap'
+import { findLayoutProblems } from './utils/layoutProblems'
+import { getDistributionOffsets } from './utils/distribute'
+import { createArrayCopies } from './utils/arrayDuplicate'
+import { createRadialCopies } from './utils/radialDuplicate'
+import { type SVGData, type TableObject, type Position, type BoundaryArea, type TextBoxProps, type ProjectData, type DistanceType, circumscriptionSizeFull, type ScaleProps, type ViewportState, type EditorSettings, type ZOrderOperation, type StencilData, type StampSettings, type AreaSelectionMode, type DistributeAxis, type DistributeMode, type ArrayDuplicateSettings, type RadialDuplicateSettings } from './types';
 import './App.css'
 
 function App() {
-  const [svgData, setSvgData] = useState<SVGData | null>(null)
-  const [tables, setTables] = useState<TableObject[]>([])
+  // 会場・テーブル・境界エリアは履歴管理の対象
+  const {
+    state: layout,
+    execute,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel
+  } = useLayoutHistory({ svgData: null, tables: [], boundaryArea: null })
+  const { svgData, tables, boundaryArea } = layout
+  const isRoomLocked = hasRoomLock(layout)
   const [selectedTableIds, setSelectedTableIds] = useState<string[]>([])
-  const [boundaryArea, setBoundaryArea] = useState<BoundaryArea | null>(null)
   const [isBoundarySettingMode, setIsBoundarySettingMode] = useState(false)
 
+  // 縮尺調整用の状態（2点の指定中、および実寸入力ダイアログ）
+  const [isCalibrationMode, setIsCalibrationMode] = useState(false)
+  const [stampSettings, setStampSettings] = useState<StampSettings | null>(null)
+  const [calibrationDialog, setCalibrationDialog] = useState<{ measuredDistance: number } | null>(null)
+
   // グリッドスナップ設定
   const [gridSize, setGridSize] = useState(1000)
   const [snapEnabled, setSnapEnabled] = useState(false)
   const [gridVisible, setGridVisible] = useState(false)
+  const [smartGuidesEnabled, setSmartGuidesEnabled] = useState(true)
+
+  // キャンバスのズーム・パン状態
+  const [viewport, setViewport] = useState<ViewportState>({ scale: 1.0, panX: 0, panY: 0 })
+
+  // プロジェクトに保存する編集環境設定
+  const editorSettings = useMemo<EditorSettings>(() => ({
+    grid: { gridSize, snapEnabled, gridVisible },
+    viewport
+  }), [gridSize, snapEnabled, gridVisible, viewport])
 
   // テキストボックス編集用の状態
   const [editingTextBoxId, setEditingTextBoxId] = useState<string | null>(null)
@@ -46,6 +90,27 @@ function App() {
   const [duplicateCustomDialog, setDuplicateCustomDialog] = useState<{
     isOpen: boolean;
   } | null>(null);
+  const [arrayDuplicatePreviewSettings, setArrayDuplicatePreviewSettings] = useState<ArrayDuplicateSettings | null>(null);
+
+  // 自動レイアウトダイアログの状態（並べるステンシルと配置予定のオブジェクト）
+  const [autoLayoutStencil, setAutoLayoutStencil] = useState<StencilData | null>(null);
+  const [autoLayoutPreview, setAutoLayoutPreview] = useState<TableObject[]>([]);
+  const [capacityOptimizerStencil, setCapacityOptimizerStencil] = useState<StencilData | null>(null);
+  const [capacityOptimizerPreview, setCapacityOptimizerPreview] = useState<TableObject[]>([]);
+
+  // 円形複製ダイアログの状態（中心はキャンバスでも指定できる）
+  const [radialDuplicateDialog, setRadialDuplicateDialog] = useState<{
+    ids: string[];
+    center: Position;
+  } | null>(null);
+  const [isRadialCenterPickMode, setIsRadialCenterPickMode] = useState(false);
+  const [radialDuplicatePreviewSettings, setRadialDuplicatePreviewSettings] = useState<RadialDuplicateSettings | null>(null);
+
+  // 間隔指定の配置ダイアログの状態
+  const [isDistributeGapDialogOpen, setIsDistributeGapDialogOpen] = useState(false)
+
+  // レイアウト図書き出しダイアログの状態
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
 
   // プロジェクト管理用の状態
   const [currentProjectName, setCurrentProjectName] = useState<string>('')
@@ -53,11 +118,74 @@ function App() {
 
   const { error, setError, clearError } = useErrorHandler()
 
+  // テーブル配列を更新するコマンドを実行
+  const updateTables = (label: string, updater: (prev: TableObject[]) => TableObject[], coalesceKey?: string) => {
+    execute({
+      label,
+      coalesceKey,
+      apply: state => ({ ...state, tables: updater(state.tables) })
+    })
+  }
+
+  // テーブルを最前面に追加するコマンドを実行（追加するテーブル同士の前後関係は維持）
+  // ロック中のテーブルを複製した場合も、追加したテーブルはロックしない
+  const appendTables = (label: string, newTables: TableObject[]) => {
+    updateTables(label, prev => {
+      const baseZIndex = getNextZIndex(prev)
+      return [
+        ...prev,
+        ...sortByZIndex(newTables).map((table, index) => ({ ...table, zIndex: baseZIndex + index, locked: false }))
+      ]
+    })
+  }
+
+  // 元に戻す／やり直しのキーボードショートカット
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      // 入力欄での編集中はブラウザ標準の動作を優先
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // 元に戻した結果存在しなくなったテーブルを選択から外す
+  useEffect(() => {
+    setSelectedTableIds(prev => {
+      const validIds = prev.filter(id => tables.some(table => table.id === id));
+      return validIds.length === prev.length ? prev : validIds;
+    });
+  }, [tables]);
+
   const handleSVGLoad = (data: SVGData) => {
-    setSvgData(data)
-    setTables([]) // 新しいSVGを読み込んだらテーブルをクリア
-    setBoundaryArea(null) // 境界エリアもクリア
+    if (isRoomLocked) {
+      setError('会場図がロックされています。ロックを解除してから読み込んでください')
+      return
+    }
+
+    // 新しいSVGを読み込んだらテーブルと境界エリアをクリア
+    execute({
+      label: '会場図の読み込み',
+      apply: () => ({ svgData: data, tables: [], boundaryArea: null })
+    })
     setIsBoundarySettingMode(false)
+    setIsCalibrationMode(false)
+    setStampSettings(null)
     clearError()
   }
 
@@ -65,13 +193,13 @@ function App() {
     setError(errorMessage)
   }
 
-  const handleCreateTable = (type: 'rectangle' | 'circle' | 'svg' | 'textbox' | 'scale', props: any) => {
+  const handleCreateTable = (type: 'rectangle' | 'circle' | 'svg' | 'textbox' | 'scale', props: any, position?: Position) => {
     if (!svgData) {
       setError('SVG会場図を先に読み込んでください')
       return
     }
 
-    // 会場の中央付近にランダムに配置
+    // 位置の指定が無い場合は会場の中央付近にランダムに配置
     const centerX = svgData.width / 2
     const centerY = svgData.height / 2
     const randomOffsetX = (Math.random() - 0.5) * 1000
@@ -80,17 +208,66 @@ function App() {
     const newTable: TableObject = {
       id: `table_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
       type,
-      position: {
+      position: position ?? {
         x: centerX + randomOffsetX,
         y: centerY + randomOffsetY
       },
-      properties: props
+      properties: props,
+      zIndex: getNextZIndex(tables)
     }
 
-    setTables(prev => [...prev, newTable])
+    appendTables('オブジェクトの追加', [newTable])
     setSelectedTableIds([newTable.id])
   }
 
+  // ツールバーからキャンバスにドロップされたステンシルをドロップ位置に配置
+  const handleStencilDrop = (stencil: StencilData, position: Position) => {
+    handleCreateTable(stencil.type, stencil.properties, position)
+  }
+
+  // スタンプモード：ステンシルを選んでクリックごとに配置（Escapeで終了）
+  const handleStartStamp = (settings: StampSettings) => {
+    setStampSettings(settings)
+    setIsBoundarySettingMode(false)
+    setIsCalibrationMode(false)
+    setSelectedTableIds([]) // テーブル選択を解除
+  }
+
+  const handleEndStamp = () => {
+    setStampSettings(null)
+  }
+
+  const handleStamp = (position: Position) => {
+    if (!stampSettings) return
+    const { stencil, refuseOverlap } = stampSettings
+
+    const newTable: TableObject = {
+      id: `table_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      type: stencil.type,
+      position,
+      properties: { ...stencil.properties },
+      zIndex: getNextZIndex(tables)
+    }
+
+    // 既存のオブジェクトと重なる位置には配置しない（回転を反映した実際の形で判定。プレビューの赤表示も同じ判定）
+    if (refuseOverlap && findOverlappingTables(newTable, tables).length > 0) return
+
+    appendTables('スタンプで配置', [newTable])
+  }
+
+  useEffect(() => {
+    if (!stampSettings) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setStampSettings(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stampSettings]);
+
   // 複数選択対応のテーブル選択ハンドラー
   const handleTableSelect = (id: string | null, ctrlKey: boolean = false) => {
     if (id === null) {
@@ -98,34 +275,55 @@ function App() {
       return;
     }
 
+    // グループのメンバーはグループ全体をまとめて選択する
+    const groupIds = expandToGroups(tables, [id]);
+
     if (ctrlKey) {
       // Ctrlキー押下時は複数選択
       setSelectedTableIds(prev => {
         if (prev.includes(id)) {
           // 既に選択されている場合は選択解除
-          return prev.filter(tableId => tableId !== id);
+          return prev.filter(tableId => !groupIds.includes(tableId));
         } else {
           // 新しく選択に追加
-          return [...prev, id];
+          return [...prev, ...groupIds.filter(tableId => !prev.includes(tableId))];
         }
       });
     } else {
       // 通常クリックは単一選択
-      setSelectedTableIds([id]);
+      setSelectedTableIds(groupIds);
+    }
+  };
+
+  // 範囲選択（矩形・投げ縄）。追加時は既存の選択の後ろに加え、最初の選択（整列の基準）を維持する
+  const handleAreaSelect = (ids: string[], mode: AreaSelectionMode) => {
+    // グループのメンバーはグループ全体をまとめて選択・除外する
+    const areaIds = expandToGroups(tables, ids);
+
+    if (mode === 'subtract') {
+      setSelectedTableIds(prev => prev.filter(tableId => !areaIds.includes(tableId)));
+    } else if (mode === 'add') {
+      setSelectedTableIds(prev => [...prev, ...areaIds.filter(tableId => !prev.includes(tableId))]);
+    } else {
+      setSelectedTableIds(areaIds);
     }
   };
 
   const handleTableMove = (id: string, position: { x: number; y: number }) => {
-    setTables(prev => prev.map(table =>
-      table.id === id
-        ? { ...table, position }
-        : table
-    ))
+    updateTables('オブジェクトの移動', prev => updateUnlockedTable(prev, id, { position }), `move:${id}`)
   }
 
   // 複数テーブルの同時移動ハンドラー
   const handleMultipleTableMove = (leadTableId: string, newPosition: { x: number; y: number }) => {
-    if (selectedTableIds.length <= 1) {
+    // 選択外のオブジェクトをドラッグした場合は、そのオブジェクトのグループだけを移動
+    // ロック中のメンバーを含むグループは、グループ全体を動かさない
+    const movingIds = getMovableIds(
+      tables,
+      selectedTableIds.includes(leadTableId) ? selectedTableIds : [leadTableId]
+    );
+    if (!movingIds.includes(leadTableId)) return;
+
+    if (movingIds.length <= 1) {
       // 単一選択の場合は通常の移動
       handleTableMove(leadTableId, newPosition);
       return;
@@ -138,8 +336,8 @@ function App() {
     const deltaX = newPosition.x - leadTable.position.x;
     const deltaY = newPosition.y - leadTable.position.y;
 
-    setTables(prev => prev.map(table => {
-      if (selectedTableIds.includes(table.id)) {
+    updateTables('オブジェクトの移動', prev => prev.map(table => {
+      if (movingIds.includes(table.id)) {
         return {
           ...table,
           position: {
@@ -149,16 +347,28 @@ function App() {
         };
       }
       return table;
-    }));
+    }), `move:${movingIds.join(',')}`);
   };
 
+  // キャンバス上のハンドルによる大きさ・回転の変更
+  const handleTableTransform = (id: string, position: Position, properties: TableObject['properties']) => {
+    updateTables('オブジェクトの変形', prev => updateUnlockedTable(prev, id, { position, properties }))
+  }
+
   const handleBoundaryAreaSet = (boundary: BoundaryArea) => {
-    setBoundaryArea(boundary)
+    if (isRoomLocked) return
+    execute({
+      label: '境界エリアの設定',
+      apply: state => setBoundaryArea(state, boundary)
+    })
     setIsBoundarySettingMode(false)
   }
 
   const handleStartBoundarySettings = () => {
+    if (isRoomLocked) return
     setIsBoundarySettingMode(true)
+    setIsCalibrationMode(false)
+    setStampSettings(null)
     setSelectedTableIds([]) // テーブル選択を解除
   }
 
@@ -166,15 +376,55 @@ function App() {
     setIsBoundarySettingMode(false)
   }
 
+  const handleStartCalibration = () => {
+    if (isRoomLocked) return
+    setIsCalibrationMode(true)
+    setIsBoundarySettingMode(false)
+    setStampSettings(null)
+    setSelectedTableIds([]) // テーブル選択を解除
+  }
+
+  const handleCancelCalibration = () => {
+    setIsCalibrationMode(false)
+  }
+
+  // 縮尺調整の2点が指定されたら実寸の入力を求める
+  const handleCalibrationPointsSet = (start: Position, end: Position) => {
+    const measuredDistance = getDistance(start, end)
+    if (measuredDistance <= 0) {
+      setError('縮尺調整には2つの異なる点をクリックしてください')
+      return
+    }
+    setIsCalibrationMode(false)
+    setCalibrationDialog({ measuredDistance })
+  }
+
+  const handleCalibrate = (realDistance: number) => {
+    if (!calibrationDialog || isRoomLocked) return
+    const { measuredDistance } = calibrationDialog
+    execute({
+      label: '縮尺の調整',
+      apply: state => calibrateRoom(state, measuredDistance, realDistance)
+    })
+  }
+
   const handleTableDelete = (id: string) => {
-    setTables(prev => prev.filter(table => table.id !== id))
-    setSelectedTableIds(prev => prev.filter(tableId => tableId !== id))
+    // グループのメンバーはグループごと削除
+    const ids = expandToGroups(tables, [id])
+    updateTables('オブジェクトの削除', prev => cleanupGroups(prev.filter(table => !ids.includes(table.id))))
+    setSelectedTableIds(prev => prev.filter(tableId => !ids.includes(tableId)))
   }
 
   const handleTableDuplicate = (id: string) => {
     const originalTable = tables.find(table => table.id === id)
     if (!originalTable) return
 
+    // グループのメンバーはグループごと複製
+    if (originalTable.groupId) {
+      handleMultipleTableDuplicate([id])
+      return
+    }
+
     const newTable: TableObject = {
       ...originalTable,
       id: `table_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
@@ -184,196 +434,190 @@ function App() {
       }
     }
 
-    setTables(prev => [...prev, newTable])
+    appendTables('オブジェクトの複製', [newTable])
     setSelectedTableIds([newTable.id])
   }
 
   // 複数選択時の削除処理
   const handleMultipleTableDelete = (ids: string[]) => {
-    setTables(prev => prev.filter(table => !ids.includes(table.id)))
+    const targetIds = expandToGroups(tables, ids)
+    updateTables('オブジェクトの削除', prev => cleanupGroups(prev.filter(table => !targetIds.includes(table.id))))
     setSelectedTableIds([])
   }
 
   // 複数選択時の複製処理
   const handleMultipleTableDuplicate = (ids: string[]) => {
-    const selectedTables = tables.filter(table => ids.includes(table.id))
+    const targetIds = expandToGroups(tables, ids)
+    const selectedTables = tables.filter(table => targetIds.includes(table.id))
     if (selectedTables.length === 0) return
 
-    const newTables: TableObject[] = selectedTables.map((originalTable, index) => ({
+    // 複製したグループは元とは別のグループにする
+    const newTables: TableObject[] = remapGroupIds(selectedTables.map((originalTable, index) => ({
       ...originalTable,
       id: `table_${Date.now()}_${Math.random().toString(36).substring(2, 11)}_${index}`,
       position: {
         x: originalTable.position.x + 500, // 500mm右にオフセット
         y: originalTable.position.y + 500  // 500mm下にオフセット
       }
-    }))
+    })))
 
-    setTables(prev => [...prev, ...newTables])
+    appendTables('オブジェクトの複製', newTables)
     setSelectedTableIds(newTables.map(table => table.id))
   }
 
-  // 複数選択時の上揃え処理
-  const handleAlignTop = (ids: string[]) => {
-    const selectedTables = tables.filter(table => ids.includes(table.id))
-    if (selectedTables.length === 0) return
-
-    // 最初に選択されたテーブルを取得
-    const primaryTable = tables.find(table => table.id == ids[0])!;
+  // 選択をグループ単位にまとめて整列する
+  // 最初に選択された単位を基準とし、ロック中のオブジェクトを含む単位は対象外
+  const alignSelection = (
+    label: string,
+    ids: string[],
+    getOffset: (unit: SelectionUnit, primary: SelectionUnit) => Position
+  ) => {
+    moveTablesByOffsets(label, getAlignmentOffsets(buildSelectionUnits(tables, ids), getOffset))
+  }
 
-    // 最初に選択されたテーブルの上辺の座標を取得
-    const circumscription = circumscriptionSizeFull(primaryTable);
-    const primaryTopY = circumscription.corners.topLeft.y;
+  // オブジェクトごとの移動量をまとめて適用する
+  const moveTablesByOffsets = (label: string, offsets: Map<string, Position>) => {
+    if (offsets.size === 0) return
 
-    setTables(prev => prev.map(table => {
-      if (ids.includes(table.id)) {
-        const tableCircumscription = circumscriptionSizeFull(table);
+    updateTables(label, prev => prev.map(table => {
+      const offset = offsets.get(table.id)
+      if (!offset) return table
 
-        // 新しい中心座標を設定
-        return {
-          ...table,
-          position: {
-            x: table.position.x,
-            y: primaryTopY + (tableCircumscription.height / 2)
-          }
-        };
-      }
-      return table;
+      // グループのメンバーは同じだけ移動し、相対位置を維持する
+      return {
+        ...table,
+        position: {
+          x: table.position.x + offset.x,
+          y: table.position.y + offset.y
+        }
+      };
     }));
   }
 
+  // 複数選択時の上揃え処理
+  const handleAlignTop = (ids: string[]) => {
+    alignSelection('上揃え', ids, (unit, primary) => ({
+      x: 0,
+      y: primary.bounds.minY - unit.bounds.minY
+    }))
+  }
+
   // 複数選択時の上下中央揃え処理
   const handleVerticallyCentered = (ids: string[]) => {
-    const selectedTables = tables.filter(table => ids.includes(table.id))
-    if (selectedTables.length === 0) return
-
-    // 最初に選択されたテーブルの中心Y座標を取得
-    const primaryTable = tables.find(table => table.id == ids[0])!;
-    const baseY = primaryTable.position.y;
-
-    setTables(prev => prev.map(table => {
-      if (ids.includes(table.id)) {
-
-        return {
-          ...table,
-          position: {
-            x: table.position.x,
-            y: baseY
-          }
-        };
-      }
-      return table;
-    }));
+    alignSelection('上下中央揃え', ids, (unit, primary) => ({
+      x: 0,
+      y: primary.bounds.centerY - unit.bounds.centerY
+    }))
   }
 
   // 複数選択時の下揃え処理
   const handleAlignBottom = (ids: string[]) => {
-    const selectedTables = tables.filter(table => ids.includes(table.id))
-    if (selectedTables.length === 0) return
-
-    // 最初に選択されたテーブルを取得
-    const primaryTable = tables.find(table => table.id == ids[0])!;
-
-    // 最初に選択されたテーブルの下辺の座標を取得
-    const circumscription = circumscriptionSizeFull(primaryTable);
-    const primaryBottomY = circumscription.corners.bottomLeft.y;
-
-    setTables(prev => prev.map(table => {
-      if (ids.includes(table.id)) {
-        const tableCircumscription = circumscriptionSizeFull(table);
-
-        // 新しい中心座標を設定
-        return {
-          ...table,
-          position: {
-            x: table.position.x,
-            y: primaryBottomY - (tableCircumscription.height / 2)
-          }
-        };
-      }
-      return table;
-    }));
+    alignSelection('下揃え', ids, (unit, primary) => ({
+      x: 0,
+      y: primary.bounds.maxY - unit.bounds.maxY
+    }))
   }
 
   // 複数選択時の左揃え処理
   const handleAlignLeft = (ids: string[]) => {
-    const selectedTables = tables.filter(table => ids.includes(table.id))
-    if (selectedTables.length === 0) return
-
-    // 最初に選択されたテーブルを取得
-    const primaryTable = tables.find(table => table.id == ids[0])!;
+    alignSelection('左揃え', ids, (unit, primary) => ({
+      x: primary.bounds.minX - unit.bounds.minX,
+      y: 0
+    }))
+  }
 
-    // 最初に選択されたテーブルの左辺の座標を取得
-    const circumscription = circumscriptionSizeFull(primaryTable);
-    const primaryLeftX = circumscription.corners.topLeft.x;
+  // 複数選択時の左右中央揃え処理
+  const handleHorizontallyCentered = (ids: string[]) => {
+    alignSelection('左右中央揃え', ids, (unit, primary) => ({
+      x: primary.bounds.centerX - unit.bounds.centerX,
+      y: 0
+    }))
+  }
 
-    setTables(prev => prev.map(table => {
-      if (ids.includes(table.id)) {
-        const tableCircumscription = circumscriptionSizeFull(table);
+  // 複数選択時の右揃え処理
+  const handleAlignRight = (ids: string[]) => {
+    alignSelection('右揃え', ids, (unit, primary) => ({
+      x: primary.bounds.maxX - unit.bounds.maxX,
+      y: 0
+    }))
+  }
 
-        // 新しい中心座標を設定
-        return {
-          ...table,
-          position: {
-            x: primaryLeftX + (tableCircumscription.width / 2),
-            y: table.position.y
-          }
-        };
-      }
-      return table;
-    }));
+  // 複数選択時の均等配置処理（中心を等間隔、または隙間を等しく）
+  const handleDistribute = (ids: string[], axis: DistributeAxis, mode: DistributeMode) => {
+    moveTablesByOffsets(
+      `${axis === 'horizontal' ? '左右' : '上下'}の${mode === 'centers' ? '中心' : '間隔'}を均等配置`,
+      getDistributionOffsets(buildSelectionUnits(tables, ids), axis, { mode })
+    )
   }
 
-  // 複数選択時の左右中央揃え処理
-  const handleHorizontallyCentered = (ids: string[]) => {
-    const selectedTables = tables.filter(table => ids.includes(table.id))
-    if (selectedTables.length === 0) return
+  // 複数選択時の間隔指定の配置処理
+  const handleDistributeWithGap = (axis: DistributeAxis, gap: number) => {
+    moveTablesByOffsets(
+      `${axis === 'horizontal' ? '左右' : '上下'}に${gap}mm間隔で配置`,
+      getDistributionOffsets(buildSelectionUnits(tables, selectedTableIds), axis, { mode: 'fixedGap', gap })
+    )
+  }
 
-    // 最初に選択されたテーブルの中心X座標を取得
-    const primaryTable = tables.find(table => table.id == ids[0])!;
-    const baseX = primaryTable.position.x;
+  // グループ化処理（スケールはグループに含めない）
+  const handleGroup = (ids: string[]) => {
+    const units = buildSelectionUnits(tables, ids)
+    if (units.length < 2) return
 
-    setTables(prev => prev.map(table => {
-      if (ids.includes(table.id)) {
+    const targetIds = units.flatMap(unit => unit.ids)
+    const groupId = createGroupId()
+    updateTables('グループ化', prev => prev.map(table =>
+      targetIds.includes(table.id)
+        ? { ...table, groupId }
+        : table
+    ))
+    setSelectedTableIds(expandToGroups(tables, ids).filter(id => targetIds.includes(id)))
+  }
 
-        return {
-          ...table,
-          position: {
-            x: baseX,
-            y: table.position.y
-          }
-        };
-      }
-      return table;
-    }));
+  // グループ解除処理
+  const handleUngroup = (ids: string[]) => {
+    const targetIds = expandToGroups(tables, ids)
+    updateTables('グループ解除', prev => prev.map(table =>
+      targetIds.includes(table.id) && table.groupId
+        ? { ...table, groupId: undefined }
+        : table
+    ))
   }
 
-  // 複数選択時の右揃え処理
-  const handleAlignRight = (ids: string[]) => {
-    const selectedTables = tables.filter(table => ids.includes(table.id))
-    if (selectedTables.length === 0) return
+  // 描画順の変更処理
+  const handleZOrderChange = (ids: string[], operation: ZOrderOperation) => {
+    const labels: { [key in ZOrderOperation]: string } = {
+      bringToFront: '最前面へ移動',
+      bringForward: '前面へ移動',
+      sendBackward: '背面へ移動',
+      sendToBack: '最背面へ移動'
+    }
+    updateTables(labels[operation], prev => reorderTables(prev, ids, operation))
+  }
 
-    // 最初に選択されたテーブルを取得
-    const primaryTable = tables.find(table => table.id == ids[0])!;
+  // ロック・ロック解除処理
+  const handleSetLocked = (ids: string[], locked: boolean) => {
+    updateTables(locked ? 'ロック' : 'ロック解除', prev => setTablesLocked(prev, ids, locked))
+  }
 
-    // 最初に選択されたテーブルの右辺の座標を取得
-    const circumscription = circumscriptionSizeFull(primaryTable);
-    const primaryRightX = circumscription.corners.topRight.x;
+  // 会場図（背景）のロック・ロック解除（境界エリアの設定中・縮尺調整中の場合は中止する）
+  const handleSetRoomLocked = (locked: boolean) => {
+    execute({
+      label: locked ? '会場図のロック' : '会場図のロック解除',
+      apply: state => setRoomLocked(state, locked)
+    })
+    if (locked) {
+      setIsBoundarySettingMode(false)
+      setIsCalibrationMode(false)
+    }
+  }
 
-    setTables(prev => prev.map(table => {
-      if (ids.includes(table.id)) {
-        const tableCircumscription = circumscriptionSizeFull(table);
+  // 同じ種類のオブジェクトをまとめてロック・ロック解除
+  // SVGステンシルは同じファイルのものを同じ種類とみなす
+  const handleSetLockedByType = (id: string, locked: boolean) => {
+    const baseTable = tables.find(table => table.id === id)
+    if (!baseTable || baseTable.type === 'scale') return
 
-        // 新しい中心座標を設定
-        return {
-          ...table,
-          position: {
-            x: primaryRightX - (tableCircumscription.width / 2),
-            y: table.position.y
-          }
-        };
-      }
-      return table;
-    }));
+    updateTables(locked ? '同じ種類をすべてロック' : '同じ種類をすべてロック解除', prev => setSameKindLocked(prev, id, locked))
   }
 
   const handleMeasureDistance = (ids: string[]) => {
@@ -440,7 +684,7 @@ function App() {
   };
 
   const handleTextBoxSave = (id: string, properties: TextBoxProps) => {
-    setTables(prev => prev.map(table =>
+    updateTables('テキストボックスの編集', prev => prev.map(table =>
       table.id === id
         ? { ...table, properties }
         : table
@@ -454,7 +698,7 @@ function App() {
 
   // 図形編集ハンドラー
   const handleShapeSave = (id: string, properties: any) => {
-    setTables(prev => prev.map(table =>
+    updateTables('オブジェクトの編集', prev => prev.map(table =>
       table.id === id
         ? { ...table, properties }
         : table
@@ -471,24 +715,34 @@ function App() {
     // プロジェクト情報を設定
     setCurrentProjectName(projectData.projectInfo.name);
 
-    // 会場データを設定
-    if (projectData.venue.svgData) {
-      setSvgData(projectData.venue.svgData);
-    } else {
-      setSvgData(null);
-    }
+    // 会場データ・テーブルデータ・境界エリアを設定
+    // 読み込みも1つの操作として履歴に残し、元に戻せるようにする
+    execute({
+      label: 'プロジェクトの読み込み',
+      apply: () => ({
+        svgData: projectData.venue.svgData || null,
+        tables: projectData.tables,
+        boundaryArea: projectData.venue.boundaryArea || null
+      })
+    });
 
-    // テーブルデータを設定
-    setTables(projectData.tables);
+    // 編集環境設定を復元（保存されていない場合は表示領域のみ初期化）
+    const settings = projectData.editorSettings;
+    if (settings?.grid) {
+      setGridSize(settings.grid.gridSize);
+      setSnapEnabled(settings.grid.snapEnabled);
+      setGridVisible(settings.grid.gridVisible);
+    }
+    setViewport(settings?.viewport || { scale: 1.0, panX: 0, panY: 0 });
 
     // 選択状態をクリア
     setSelectedTableIds([]);
     setEditingTextBoxId(null);
     setEditingShapeId(null);
 
-    // 境界エリアをクリア
-    setBoundaryArea(null);
     setIsBoundarySettingMode(false);
+    setIsCalibrationMode(false);
+    setStampSettings(null);
 
     // エラーをクリア
     clearError();
@@ -502,90 +756,101 @@ function App() {
     handleCreateTable('scale', scaleProps);
   }
 
-  type CopyDirection = 'up' | 'down' | 'left' | 'right';
-  const handleDuplicateWithInterval = (ids: string[], direction: CopyDirection, count: number, interval: number) => {
-    const selectedTables = tables.filter(table => ids.includes(table.id))
-    if (selectedTables.length === 0) return
+  // 選択したオブジェクトを縦横に並べて複製する
+  const handleArrayDuplicate = (ids: string[], settings: ArrayDuplicateSettings) => {
+    const targetIds = expandToGroups(tables, ids)
+    const newTables = createArrayCopies(tables.filter(table => targetIds.includes(table.id)), settings)
+    if (newTables.length === 0) return
 
-  // 方向に応じた基準座標とオフセット計算
-  const getOffsetFromBoundary = (direction: CopyDirection, multiplier: number) => {
-    const offset = interval * multiplier;
-    
-    switch (direction) {
-      case 'up':
-        // 図形の上端から上方向にオフセット
-        return (originalTable: TableObject) => {
-          const tableCircumscription = circumscriptionSizeFull(originalTable);
-          const tableHeight = tableCircumscription.height;
-          return {
-            x: 0,
-            y: -(offset + (tableHeight * multiplier))
-          };
-        };
-        
-      case 'down':
-        // 図形の下端から下方向にオフセット
-        return (originalTable: TableObject) => {
-          const tableCircumscription = circumscriptionSizeFull(originalTable);
-          const tableHeight = tableCircumscription.height;
-          return {
-            x: 0,
-            y: offset + (tableHeight * multiplier)
-          };
-        };
-        
-      case 'left':
-        // 図形の左端から左方向にオフセット
-        return (originalTable: TableObject) => {
-          const tableCircumscription = circumscriptionSizeFull(originalTable);
-          const tableWidth = tableCircumscription.width;
-          return {
-            x: -(offset + (tableWidth * multiplier)),
-            y: 0
-          };
-        };
-        
-      case 'right':
-        // 図形の右端から右方向にオフセット
-        return (originalTable: TableObject) => {
-          const tableCircumscription = circumscriptionSizeFull(originalTable);
-          const tableWidth = tableCircumscription.width;
-          return {
-            x: offset + (tableWidth * multiplier),
-            y: 0
-          };
-        };
-        
-      default:
-        return () => ({ x: 0, y: 0 });
-    }
-  };
+    appendTables('オブジェクトの詳細複製', newTables)
+    setSelectedTableIds(newTables.map(table => table.id))
+  }
 
-  // 複製作成処理
-  const allNewTables: TableObject[] = [];
-  
-  for (let copyIndex = 1; copyIndex <= count; copyIndex++) {
-    const offsetCalculator = getOffsetFromBoundary(direction, copyIndex);
-    
-    const newTablesForThisCopy = selectedTables.map((originalTable, tableIndex) => {
-      const offset = offsetCalculator(originalTable);
-      return {
-        ...originalTable,
-        id: `table_${Date.now()}_${copyIndex}_${tableIndex}_${Math.random().toString(36).substring(2, 9)}`,
-        position: {
-          x: originalTable.position.x + offset.x,
-          y: originalTable.position.y + offset.y
-        }
-      };
-    });
-    
-    allNewTables.push(...newTablesForThisCopy);
+  // オブジェクトの重なりと境界エリアからのはみ出しを常に調べる
+  const layoutProblems = useMemo(
+    () => findLayoutProblems(tables, boundaryArea),
+    [tables, boundaryArea]
+  )
+
+  // 自動レイアウト・収容数の最適化は境界エリア（未設定の場合は会場全体）に配置する
+  const autoLayoutArea = useMemo<BoundaryArea>(
+    () => boundaryArea || { x: 0, y: 0, width: svgData?.width ?? 0, height: svgData?.height ?? 0 },
+    [boundaryArea, svgData]
+  )
+
+  const handleAutoLayout = (newTables: TableObject[]) => {
+    appendTables('自動レイアウト', newTables)
+    setSelectedTableIds(newTables.map(table => table.id))
+  }
+
+  const handleApplyCapacityOptimizer = (newTables: TableObject[]) => {
+    appendTables('収容数の最適化', newTables)
+    setSelectedTableIds(newTables.map(table => table.id))
+  }
+
+  // 選択したオブジェクトを円形・円弧状に並べて複製する（中心の初期値は選択範囲の中心）
+  const handleOpenRadialDuplicate = (ids: string[]) => {
+    const targetIds = expandToGroups(tables, ids)
+    const sources = tables.filter(table => targetIds.includes(table.id) && table.type !== 'scale')
+    if (sources.length === 0) return
+
+    const bounds = getTablesBounds(sources)
+    setRadialDuplicateDialog({ ids, center: { x: bounds.centerX, y: bounds.centerY } })
+  }
+
+  const handleCloseRadialDuplicate = () => {
+    setRadialDuplicateDialog(null)
+    setIsRadialCenterPickMode(false)
+  }
+
+  const handleStartRadialCenterPick = () => {
+    setIsRadialCenterPickMode(true)
+    setStampSettings(null)
+    setIsBoundarySettingMode(false)
+    setIsCalibrationMode(false)
+  }
+
+  const handleRadialCenterChange = (center: Position) => {
+    setRadialDuplicateDialog(prev => prev ? { ...prev, center } : prev)
+    setIsRadialCenterPickMode(false)
   }
 
-    setTables(prev => [...prev, ...allNewTables])
-    setSelectedTableIds(allNewTables.map(table => table.id))
+  const handleRadialDuplicate = (ids: string[], settings: RadialDuplicateSettings) => {
+    const targetIds = expandToGroups(tables, ids)
+    const newTables = createRadialCopies(tables.filter(table => targetIds.includes(table.id)), settings)
+    if (newTables.length === 0) return
+
+    appendTables('オブジェクトの円形複製', newTables)
+    setSelectedTableIds(newTables.map(table => table.id))
   }
 
+  useEffect(() => {
+    if (!isRadialCenterPickMode) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setIsRadialCenterPickMode(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isRadialCenterPickMode]);
+
+  // 詳細複製ダイアログで設定中の複製位置
+  const arrayDuplicatePreview = useMemo(() => {
+    if (!arrayDuplicatePreviewSettings) return []
+    const targetIds = expandToGroups(tables, selectedTableIds)
+    return createArrayCopies(tables.filter(table => targetIds.includes(table.id)), arrayDuplicatePreviewSettings)
+  }, [arrayDuplicatePreviewSettings, tables, selectedTableIds])
+
+  // 円形複製ダイアログで設定中の複製位置
+  const radialDuplicatePreview = useMemo(() => {
+    if (!radialDuplicatePreviewSettings || !radialDuplicateDialog) return []
+    const targetIds = expandToGroups(tables, radialDuplicateDialog.ids)
+    return createRadialCopies(tables.filter(table => targetIds.includes(table.id)), radialDuplicatePreviewSettings)
+  }, [radialDuplicatePreviewSettings, radialDuplicateDialog, tables])
+
   const selectedTables = tables.filter(table => selectedTableIds.includes(table.id))
   const primarySelectedTable = selectedTables.length > 0 ? selectedTables[0] : null
   const editingTextBox = editingTextBoxId ? tables.find(table => table.id === editingTextBoxId) : null
@@ -602,9 +867,35 @@ function App() {
             )}
           </div>
           <div className="header-right">
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className="btn-action btn-mr"
+              title={undoLabel ? `元に戻す: ${undoLabel} (Ctrl+Z)` : '元に戻す (Ctrl+Z)'}
+            >
+              元に戻す
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="btn-action btn-mr"
+              title={redoLabel ? `やり直し: ${redoLabel} (Ctrl+Y)` : 'やり直し (Ctrl+Y)'}
+            >
+              やり直し
+            </button>
+            <button
+              onClick={() => setIsExportDialogOpen(true)}
+              disabled={!svgData}
+              className="btn-action btn-mr"
+              title="PNG・SVGで書き出し"
+            >
+              書き出し
+            </button>
             <ProjectManager
               tables={tables}
               svgData={svgData}
+              boundaryArea={boundaryArea}
+              editorSettings={editorSettings}
               onLoadProject={handleLoadProject}
               onLastSaveTimeChange={setLastSaveTime}
             />
@@ -626,11 +917,29 @@ function App() {
               onError={handleSVGError}
             />
 
+            {svgData && (
+              <RoomLockControls
+                isLocked={isRoomLocked}
+                onLockToggle={handleSetRoomLocked}
+              />
+            )}
+
             {svgData && (
               <BoundaryAreaSelector
                 onBoundarySet={handleStartBoundarySettings}
                 onCancel={handleCancelBoundarySettings}
                 isActive={isBoundarySettingMode}
+                isLocked={isRoomLocked}
+              />
+            )}
+
+            {svgData && (
+              <ScaleCalibrationControls
+                scaleFactor={getRoomScaleFactor(svgData)}
+                onStart={handleStartCalibration}
+                onCancel={handleCancelCalibration}
+                isActive={isCalibrationMode}
+                isLocked={isRoomLocked}
               />
             )}
 
@@ -641,10 +950,25 @@ function App() {
               onSnapToggle={setSnapEnabled}
               gridVisible={gridVisible}
               onGridVisibilityToggle={setGridVisible}
+              smartGuidesEnabled={smartGuidesEnabled}
+              onSmartGuidesToggle={setSmartGuidesEnabled}
             />
 
+            {svgData && (
+              <LayoutProblemsPanel
+                problems={layoutProblems}
+                tables={tables}
+                onSelectTables={setSelectedTableIds}
+              />
+            )}
+
             <TableToolbar
               onCreateTable={handleCreateTable}
+              isStampMode={stampSettings !== null}
+              onStartStamp={handleStartStamp}
+              onEndStamp={handleEndStamp}
+              onOpenAutoLayout={svgData ? setAutoLayoutStencil : undefined}
+              onOpenCapacityOptimizer={svgData ? setCapacityOptimizerStencil : undefined}
               selectedTable={primarySelectedTable}
               onUpdateTable={() => { }} // 今回は実装しない
             />
@@ -665,21 +989,43 @@ function App() {
                 boundaryArea={boundaryArea || undefined}
                 onBoundaryAreaSet={handleBoundaryAreaSet}
                 isBoundarySettingMode={isBoundarySettingMode}
+                isCalibrationMode={isCalibrationMode}
+                onCalibrationPointsSet={handleCalibrationPointsSet}
+                onStencilDrop={handleStencilDrop}
+                stampSettings={stampSettings}
+                onStamp={handleStamp}
+                onAreaSelect={handleAreaSelect}
+                onTableTransform={handleTableTransform}
                 gridSize={gridSize}
                 snapEnabled={snapEnabled}
                 gridVisible={gridVisible}
+                smartGuidesEnabled={smartGuidesEnabled}
+                previewTables={[...arrayDuplicatePreview, ...radialDuplicatePreview, ...autoLayoutPreview, ...capacityOptimizerPreview]}
+                layoutProblems={layoutProblems}
+                onDuplicateRadial={handleOpenRadialDuplicate}
+                isCenterPickMode={isRadialCenterPickMode}
+                onCenterPick={handleRadialCenterChange}
                 onAlignTop={handleAlignTop}
                 onVerticallyCentered={handleVerticallyCentered}
                 onAlignBottom={handleAlignBottom}
                 onAlignLeft={handleAlignLeft}
                 onHorizontallyCentered={handleHorizontallyCentered}
                 onAlignRight={handleAlignRight}
+                onDistribute={handleDistribute}
+                onDistributeWithGap={() => setIsDistributeGapDialogOpen(true)}
                 onMeasureDistance={handleMeasureDistance}
+                onZOrderChange={handleZOrderChange}
+                onSetLocked={handleSetLocked}
+                onSetLockedByType={handleSetLockedByType}
+                onGroup={handleGroup}
+                onUngroup={handleUngroup}
                 onTextBoxDoubleClick={handleTextBoxDoubleClick}
                 onShapeDoubleClick={handleShapeDoubleClick}
                 lastSaveTime={lastSaveTime}
                 onTableDuplicateCustom={handleTableDuplicateCustom}
                 onMultipleTableDuplicateCustom={handleMultipleTableDuplicateCustom}
+                viewport={viewport}
+                onViewportChange={setViewport}
               />
             ) : (
               <div className="canvas-empty">
@@ -732,7 +1078,83 @@ function App() {
             isOpen={duplicateCustomDialog.isOpen}
             ids={selectedTableIds}
             onClose={() => setDuplicateCustomDialog(null)}
-            onDuplicate={handleDuplicateWithInterval}
+            onDuplicate={handleArrayDuplicate}
+            onPreviewChange={setArrayDuplicatePreviewSettings}
+          />
+        )}
+
+        {/* 自動レイアウトダイアログ */}
+        {autoLayoutStencil && svgData && (
+          <AutoLayoutDialog
+            isOpen={!!autoLayoutStencil}
+            stencil={autoLayoutStencil}
+            area={autoLayoutArea}
+            isBoundaryArea={!!boundaryArea}
+            existingTables={tables}
+            onClose={() => setAutoLayoutStencil(null)}
+            onApply={handleAutoLayout}
+            onPreviewChange={setAutoLayoutPreview}
+          />
+        )}
+
+        {/* 収容数の最適化ダイアログ */}
+        {capacityOptimizerStencil && svgData && (
+          <CapacityOptimizerDialog
+            isOpen={!!capacityOptimizerStencil}
+            stencil={capacityOptimizerStencil}
+            area={autoLayoutArea}
+            isBoundaryArea={!!boundaryArea}
+            existingTables={tables}
+            onClose={() => setCapacityOptimizerStencil(null)}
+            onApply={handleApplyCapacityOptimizer}
+            onPreviewChange={setCapacityOptimizerPreview}
+          />
+        )}
+
+        {/* 円形複製ダイアログ */}
+        {radialDuplicateDialog && (
+          <RadialDuplicateDialog
+            isOpen={!!radialDuplicateDialog}
+            ids={radialDuplicateDialog.ids}
+            center={radialDuplicateDialog.center}
+            onCenterChange={handleRadialCenterChange}
+            isPickingCenter={isRadialCenterPickMode}
+            onStartPickCenter={handleStartRadialCenterPick}
+            onCancelPickCenter={() => setIsRadialCenterPickMode(false)}
+            onClose={handleCloseRadialDuplicate}
+            onDuplicate={handleRadialDuplicate}
+            onPreviewChange={setRadialDuplicatePreviewSettings}
+          />
+        )}
+
+        {/* 間隔指定の配置ダイアログ */}
+        {isDistributeGapDialogOpen && (
+          <DistributeGapDialog
+            isOpen={isDistributeGapDialogOpen}
+            onClose={() => setIsDistributeGapDialogOpen(false)}
+            onDistribute={handleDistributeWithGap}
+          />
+        )}
+
+        {/* 縮尺調整ダイアログ */}
+        {calibrationDialog && (
+          <ScaleCalibrationDialog
+            isOpen={!!calibrationDialog}
+            measuredDistance={calibrationDialog.measuredDistance}
+            onClose={() => setCalibrationDialog(null)}
+            onCalibrate={handleCalibrate}
+          />
+        )}
+
+        {/* レイアウト図書き出しダイアログ */}
+        {isExportDialogOpen && svgData && (
+          <ExportDialog
+            isOpen={isExportDialogOpen}
+            onClose={() => setIsExportDialogOpen(false)}
+            svgData={svgData}
+            tables={tables}
+            projectName={currentProjectName}
+            onError={setError}
           />
         )}
       </div>
@@ -0,0 +1,313 @@
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import type { TableObject, BoundaryArea, StencilData, AutoLayoutStyle, AutoLayoutSettings, StagePosition } from '../types';
+import { AUTO_LAYOUT_STYLE_LABELS, STAGE_POSITION_LABELS, AUTO_LAYOUT_DEFAULTS, generateAutoLayout } from '../utils/autoLayout';
+
+interface AutoLayoutDialogProps {
+    isOpen: boolean;
+    stencil: StencilData;
+    area: BoundaryArea;             // 境界エリア（未設定の場合は会場全体）
+    isBoundaryArea: boolean;
+    existingTables: TableObject[];
+    onClose: () => void;
+    onApply: (tables: TableObject[]) => void;
+    onPreviewChange?: (tables: TableObject[]) => void; // キャンバスに配置位置を表示
+}
+
+// 数値入力欄のスタイル
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '0.5rem',
+    fontWeight: 'bold'
+};
+
+const toNonNegative = (value: string): number => Math.max(0, parseInt(value) || 0);
+
+const AutoLayoutDialog: React.FC<AutoLayoutDialogProps> = ({
+    isOpen,
+    stencil,
+    area,
+    isBoundaryArea,
+    existingTables,
+    onClose,
+    onApply,
+    onPreviewChange,
+}) => {
+    // フォーカス管理用のref
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    const [settings, setSettings] = useState<AutoLayoutSettings>({
+        style: 'theatre',
+        guestCount: 100,
+        ...AUTO_LAYOUT_DEFAULTS.theatre,
+        centerAisle: 1200,
+        sideAisle: 900,
+        stagePosition: 'top',
+        stageClearance: 3000,
+        avoidExisting: true
+    });
+
+    const updateSettings = (changes: Partial<AutoLayoutSettings>) => {
+        setSettings(prev => ({ ...prev, ...changes }));
+    };
+
+    // 形式を変更したら席数・間隔をその形式の初期値にする
+    const handleStyleChange = (style: AutoLayoutStyle) => {
+        updateSettings({ style, ...AUTO_LAYOUT_DEFAULTS[style] });
+    };
+
+    const result = useMemo(
+        () => generateAutoLayout(stencil, area, settings, existingTables),
+        [stencil, area, settings, existingTables]
+    );
+
+    // モーダルが開いた時にフォーカスを当てる
+    useEffect(() => {
+        if (isOpen && modalRef.current) {
+            modalRef.current.focus();
+        }
+    }, [isOpen]);
+
+    // 設定を変更するたびにキャンバスの表示を更新し、閉じたら消す
+    useEffect(() => {
+        if (!isOpen) return;
+        onPreviewChange?.(result.tables);
+        return () => onPreviewChange?.([]);
+    }, [isOpen, result, onPreviewChange]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            onClose();
+        }
+    };
+
+    const handleApply = () => {
+        if (result.tables.length > 0) {
+            onApply(result.tables);
+        }
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const shortage = settings.guestCount - result.seats;
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                // 配置位置をキャンバスで確認できるように背景は薄くし、右側に表示する
+                backgroundColor: 'rgba(0, 0, 0, 0.1)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'flex-end',
+                padding: '0 2rem',
+                zIndex: 1000
+            }}
+        >
+            <div
+                style={{
+                    backgroundColor: 'white',
+                    padding: '2rem',
+                    borderRadius: '8px',
+                    width: '420px',
+                    maxWidth: '90vw',
+                    maxHeight: '90vh',
+                    overflow: 'auto',
+                    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)'
+                }}
+                tabIndex={-1}
+                onKeyDown={handleKeyDown}
+                ref={modalRef}
+            >
+                <h3 style={{ margin: '0 0 1.5rem 0', textAlign: 'center' }}>
+                    自動レイアウト
+                </h3>
+
+                <p style={{ fontSize: '0.85rem', color: '#666', margin: '0 0 1rem 0' }}>
+                    {isBoundaryArea ? '境界エリア' : '会場全体'}に、選択中のステンシルを並べます。
+                </p>
+
+                {/* 形式・ステージの設定 */}
+                <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>形式：</label>
+                        <select
+                            value={settings.style}
+                            onChange={(e) => handleStyleChange(e.target.value as AutoLayoutStyle)}
+                            style={inputStyle}
+                        >
+                            {(Object.keys(AUTO_LAYOUT_STYLE_LABELS) as AutoLayoutStyle[]).map(style => (
+                                <option key={style} value={style}>{AUTO_LAYOUT_STYLE_LABELS[style]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>ステージの位置：</label>
+                        <select
+                            value={settings.stagePosition}
+                            onChange={(e) => updateSettings({ stagePosition: e.target.value as StagePosition })}
+                            style={inputStyle}
+                        >
+                            {(Object.keys(STAGE_POSITION_LABELS) as StagePosition[]).map(position => (
+                                <option key={position} value={position}>{STAGE_POSITION_LABELS[position]}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {/* 人数・席数の設定 */}
+                <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>人数：(名)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={settings.guestCount}
+                            onChange={(e) => updateSettings({ guestCount: toNonNegative(e.target.value) })}
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>1つあたりの席数：</label>
+                        <input
+                            type="number"
+                            min="1"
+                            value={settings.seatsPerTable}
+                            onChange={(e) => updateSettings({ seatsPerTable: Math.max(1, parseInt(e.target.value) || 1) })}
+                            style={inputStyle}
+                        />
+                    </div>
+                </div>
+
+                {/* 間隔の設定 */}
+                <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>列の間隔：(mm)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="100"
+                            value={settings.rowGap}
+                            onChange={(e) => updateSettings({ rowGap: toNonNegative(e.target.value) })}
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>横の間隔：(mm)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="100"
+                            value={settings.columnGap}
+                            onChange={(e) => updateSettings({ columnGap: toNonNegative(e.target.value) })}
+                            style={inputStyle}
+                        />
+                    </div>
+                </div>
+
+                {/* 通路の設定 */}
+                <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>中央通路：(mm)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="100"
+                            value={settings.centerAisle}
+                            onChange={(e) => updateSettings({ centerAisle: toNonNegative(e.target.value) })}
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>壁際の通路：(mm)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="100"
+                            value={settings.sideAisle}
+                            onChange={(e) => updateSettings({ sideAisle: toNonNegative(e.target.value) })}
+                            style={inputStyle}
+                        />
+                    </div>
+                </div>
+
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={labelStyle}>ステージ側の空き：(mm)</label>
+                    <input
+                        type="number"
+                        min="0"
+                        step="100"
+                        value={settings.stageClearance}
+                        disabled={settings.stagePosition === 'none'}
+                        onChange={(e) => updateSettings({ stageClearance: toNonNegative(e.target.value) })}
+                        style={inputStyle}
+                    />
+                </div>
+
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <input
+                            type="checkbox"
+                            checked={settings.avoidExisting}
+                            onChange={(e) => updateSettings({ avoidExisting: e.target.checked })}
+                        />
+                        既存のオブジェクトと重なる位置には配置しない
+                    </label>
+                </div>
+
+                {/* 配置結果の表示 */}
+                <div style={{
+                    textAlign: 'center',
+                    padding: '0.75rem',
+                    backgroundColor: shortage > 0 ? '#fff3cd' : '#f5f5f5',
+                    borderRadius: '4px',
+                    marginBottom: '1rem'
+                }}>
+                    <div>
+                        <strong>配置：</strong> {result.tables.length}個 / {result.seats}席
+                    </div>
+                    <div style={{ fontSize: '0.85rem', color: '#666' }}>
+                        このエリアに収まる最大: {result.capacity}席
+                    </div>
+                    {shortage > 0 && (
+                        <div style={{ fontSize: '0.85rem', color: '#856404' }}>
+                            {settings.guestCount}名に対して{shortage}席不足しています
+                        </div>
+                    )}
+                </div>
+
+                <div style={{ display: 'flex', justifyContent: 'center', gap: '1rem' }}>
+                    <button
+                        onClick={handleApply}
+                        className='btn-action btn-mr'
+                        disabled={result.tables.length === 0}
+                    >
+                        配置
+                    </button>
+
+                    <button
+                        onClick={onClose}
+                        className='btn-cancel'
+                    >
+                        キャンセル
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AutoLayoutDialog;
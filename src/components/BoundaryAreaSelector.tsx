@@ -5,12 +5,14 @@ interface BoundaryAreaSelectorProps {
   onBoundarySet: (boundary: BoundaryArea) => void;
   onCancel: () => void;
   isActive: boolean;
+  isLocked?: boolean;  // 会場図のロック中は変更できない
 }
 
 const BoundaryAreaSelector: React.FC<BoundaryAreaSelectorProps> = ({
   onBoundarySet,
   onCancel,
-  isActive
+  isActive,
+  isLocked = false
 }) => {
   return (
     <div className="boundary-area-selector">
@@ -21,6 +23,7 @@ const BoundaryAreaSelector: React.FC<BoundaryAreaSelectorProps> = ({
           <p>SVG読み込み後、テーブル配置可能な境界エリアを設定できます。</p>
           <button 
             onClick={() => onBoundarySet({ x: 0, y: 0, width: 0, height: 0 })}
+            disabled={isLocked}
             className="btn-action btn-center"
           >
             境界エリア設定を開始
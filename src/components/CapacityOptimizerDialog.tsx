@@ -0,0 +1,222 @@
+import React, { useRef, useEffect, useState } from 'react';
+import type { TableObject, BoundaryArea, StencilData } from '../types';
+import { useCapacityOptimizer } from '../hooks/useCapacityOptimizer';
+import { MAX_CAPACITY_TABLES } from '../utils/capacityOptimizer';
+
+interface CapacityOptimizerDialogProps {
+    isOpen: boolean;
+    stencil: StencilData;
+    area: BoundaryArea;             // 境界エリア（未設定の場合は会場全体）
+    isBoundaryArea: boolean;
+    existingTables: TableObject[];
+    onClose: () => void;
+    onApply: (tables: TableObject[]) => void;
+    onPreviewChange?: (tables: TableObject[]) => void; // キャンバスに配置位置を表示
+}
+
+// 数値入力欄のスタイル
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '0.5rem',
+    fontWeight: 'bold'
+};
+
+const CapacityOptimizerDialog: React.FC<CapacityOptimizerDialogProps> = ({
+    isOpen,
+    stencil,
+    area,
+    isBoundaryArea,
+    existingTables,
+    onClose,
+    onApply,
+    onPreviewChange,
+}) => {
+    // フォーカス管理用のref
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    const [clearance, setClearance] = useState<number>(1000);
+    const [avoidExisting, setAvoidExisting] = useState<boolean>(true);
+    const { result, isRunning, error, run, cancel } = useCapacityOptimizer();
+
+    // モーダルが開いた時にフォーカスを当てる
+    useEffect(() => {
+        if (isOpen && modalRef.current) {
+            modalRef.current.focus();
+        }
+    }, [isOpen]);
+
+    // 計算結果をキャンバスに表示し、閉じたら消す
+    useEffect(() => {
+        if (!isOpen || !result) return;
+        onPreviewChange?.(result.tables);
+        return () => onPreviewChange?.([]);
+    }, [isOpen, result, onPreviewChange]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            onClose();
+        }
+    };
+
+    // 条件を変更したら前の結果は使えないため消す
+    const handleClearanceChange = (value: number) => {
+        setClearance(value);
+        cancel();
+    };
+
+    const handleAvoidExistingChange = (value: boolean) => {
+        setAvoidExisting(value);
+        cancel();
+    };
+
+    const handleCalculate = () => {
+        run({
+            stencil,
+            area,
+            clearance,
+            obstacles: avoidExisting ? existingTables : []
+        });
+    };
+
+    const handleApply = () => {
+        if (result && result.tables.length > 0) {
+            onApply(result.tables);
+        }
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                // 配置位置をキャンバスで確認できるように背景は薄くし、右側に表示する
+                backgroundColor: 'rgba(0, 0, 0, 0.1)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'flex-end',
+                padding: '0 2rem',
+                zIndex: 1000
+            }}
+        >
+            <div
+                style={{
+                    backgroundColor: 'white',
+                    padding: '2rem',
+                    borderRadius: '8px',
+                    width: '400px',
+                    maxWidth: '90vw',
+                    maxHeight: '90vh',
+                    overflow: 'auto',
+                    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)'
+                }}
+                tabIndex={-1}
+                onKeyDown={handleKeyDown}
+                ref={modalRef}
+            >
+                <h3 style={{ margin: '0 0 1.5rem 0', textAlign: 'center' }}>
+                    収容数の最適化
+                </h3>
+
+                <p style={{ fontSize: '0.85rem', color: '#666', margin: '0 0 1rem 0' }}>
+                    {isBoundaryArea ? '境界エリア' : '会場全体'}に、選択中のステンシルが最も多く収まる配置を探します。
+                </p>
+
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={labelStyle}>ステンシル同士の間隔：(mm)</label>
+                    <input
+                        type="number"
+                        min="0"
+                        step="100"
+                        value={clearance}
+                        onChange={(e) => handleClearanceChange(Math.max(0, parseInt(e.target.value) || 0))}
+                        style={inputStyle}
+                    />
+                </div>
+
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <input
+                            type="checkbox"
+                            checked={avoidExisting}
+                            onChange={(e) => handleAvoidExistingChange(e.target.checked)}
+                        />
+                        既存のオブジェクトからも間隔を空ける
+                    </label>
+                </div>
+
+                <div style={{ textAlign: 'center', marginBottom: '1rem' }}>
+                    <button
+                        onClick={handleCalculate}
+                        className='btn-action'
+                        disabled={isRunning}
+                    >
+                        {isRunning ? '計算中...' : '計算'}
+                    </button>
+                </div>
+
+                {/* 計算結果の表示 */}
+                {error && (
+                    <div style={{ color: '#d32f2f', fontSize: '0.85rem', marginBottom: '1rem' }}>
+                        {error}
+                    </div>
+                )}
+                {result && (
+                    <div style={{
+                        textAlign: 'center',
+                        padding: '0.75rem',
+                        backgroundColor: '#f5f5f5',
+                        borderRadius: '4px',
+                        marginBottom: '1rem'
+                    }}>
+                        <div>
+                            <strong>最大：</strong> {result.tables.length}個
+                        </div>
+                        <div style={{ fontSize: '0.85rem', color: '#666' }}>
+                            {result.staggered ? '互い違い' : '格子状'}
+                            {result.rotation !== 0 && `・${result.rotation}°回転`}
+                        </div>
+                        {result.truncated && (
+                            <div style={{ fontSize: '0.85rem', color: '#8a6d3b', marginTop: '0.5rem' }}>
+                                配置できる数が上限（{MAX_CAPACITY_TABLES}個）に達したため、エリアの一部には並べていません
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <div style={{ display: 'flex', justifyContent: 'center', gap: '1rem' }}>
+                    <button
+                        onClick={handleApply}
+                        className='btn-action btn-mr'
+                        disabled={!result || result.tables.length === 0}
+                    >
+                        配置
+                    </button>
+
+                    <button
+                        onClick={onClose}
+                        className='btn-cancel'
+                    >
+                        キャンセル
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CapacityOptimizerDialog;
@@ -17,9 +17,27 @@ interface ContextMenuProps {
   onAlignLeft?: () => void;
   onHorizontallyCentered?: () => void;
   onAlignRight?: () => void;
+  onDistributeHorizontalCenters?: () => void;
+  onDistributeHorizontalGaps?: () => void;
+  onDistributeVerticalCenters?: () => void;
+  onDistributeVerticalGaps?: () => void;
+  onDistributeWithGap?: () => void;
   onMeasureDistance?: () => void;
+  isLocked?: boolean;
+  onLock?: () => void;
+  onUnlock?: () => void;
+  onLockAllOfType?: () => void;
+  onUnlockAllOfType?: () => void;
+  onBringToFront?: () => void;
+  onBringForward?: () => void;
+  onSendBackward?: () => void;
+  onSendToBack?: () => void;
+  isGrouped?: boolean;
+  onGroup?: () => void;
+  onUngroup?: () => void;
   onDuplicateCustom: () => void;
   onDuplicateMultipleCustom?: () => void;
+  onDuplicateRadial?: () => void;
 }
 
 const ContextMenu: React.FC<ContextMenuProps> = ({
@@ -39,9 +57,27 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
   onAlignLeft,
   onHorizontallyCentered,
   onAlignRight,
+  onDistributeHorizontalCenters,
+  onDistributeHorizontalGaps,
+  onDistributeVerticalCenters,
+  onDistributeVerticalGaps,
+  onDistributeWithGap,
   onMeasureDistance,
+  isLocked = false,
+  onLock,
+  onUnlock,
+  onLockAllOfType,
+  onUnlockAllOfType,
+  onBringToFront,
+  onBringForward,
+  onSendBackward,
+  onSendToBack,
+  isGrouped = false,
+  onGroup,
+  onUngroup,
   onDuplicateCustom,
   onDuplicateMultipleCustom,
+  onDuplicateRadial,
 }) => {
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -97,6 +133,11 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
     onClose();
   };
 
+  const handleDuplicateRadial = () => {
+    onDuplicateRadial?.();
+    onClose();
+  };
+
   const handleAlignTop = () => {
     onAlignTop?.();
     onClose();
@@ -132,6 +173,83 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
     onClose();
   }
 
+  // 描画順の変更メニュー項目
+  const zOrderItems = [
+    { key: 'bringToFront', label: '⏫ 最前面へ移動', onClick: onBringToFront },
+    { key: 'bringForward', label: '🔼 前面へ移動', onClick: onBringForward },
+    { key: 'sendBackward', label: '🔽 背面へ移動', onClick: onSendBackward },
+    { key: 'sendToBack', label: '⏬ 最背面へ移動', onClick: onSendToBack },
+  ];
+
+  // 均等配置のメニュー項目（両端を固定するため3つ以上選択している場合）
+  const distributeItems = [
+    ...(selectedTableIds.length > 2 ? [
+      { key: 'distributeHorizontalCenters', label: '↔️ 左右の中心を均等配置', onClick: onDistributeHorizontalCenters },
+      { key: 'distributeHorizontalGaps', label: '↔️ 左右の間隔を均等配置', onClick: onDistributeHorizontalGaps },
+      { key: 'distributeVerticalCenters', label: '↕️ 上下の中心を均等配置', onClick: onDistributeVerticalCenters },
+      { key: 'distributeVerticalGaps', label: '↕️ 上下の間隔を均等配置', onClick: onDistributeVerticalGaps },
+    ] : []),
+    { key: 'distributeWithGap', label: '📐 間隔を指定して配置...', onClick: onDistributeWithGap },
+  ];
+
+  // ロックのメニュー項目
+  const lockItems = [
+    isLocked
+      ? { key: 'unlock', label: '🔓 ロック解除', onClick: onUnlock }
+      : { key: 'lock', label: '🔒 ロック', onClick: onLock },
+    ...(selectedTableIds.length > 1 ? [] : [
+      { key: 'lockAllOfType', label: '🔒 同じ種類をすべてロック', onClick: onLockAllOfType },
+      { key: 'unlockAllOfType', label: '🔓 同じ種類をすべてロック解除', onClick: onUnlockAllOfType },
+    ]),
+  ];
+
+  // グループのメニュー項目
+  const groupItems = [
+    { key: 'group', label: '🔗 グループ化', onClick: onGroup },
+    ...(isGrouped ? [{ key: 'ungroup', label: '✂️ グループ解除', onClick: onUngroup }] : []),
+  ];
+
+  // メニュー項目と区切り線を描画
+  const renderMenuItems = (items: { key: string; label: string; onClick?: () => void }[], padding: string) => (
+    <>
+      {items.map(item => (
+        <div
+          key={item.key}
+          className="context-menu-item"
+          onClick={() => {
+            item.onClick?.();
+            onClose();
+          }}
+          style={{
+            padding,
+            cursor: 'pointer',
+            fontSize: '14px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px'
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = '#f0f0f0';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'transparent';
+          }}
+        >
+          {item.label}
+        </div>
+      ))}
+
+      <div
+        className="context-menu-divider"
+        style={{
+          height: '1px',
+          backgroundColor: '#eee',
+          margin: '4px 0'
+        }}
+      />
+    </>
+  );
+
   // 複数選択されているかどうかを判定
   const isMultipleSelected = selectedTableIds.length > 1;
 
@@ -299,6 +417,8 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
             }}
           />
 
+          {renderMenuItems(distributeItems, '4px 16px')}
+
           {selectedTableIds.length == 2 && (
             <>
               <div
@@ -333,6 +453,12 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
             </>
           )}
 
+          {renderMenuItems(groupItems, '4px 16px')}
+
+          {renderMenuItems(lockItems, '4px 16px')}
+
+          {renderMenuItems(zOrderItems, '4px 16px')}
+
           <div
             className="context-menu-item"
             onClick={handleDuplicateMultiple}
@@ -374,6 +500,27 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
           >
             📋 選択したオブジェクトを複製(詳細) ({selectedTableIds.length}個)
           </div>
+
+          <div
+            className="context-menu-item"
+            onClick={handleDuplicateRadial}
+            style={{
+              padding: '4px 16px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px'
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = '#f0f0f0';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+          >
+            🔄 選択したオブジェクトを円形に複製 ({selectedTableIds.length}個)
+          </div>
           
           <div
             className="context-menu-item"
@@ -444,6 +591,27 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
                 📋 オブジェクトを複製(詳細)
               </div>
 
+              <div
+                className="context-menu-item"
+                onClick={handleDuplicateRadial}
+                style={{
+                  padding: '8px 16px',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f0f0f0';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                🔄 オブジェクトを円形に複製
+              </div>
+
               <div
                 className="context-menu-divider"
                 style={{
@@ -454,6 +622,10 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
               />
             </>
           ) : ""}
+
+          {selectedTableType !== 'scale' && renderMenuItems(lockItems, '8px 16px')}
+
+          {renderMenuItems(zOrderItems, '8px 16px')}
           
           <div
             className="context-menu-item"
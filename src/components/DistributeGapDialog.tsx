@@ -0,0 +1,154 @@
+import React, { useRef, useEffect, useState } from 'react';
+import type { DistributeAxis } from '../types';
+
+interface DistributeGapDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onDistribute: (axis: DistributeAxis, gap: number) => void;
+}
+
+const DistributeGapDialog: React.FC<DistributeGapDialogProps> = ({
+    isOpen,
+    onClose,
+    onDistribute,
+}) => {
+    // フォーカス管理用のref
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const [axis, setAxis] = useState<DistributeAxis>('horizontal');
+    const [gap, setGap] = useState<string>('500');
+
+    // モーダルが開いた時に入力欄にフォーカスを当てる
+    useEffect(() => {
+        if (isOpen && inputRef.current) {
+            inputRef.current.focus();
+            inputRef.current.select();
+        }
+    }, [isOpen]);
+
+    // 隙間は0mm（外接矩形が接する）以上
+    const parsedGap = parseFloat(gap);
+    const isValid = Number.isFinite(parsedGap) && parsedGap >= 0;
+
+    const handleDistribute = () => {
+        if (!isValid) return;
+        onDistribute(axis, parsedGap);
+        onClose();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            onClose();
+        } else if (e.key === 'Enter') {
+            handleDistribute();
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 1000
+            }}
+        >
+            <div
+                style={{
+                    backgroundColor: 'white',
+                    padding: '2rem',
+                    borderRadius: '8px',
+                    width: '400px',
+                    maxWidth: '90vw',
+                    maxHeight: '90vh',
+                    overflow: 'auto',
+                    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)'
+                }}
+                tabIndex={-1}
+                onKeyDown={handleKeyDown}
+            >
+                <h3 style={{ margin: '0 0 1.5rem 0', textAlign: 'center' }}>
+                    間隔を指定して配置
+                </h3>
+
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                        並べる方向
+                    </label>
+                    <div style={{ display: 'flex', gap: '1rem' }}>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                            <input
+                                type="radio"
+                                name="distributeAxis"
+                                checked={axis === 'horizontal'}
+                                onChange={() => setAxis('horizontal')}
+                            />
+                            左右
+                        </label>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                            <input
+                                type="radio"
+                                name="distributeAxis"
+                                checked={axis === 'vertical'}
+                                onChange={() => setAxis('vertical')}
+                            />
+                            上下
+                        </label>
+                    </div>
+                </div>
+
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                        間隔：(mm)
+                    </label>
+                    <input
+                        ref={inputRef}
+                        type="number"
+                        min={0}
+                        value={gap}
+                        onChange={(e) => setGap(e.target.value)}
+                        style={{
+                            width: '100%',
+                            padding: '0.5rem',
+                            border: '1px solid #ccc',
+                            borderRadius: '4px',
+                            fontSize: '1rem'
+                        }}
+                    />
+                </div>
+
+                <p style={{ fontSize: '0.85rem', color: '#666', marginBottom: '1.5rem' }}>
+                    左端（上端）のオブジェクトを基準に、外接矩形の隙間が指定した間隔になるように並べます。
+                    ロック中のオブジェクトは移動しません。
+                </p>
+
+                <div style={{ display: 'flex', justifyContent: 'center', gap: '1rem' }}>
+                    <button
+                        onClick={handleDistribute}
+                        className='btn-action btn-mr'
+                        disabled={!isValid}
+                    >
+                        配置
+                    </button>
+
+                    <button
+                        onClick={onClose}
+                        className='btn-cancel'
+                    >
+                        キャンセル
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DistributeGapDialog;
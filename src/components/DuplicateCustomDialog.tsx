@@ -1,28 +1,64 @@
-import React, { useRef, useEffect, useState } from 'react';
-
-// コピー方向の型定義
-type CopyDirection = 'up' | 'down' | 'left' | 'right';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import type { ArrayDuplicateSettings } from '../types';
+import { MAX_ARRAY_COUNT } from '../utils/arrayDuplicate';
 
 interface DuplicateCustomDialogProps {
     isOpen: boolean;
     onClose: () => void;
     ids?: string[]; // 複製対象の図形ID配列
-    onDuplicate?: (ids: string[], direction: CopyDirection, count: number, interval: number) => void;
+    onDuplicate?: (ids: string[], settings: ArrayDuplicateSettings) => void;
+    onPreviewChange?: (settings: ArrayDuplicateSettings | null) => void; // キャンバスに複製位置を表示
 }
 
+// 数値入力欄のスタイル
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '0.5rem',
+    fontWeight: 'bold'
+};
+
+const clampCount = (value: string): number =>
+    Math.min(MAX_ARRAY_COUNT, Math.max(1, parseInt(value) || 1));
+
 const DuplicateCustomDialog: React.FC<DuplicateCustomDialogProps> = ({
     isOpen,
     onClose,
     ids = [],
     onDuplicate,
+    onPreviewChange,
 }) => {
     // フォーカス管理用のref
     const modalRef = useRef<HTMLDivElement>(null);
 
     // 状態管理
-    const [selectedDirection, setSelectedDirection] = useState<CopyDirection>('right');
-    const [copyCount, setCopyCount] = useState<number>(1);
-    const [copyInterval, setCopyInterval] = useState<number>(10);
+    const [columns, setColumns] = useState<number>(2);
+    const [rows, setRows] = useState<number>(1);
+    const [horizontalGap, setHorizontalGap] = useState<number>(10);
+    const [verticalGap, setVerticalGap] = useState<number>(10);
+    const [stagger, setStagger] = useState<number>(0);
+    const [horizontalDirection, setHorizontalDirection] = useState<ArrayDuplicateSettings['horizontalDirection']>('right');
+    const [verticalDirection, setVerticalDirection] = useState<ArrayDuplicateSettings['verticalDirection']>('down');
+
+    const settings = useMemo<ArrayDuplicateSettings>(() => ({
+        columns,
+        rows,
+        horizontalGap,
+        verticalGap,
+        stagger,
+        horizontalDirection,
+        verticalDirection
+    }), [columns, rows, horizontalGap, verticalGap, stagger, horizontalDirection, verticalDirection]);
+
+    const copyCount = columns * rows - 1;
 
     // モーダルが開いた時にフォーカスを当てる
     useEffect(() => {
@@ -31,6 +67,12 @@ const DuplicateCustomDialog: React.FC<DuplicateCustomDialogProps> = ({
         }
     }, [isOpen]);
 
+    // 設定を変更するたびにキャンバスの表示を更新し、閉じたら消す
+    useEffect(() => {
+        if (!isOpen) return;
+        onPreviewChange?.(settings);
+        return () => onPreviewChange?.(null);
+    }, [isOpen, settings, onPreviewChange]);
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Escape') {
@@ -40,8 +82,8 @@ const DuplicateCustomDialog: React.FC<DuplicateCustomDialogProps> = ({
 
     // 複製実行ハンドラー
     const handleDuplicate = () => {
-        if (onDuplicate && ids.length > 0) {
-            onDuplicate(ids, selectedDirection, copyCount, copyInterval);
+        if (onDuplicate && ids.length > 0 && copyCount > 0) {
+            onDuplicate(ids, settings);
         }
         onClose();
     };
@@ -56,10 +98,12 @@ const DuplicateCustomDialog: React.FC<DuplicateCustomDialogProps> = ({
                 left: 0,
                 right: 0,
                 bottom: 0,
-                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                // 複製位置をキャンバスで確認できるように背景は薄くし、右側に表示する
+                backgroundColor: 'rgba(0, 0, 0, 0.1)',
                 display: 'flex',
                 alignItems: 'center',
-                justifyContent: 'center',
+                justifyContent: 'flex-end',
+                padding: '0 2rem',
                 zIndex: 1000
             }}
         >
@@ -82,187 +126,139 @@ const DuplicateCustomDialog: React.FC<DuplicateCustomDialogProps> = ({
                     選択したオブジェクトを複製 ({ids.length}個選択中)
                 </h3>
 
-                {/* 複製数の設定 */}
-                <div style={{ marginBottom: '1rem' }}>
-                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
-                        複製数：(個)
-                    </label>
-                    <input
-                        type="number"
-                        min="1"
-                        max="10"
-                        value={copyCount}
-                        onChange={(e) => setCopyCount(Math.max(1, parseInt(e.target.value) || 1))}
-                        style={{
-                            width: '100%',
-                            padding: '0.5rem',
-                            border: '1px solid #ccc',
-                            borderRadius: '4px',
-                            fontSize: '1rem'
-                        }}
-                    />
+                {/* 列数・行数の設定 */}
+                <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>列数：(個)</label>
+                        <input
+                            type="number"
+                            min="1"
+                            max={MAX_ARRAY_COUNT}
+                            value={columns}
+                            onChange={(e) => setColumns(clampCount(e.target.value))}
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>行数：(個)</label>
+                        <input
+                            type="number"
+                            min="1"
+                            max={MAX_ARRAY_COUNT}
+                            value={rows}
+                            onChange={(e) => setRows(clampCount(e.target.value))}
+                            style={inputStyle}
+                        />
+                    </div>
                 </div>
 
                 {/* 間隔の設定 */}
+                <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>横の間隔：(mm)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="10"
+                            value={horizontalGap}
+                            onChange={(e) => setHorizontalGap(Math.max(0, parseInt(e.target.value) || 0))}
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>縦の間隔：(mm)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="10"
+                            value={verticalGap}
+                            onChange={(e) => setVerticalGap(Math.max(0, parseInt(e.target.value) || 0))}
+                            style={inputStyle}
+                        />
+                    </div>
+                </div>
+
+                {/* 互い違いの設定 */}
                 <div style={{ marginBottom: '1rem' }}>
-                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
-                        間隔：(mm)
-                    </label>
+                    <label style={labelStyle}>1行おきにずらす量：(mm)</label>
                     <input
                         type="number"
-                        min="10"
                         step="10"
-                        value={copyInterval}
-                        onChange={(e) => setCopyInterval(Math.max(10, parseInt(e.target.value) || 10))}
-                        style={{
-                            width: '100%',
-                            padding: '0.5rem',
-                            border: '1px solid #ccc',
-                            borderRadius: '4px',
-                            fontSize: '1rem'
-                        }}
+                        value={stagger}
+                        onChange={(e) => setStagger(parseInt(e.target.value) || 0)}
+                        style={inputStyle}
                     />
                 </div>
 
                 {/* 方向選択UI */}
-                <div style={{ marginBottom: '1rem' }}>
-                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
-                        複製する方向：
-                    </label>
-
-                    {/* 図形と方向ボタンのレイアウト */}
-                    <div style={{
-                        display: 'grid',
-                        gridTemplateColumns: '1fr 100px 1fr',
-                        gridTemplateRows: '1fr 100px 1fr',
-                        gap: '0px',
-                        alignItems: 'center',
-                        justifyItems: 'center',
-                    }}>
-                        {/* 上 */}
-                        <div></div>
-                        <label style={{
-                            display: 'flex',
-                            flexDirection: 'column',
-                            alignItems: 'center',
-                            cursor: 'pointer',
-                            padding: '0.5rem'
-                        }}>
-                            <input
-                                type="radio"
-                                name="copyDirection"
-                                value="up"
-                                checked={selectedDirection === 'up'}
-                                onChange={(e) => setSelectedDirection(e.target.value as CopyDirection)}
-                                style={{ marginBottom: '0.25rem' }}
-                            />
-                            <span style={{ fontSize: '0.8rem' }}>上</span>
-                            <div style={{ fontSize: '1.2rem' }}>↑</div>
-                        </label>
-                        <div></div>
-
-                        {/* 左・中央・右 */}
-                        <label style={{
-                            display: 'flex',
-                            flexDirection: 'column',
-                            alignItems: 'center',
-                            cursor: 'pointer',
-                            padding: '0.5rem'
-                        }}>
-                            <input
-                                type="radio"
-                                name="copyDirection"
-                                value="left"
-                                checked={selectedDirection === 'left'}
-                                onChange={(e) => setSelectedDirection(e.target.value as CopyDirection)}
-                                style={{ marginBottom: '0.25rem' }}
-                            />
-                            <span style={{ fontSize: '0.8rem' }}>左</span>
-                            <div style={{ fontSize: '1.2rem' }}>←</div>
-                        </label>
-
-                        {/* 中央の図形 */}
-                        <div style={{
-                            width: '80px',
-                            height: '80px',
-                            backgroundColor: '#e3f2fd',
-                            border: '2px solid #2196f3',
-                            borderRadius: '8px',
-                            display: 'flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            fontSize: '0.8rem',
-                            color: '#1976d2',
-                            fontWeight: 'bold'
-                        }}>
-                            選択図形
+                <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>横の方向：</label>
+                        <div style={{ display: 'flex', gap: '1rem' }}>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                                <input
+                                    type="radio"
+                                    name="horizontalDirection"
+                                    checked={horizontalDirection === 'right'}
+                                    onChange={() => setHorizontalDirection('right')}
+                                />
+                                右 →
+                            </label>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                                <input
+                                    type="radio"
+                                    name="horizontalDirection"
+                                    checked={horizontalDirection === 'left'}
+                                    onChange={() => setHorizontalDirection('left')}
+                                />
+                                左 ←
+                            </label>
                         </div>
-
-                        <label style={{
-                            display: 'flex',
-                            flexDirection: 'column',
-                            alignItems: 'center',
-                            cursor: 'pointer',
-                            padding: '0.5rem'
-                        }}>
-                            <input
-                                type="radio"
-                                name="copyDirection"
-                                value="right"
-                                checked={selectedDirection === 'right'}
-                                onChange={(e) => setSelectedDirection(e.target.value as CopyDirection)}
-                                style={{ marginBottom: '0.25rem' }}
-                            />
-                            <span style={{ fontSize: '0.8rem' }}>右</span>
-                            <div style={{ fontSize: '1.2rem' }}>→</div>
-                        </label>
-
-                        {/* 下 */}
-                        <div></div>
-                        <label style={{
-                            display: 'flex',
-                            flexDirection: 'column',
-                            alignItems: 'center',
-                            cursor: 'pointer',
-                            padding: '0.5rem'
-                        }}>
-                            <input
-                                type="radio"
-                                name="copyDirection"
-                                value="down"
-                                checked={selectedDirection === 'down'}
-                                onChange={(e) => setSelectedDirection(e.target.value as CopyDirection)}
-                                style={{ marginBottom: '0.25rem' }}
-                            />
-                            <span style={{ fontSize: '0.8rem' }}>下</span>
-                            <div style={{ fontSize: '1.2rem' }}>↓</div>
-                        </label>
-                        <div></div>
                     </div>
-
-                    {/* 選択された方向の表示 */}
-                    <div style={{
-                        textAlign: 'center',
-                        padding: '0.75rem',
-                        backgroundColor: '#f5f5f5',
-                        borderRadius: '4px',
-                    }}>
-                        <strong>選択中：</strong> {
-                            selectedDirection === 'up' ? '上方向' :
-                                selectedDirection === 'down' ? '下方向' :
-                                    selectedDirection === 'left' ? '左方向' : '右方向'
-                        } に間隔{copyInterval}mmで{copyCount}個複製
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>縦の方向：</label>
+                        <div style={{ display: 'flex', gap: '1rem' }}>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                                <input
+                                    type="radio"
+                                    name="verticalDirection"
+                                    checked={verticalDirection === 'down'}
+                                    onChange={() => setVerticalDirection('down')}
+                                />
+                                下 ↓
+                            </label>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                                <input
+                                    type="radio"
+                                    name="verticalDirection"
+                                    checked={verticalDirection === 'up'}
+                                    onChange={() => setVerticalDirection('up')}
+                                />
+                                上 ↑
+                            </label>
+                        </div>
                     </div>
                 </div>
 
+                {/* 設定内容の表示 */}
+                <div style={{
+                    textAlign: 'center',
+                    padding: '0.75rem',
+                    backgroundColor: '#f5f5f5',
+                    borderRadius: '4px',
+                    marginBottom: '1rem'
+                }}>
+                    <strong>選択中：</strong> {columns}列 × {rows}行（元を含む）で{copyCount}個複製
+                </div>
+
                 <div style={{ display: 'flex', justifyContent: 'center', gap: '1rem' }}>
                     <button
                         onClick={handleDuplicate}
                         className='btn-action btn-mr'
-                        disabled={ids.length === 0}
+                        disabled={ids.length === 0 || copyCount === 0}
                         style={{
-                            opacity: ids.length === 0 ? 0.5 : 1,
-                            cursor: ids.length === 0 ? 'not-allowed' : 'pointer'
+                            opacity: ids.length === 0 || copyCount === 0 ? 0.5 : 1,
+                            cursor: ids.length === 0 || copyCount === 0 ? 'not-allowed' : 'pointer'
                         }}
                     >
                         複製実行
@@ -280,4 +276,4 @@ const DuplicateCustomDialog: React.FC<DuplicateCustomDialogProps> = ({
     );
 };
 
-export default DuplicateCustomDialog;
\ No newline at end of file
+export default DuplicateCustomDialog;
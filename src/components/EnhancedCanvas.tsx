@@ -1,10 +1,20 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Stage, Layer, Rect, Circle, Image, Line } from 'react-konva';
+import type Konva from 'konva';
+import { Stage, Layer, Rect, Circle, Image, Line, Text, Transformer, Label, Tag } from 'react-konva';
 import ContextMenu from './ContextMenu';
 import ZoomPanControls from './ZoomPanControls';
+import SelectionToolControls from './SelectionToolControls';
 import TextBoxRenderer from './TextBoxRenderer';
 import ScaleRenderer from './ScaleRenderer';
-import { type SVGData, type TableObject, type Position, type BoundaryArea, type CircleProps, type RectangleProps, type SVGTableProps, type DistanceType, circumscriptionSizeFull } from '../types';
+import { type SVGData, type TableObject, type Position, type BoundaryArea, type CircleProps, type RectangleProps, type SVGTableProps, type DistanceType, type ViewportState, type ZOrderOperation, type StencilData, type StampSettings, type AreaSelectionTool, type AreaSelectionMode, type DistributeAxis, type DistributeMode, type DragFeedback, type LayoutProblem, circumscriptionSizeFull } from '../types';
+import { sortByZIndex } from '../utils/zOrder';
+import { getTablesBounds, getGroupMembers, getLockedGroupIds, isTableMovable, getDragTargets, constrainDragPosition, moveDragTargets } from '../utils/groupUtils';
+import { isStencilDrag, getStencilDragData, createStencilTable } from '../utils/stencilDrag';
+import { findOverlappingTables, findOverlappingPairs } from '../utils/overlap';
+import { getFootprint } from '../utils/footprint';
+import { ROTATION_SNAP_ANGLES, ROTATION_SNAP_TOLERANCE, MIN_TRANSFORM_SIZE, getTransformedProperties } from '../utils/transformGeometry';
+import { MIN_SELECTION_DRAG_DISTANCE, rectangleToPolygon, findTablesInArea } from '../utils/areaSelection';
+import { SMART_GUIDE_THRESHOLD, computeSmartGuides, type SmartGuide } from '../utils/smartGuides';
 
 interface EnhancedCanvasProps {
   svgData: SVGData;
@@ -19,21 +29,43 @@ interface EnhancedCanvasProps {
   boundaryArea?: BoundaryArea;
   onBoundaryAreaSet?: (boundary: BoundaryArea) => void;
   isBoundarySettingMode?: boolean;
+  isCalibrationMode?: boolean;
+  onCalibrationPointsSet?: (start: Position, end: Position) => void;
+  onStencilDrop?: (stencil: StencilData, position: Position) => void;
+  stampSettings?: StampSettings | null;
+  onStamp?: (position: Position) => void;
+  onAreaSelect?: (ids: string[], mode: AreaSelectionMode) => void;
+  onTableTransform?: (id: string, position: Position, properties: TableObject['properties']) => void;
   gridSize?: number;
   snapEnabled?: boolean;
   gridVisible?: boolean;
+  smartGuidesEnabled?: boolean;
+  previewTables?: TableObject[];
+  layoutProblems?: LayoutProblem[];
   onAlignTop?: (ids: string[]) => void;
   onVerticallyCentered?: (ids: string[]) => void;
   onAlignBottom?: (ids: string[]) => void;
   onAlignLeft?: (ids: string[]) => void;
   onHorizontallyCentered?: (ids: string[]) => void;
   onAlignRight?: (ids: string[]) => void;
+  onDistribute?: (ids: string[], axis: DistributeAxis, mode: DistributeMode) => void;
+  onDistributeWithGap?: () => void;
   onMeasureDistance?: (ids: string[]) => void;
+  onZOrderChange?: (ids: string[], operation: ZOrderOperation) => void;
+  onSetLocked?: (ids: string[], locked: boolean) => void;
+  onSetLockedByType?: (id: string, locked: boolean) => void;
+  onGroup?: (ids: string[]) => void;
+  onUngroup?: (ids: string[]) => void;
   onTextBoxDoubleClick?: (id: string) => void;
   onShapeDoubleClick?: (id: string) => void;
   lastSaveTime?: Date | null;
   onTableDuplicateCustom?: (id: string) => void;
   onMultipleTableDuplicateCustom?: (ids: string[]) => void;
+  onDuplicateRadial?: (ids: string[]) => void;
+  isCenterPickMode?: boolean;
+  onCenterPick?: (position: Position) => void;
+  viewport: ViewportState;
+  onViewportChange: (viewport: ViewportState) => void;
 }
 
 
@@ -50,29 +82,49 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
   boundaryArea,
   onBoundaryAreaSet,
   isBoundarySettingMode = false,
+  isCalibrationMode = false,
+  onCalibrationPointsSet,
+  onStencilDrop,
+  stampSettings = null,
+  onStamp,
+  onAreaSelect,
+  onTableTransform,
   gridSize = 100,
   snapEnabled = false,
   gridVisible = false,
+  smartGuidesEnabled = true,
+  previewTables = [],
+  layoutProblems = [],
   onAlignTop,
   onVerticallyCentered,
   onAlignBottom,
   onAlignLeft,
   onHorizontallyCentered,
   onAlignRight,
+  onDistribute,
+  onDistributeWithGap,
   onMeasureDistance,
+  onZOrderChange,
+  onSetLocked,
+  onSetLockedByType,
+  onGroup,
+  onUngroup,
   onTextBoxDoubleClick,
   onShapeDoubleClick,
   lastSaveTime,
   onTableDuplicateCustom,
   onMultipleTableDuplicateCustom,
+  onDuplicateRadial,
+  isCenterPickMode = false,
+  onCenterPick,
+  viewport,
+  onViewportChange,
 }) => {
   // 動的なキャンバスサイズ計算
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
 
-  // ズーム・パン状態
-  const [userScale, setUserScale] = useState(1.0);
-  const [panX, setPanX] = useState(0);
-  const [panY, setPanY] = useState(0);
+  // ズーム・パン状態（プロジェクトに保存するため親コンポーネントで管理）
+  const { scale: userScale, panX, panY } = viewport;
 
   // シフト+ドラッグによるパン操作の状態
   const [isPanning, setIsPanning] = useState(false);
@@ -149,6 +201,8 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
   const centerOffsetX = (canvasWidth - scaledSvgWidth) / 2;
   const centerOffsetY = (canvasHeight - scaledSvgHeight) / 2;
 
+  const stageRef = useRef<Konva.Stage>(null);
+  const transformerRef = useRef<Konva.Transformer>(null);
   const [svgImage, setSvgImage] = useState<HTMLImageElement | null>(null);
   const imageRef = useRef<HTMLImageElement | null>(null);
 
@@ -160,6 +214,41 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
   const [startPoint, setStartPoint] = useState<{ x: number; y: number } | null>(null);
   const [currentRect, setCurrentRect] = useState<BoundaryArea | null>(null);
 
+  // 縮尺調整用の状態（1点目と現在のポインター位置）
+  const [calibrationStart, setCalibrationStart] = useState<Position | null>(null);
+  const [calibrationPointer, setCalibrationPointer] = useState<Position | null>(null);
+
+  // 範囲選択（矩形・投げ縄）の状態。pointsは会場図の座標、startScreenはドラッグ開始時のStage座標
+  const [selectionTool, setSelectionTool] = useState<AreaSelectionTool>('marquee');
+  const [areaSelection, setAreaSelection] = useState<{
+    mode: AreaSelectionMode;
+    points: Position[];
+    startScreen: Position;
+  } | null>(null);
+  // 範囲選択の直後のクリックで選択が解除されないようにする
+  const suppressStageClickRef = useRef(false);
+
+  // スタンプモードのプレビュー位置（ポインター位置に配置した場合の中心）
+  const [stampPreview, setStampPreview] = useState<Position | null>(null);
+
+  // 境界エリア設定中・縮尺調整中・スタンプモード中・円形複製の中心の指定中はオブジェクトを操作しない
+  const isCanvasToolActive = isBoundarySettingMode || isCalibrationMode || stampSettings !== null || isCenterPickMode;
+
+  // 縮尺調整モードを抜けたら途中の点をクリア
+  useEffect(() => {
+    if (!isCalibrationMode) {
+      setCalibrationStart(null);
+      setCalibrationPointer(null);
+    }
+  }, [isCalibrationMode]);
+
+  // スタンプモードを抜けたらプレビューを消す
+  useEffect(() => {
+    if (!stampSettings) {
+      setStampPreview(null);
+    }
+  }, [stampSettings]);
+
   // 右クリックメニュー用の状態
   const [contextMenu, setContextMenu] = useState<{
     x: number;
@@ -171,6 +260,12 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
   // ドラッグ中のテーブル位置を管理
   const [draggingPositions, setDraggingPositions] = useState<{ [tableId: string]: { x: number; y: number } }>({});
 
+  // ドラッグ中に表示するスマートガイド
+  const [smartGuides, setSmartGuides] = useState<SmartGuide[]>([]);
+
+  // ドラッグ中に表示する重なり・境界の案内
+  const [dragFeedback, setDragFeedback] = useState<DragFeedback | null>(null);
+
   // SVGをImageオブジェクトに変換
   useEffect(() => {
     const img = new window.Image();
@@ -250,15 +345,191 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
     return boundaryStart + snappedRelative;
   };
 
+  // 境界制約の計算関数（circumscriptionSizeFullを活用）
+  const constrainToBoundary = (table: TableObject, centerX: number, centerY: number): Position => {
+    const bounds = boundaryArea || {
+      x: 0,
+      y: 0,
+      width: svgData.width,
+      height: svgData.height
+    };
+
+    // circumscriptionSizeFullから外接矩形の情報を取得
+    const circumscriptionInfo = circumscriptionSizeFull({
+      ...table,
+      position: { x: centerX, y: centerY }
+    });
+
+    // 外接矩形の左上角座標を計算
+    const leftTopX = centerX - circumscriptionInfo.width / 2;
+    const leftTopY = centerY - circumscriptionInfo.height / 2;
+
+    // 境界制約を適用
+    const constrainedLeftTopX = Math.max(bounds.x, Math.min(bounds.x + bounds.width - circumscriptionInfo.width, leftTopX));
+    const constrainedLeftTopY = Math.max(bounds.y, Math.min(bounds.y + bounds.height - circumscriptionInfo.height, leftTopY));
+
+    // 制約された左上角から中心位置を計算して返す
+    return {
+      x: constrainedLeftTopX + circumscriptionInfo.width / 2,
+      y: constrainedLeftTopY + circumscriptionInfo.height / 2
+    };
+  };
+
+  // ロック中のメンバーを含むグループ（メンバーはどれもドラッグできない）
+  const lockedGroupIds = getLockedGroupIds(tables);
+
+  // 他のオブジェクトの端・中心や等間隔の位置へのスナップ（スナップしない軸はグリッドにスナップ）
+  const snapDragPosition = (leadTable: TableObject, movingTables: TableObject[], centerX: number, centerY: number): { position: Position; guides: SmartGuide[] } => {
+    const gridSnapped = {
+      x: snapEnabled ? snapToGrid(centerX, true) : centerX,
+      y: snapEnabled ? snapToGrid(centerY, false) : centerY
+    };
+    const measuredTables = movingTables.filter(table => table.type !== 'scale');
+    if (!smartGuidesEnabled || measuredTables.length === 0) return { position: gridSnapped, guides: [] };
+
+    const deltaX = centerX - leadTable.position.x;
+    const deltaY = centerY - leadTable.position.y;
+    const movingIds = movingTables.map(table => table.id);
+    const moving = getTablesBounds(measuredTables.map(table => ({
+      ...table,
+      position: { x: table.position.x + deltaX, y: table.position.y + deltaY }
+    })));
+    const result = computeSmartGuides(
+      moving,
+      tables.filter(table => !movingIds.includes(table.id)),
+      SMART_GUIDE_THRESHOLD / finalScale
+    );
+
+    return {
+      position: {
+        x: result.offsetX !== null ? centerX + result.offsetX : gridSnapped.x,
+        y: result.offsetY !== null ? centerY + result.offsetY : gridSnapped.y
+      },
+      guides: result.guides
+    };
+  };
+
+  // ドラッグ中のオブジェクトが他のオブジェクトと重なる場合や、境界で止められた場合の案内
+  const getDragFeedback = (movedTables: TableObject[], isConstrained: boolean): DragFeedback | null => {
+    const measuredTables = movedTables.filter(table => table.type !== 'scale');
+    if (measuredTables.length === 0) return null;
+
+    const movingIds = movedTables.map(table => table.id);
+    const isOverlapping = findOverlappingPairs([...measuredTables, ...tables.filter(table => !movingIds.includes(table.id))])
+      .some(([a, b]) => movingIds.includes(a) !== movingIds.includes(b));
+    if (!isOverlapping && !isConstrained) return null;
+
+    const bounds = getTablesBounds(measuredTables);
+    return {
+      type: isOverlapping ? 'invalid' : 'boundary',
+      message: isOverlapping ? '他のオブジェクトと重なっています' : '境界エリアの端です',
+      position: { x: (bounds.minX + bounds.maxX) / 2, y: bounds.minY },
+      visible: true
+    };
+  };
+
+  // ドラッグ中の位置を反映したオブジェクト（グループの枠や縮尺を追従させるため）
+  const displayTables = tables.map(table => {
+    const draggingPos = draggingPositions[table.id];
+    return draggingPos
+      ? {
+        ...table,
+        position: {
+          x: (draggingPos.x - centerOffsetX - panX) / finalScale,
+          y: (draggingPos.y - centerOffsetY - panY) / finalScale
+        }
+      }
+      : table;
+  });
+
+  // 大きさ・回転を変更できるのは、ロックされていないオブジェクトを1つだけ選択している場合
+  const transformTarget = !isCanvasToolActive && selectedTableIds.length === 1
+    ? tables.find(table => table.id === selectedTableIds[0] && !table.locked && table.type !== 'scale') ?? null
+    : null;
+
+  // 選択中のオブジェクトのノードにハンドルを付ける（SVGは画像の読み込み後にノードが作られる）
+  useEffect(() => {
+    const transformer = transformerRef.current;
+    if (!transformer) return;
+
+    const node = transformTarget ? stageRef.current?.findOne(`#${transformTarget.id}`) : undefined;
+    transformer.nodes(node ? [node] : []);
+    transformer.getLayer()?.batchDraw();
+  }, [transformTarget, svgTableImages]);
+
+  // 小さくなりすぎる変形は受け付けない
+  const limitTransformSize = <T extends { width: number; height: number }>(oldBox: T, newBox: T): T => {
+    const minSize = MIN_TRANSFORM_SIZE * finalScale;
+    return Math.abs(newBox.width) < minSize || Math.abs(newBox.height) < minSize ? oldBox : newBox;
+  };
+
+  // ハンドル操作の終了時に、拡大率・回転角度をmm単位のプロパティに書き戻す
+  const handleTransformEnd = (e: Konva.KonvaEventObject<Event>) => {
+    if (!transformTarget) return;
+
+    const node = e.target;
+    const properties = getTransformedProperties(transformTarget, node.scaleX(), node.scaleY(), node.rotation());
+
+    // 拡大率はプロパティの大きさに反映するため元に戻す
+    node.scaleX(1);
+    node.scaleY(1);
+    if (!properties) {
+      // 変形できない場合は、回転・位置も保存されている状態に戻す
+      const storedProps = transformTarget.properties;
+      node.rotation('rotationAngle' in storedProps ? storedProps.rotationAngle : 0);
+      node.x((transformTarget.position.x * finalScale) + centerOffsetX + panX);
+      node.y((transformTarget.position.y * finalScale) + centerOffsetY + panY);
+      node.getLayer()?.batchDraw();
+      return;
+    }
+
+    const centerX = (node.x() - centerOffsetX - panX) / finalScale;
+    const centerY = (node.y() - centerOffsetY - panY) / finalScale;
+    const position = constrainToBoundary({ ...transformTarget, properties }, centerX, centerY);
+    onTableTransform?.(transformTarget.id, position, properties);
+  };
+
+  // ツールバーからのステンシルのドラッグを受け付ける
+  const handleStencilDragOver = (e: React.DragEvent) => {
+    if (isCanvasToolActive || !isStencilDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  // ポインター位置（Stage座標）にステンシルを置く場合の中心座標（スナップ・境界制約を適用）
+  const getPlacementPosition = (stencil: StencilData, pos: Position): Position => {
+    const centerX = (pos.x - centerOffsetX - panX) / finalScale;
+    const centerY = (pos.y - centerOffsetY - panY) / finalScale;
+    const snappedCenterX = snapEnabled ? snapToGrid(centerX, true) : centerX;
+    const snappedCenterY = snapEnabled ? snapToGrid(centerY, false) : centerY;
+
+    const placedTable = createStencilTable(stencil, { x: snappedCenterX, y: snappedCenterY });
+    return constrainToBoundary(placedTable, snappedCenterX, snappedCenterY);
+  };
+
+  // ドロップ位置（ポインター位置）に配置
+  const handleStencilDrop = (e: React.DragEvent) => {
+    if (isCanvasToolActive || !isStencilDrag(e.dataTransfer)) return;
+    e.preventDefault();
+
+    const stencil = getStencilDragData(e.dataTransfer);
+    const stage = stageRef.current;
+    if (!stencil || !stage) return;
+
+    stage.setPointersPositions(e.nativeEvent);
+    const pos = stage.getPointerPosition();
+    if (!pos) return;
+
+    onStencilDrop?.(stencil, getPlacementPosition(stencil, pos));
+  };
+
   // ズーム・パンコントロールハンドラー
   const handleScaleChange = (newScale: number) => {
-    setUserScale(newScale);
+    onViewportChange({ ...viewport, scale: newScale });
   };
 
   const handleResetView = () => {
-    setUserScale(1.0);
-    setPanX(0);
-    setPanY(0);
+    onViewportChange({ scale: 1.0, panX: 0, panY: 0 });
   };
 
   // Stageクリックハンドラー（テーブル選択解除）
@@ -266,6 +537,11 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
     // クリックされたターゲットを取得
     const clickedOnEmpty = e.target === e.target.getStage();
 
+    if (suppressStageClickRef.current) {
+      suppressStageClickRef.current = false;
+      return;
+    }
+
     if (clickedOnEmpty) {
       // 空の場所がクリックされた場合、選択を解除
       onTableSelect?.(null, false);
@@ -285,8 +561,58 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
       return;
     }
 
-    // 境界エリア設定モード
-    if (!isBoundarySettingMode) return;
+    // スタンプモード（左クリックごとに配置）
+    if (stampSettings) {
+      if (e.evt.button === 0) {
+        onStamp?.(getPlacementPosition(stampSettings.stencil, pos));
+      }
+      return;
+    }
+
+    // 円形複製の中心の指定（オブジェクト上ならその中心、それ以外はクリックした位置）
+    if (isCenterPickMode) {
+      if (e.evt.button === 0) {
+        const pickedTable = e.target !== e.target.getStage()
+          ? tables.find(table => table.id === e.target.id())
+          : undefined;
+        onCenterPick?.(pickedTable ? pickedTable.position : {
+          x: (pos.x - centerOffsetX - panX) / finalScale,
+          y: (pos.y - centerOffsetY - panY) / finalScale
+        });
+      }
+      return;
+    }
+
+    // 縮尺調整モード（2点目のクリックで確定）
+    if (isCalibrationMode) {
+      const point = {
+        x: (pos.x - centerOffsetX - panX) / finalScale,
+        y: (pos.y - centerOffsetY - panY) / finalScale
+      };
+      if (!calibrationStart) {
+        setCalibrationStart(point);
+        setCalibrationPointer(point);
+      } else {
+        onCalibrationPointsSet?.(calibrationStart, point);
+        setCalibrationStart(null);
+        setCalibrationPointer(null);
+      }
+      return;
+    }
+
+    // 境界エリア設定モード以外では、空いている場所からのドラッグで範囲選択
+    if (!isBoundarySettingMode) {
+      suppressStageClickRef.current = false;
+      if (e.target === e.target.getStage() && e.evt.button === 0) {
+        const mode: AreaSelectionMode = e.evt.altKey ? 'subtract' : (e.evt.ctrlKey || e.evt.metaKey) ? 'add' : 'replace';
+        const point = {
+          x: (pos.x - centerOffsetX - panX) / finalScale,
+          y: (pos.y - centerOffsetY - panY) / finalScale
+        };
+        setAreaSelection({ mode, points: [point], startScreen: pos });
+      }
+      return;
+    }
 
     // 中央配置オフセットを考慮した座標変換
     const x = (pos.x - centerOffsetX - panX) / finalScale;
@@ -304,18 +630,56 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
     if (isPanning) {
       const deltaX = pos.x - panStartPos.x;
       const deltaY = pos.y - panStartPos.y;
-      setPanX(panStartOffset.x + deltaX);
-      setPanY(panStartOffset.y + deltaY);
+      onViewportChange({
+        ...viewport,
+        panX: panStartOffset.x + deltaX,
+        panY: panStartOffset.y + deltaY
+      });
       return;
     }
 
-    // カーソル変更（シフトキー押下時）
+    // カーソル変更（シフトキー押下時・スタンプモード中）
     if (e.evt.shiftKey) {
       e.target.getStage().container().style.cursor = 'grab';
+    } else if (stampSettings || isCenterPickMode) {
+      e.target.getStage().container().style.cursor = 'crosshair';
     } else {
       e.target.getStage().container().style.cursor = 'default';
     }
 
+    // スタンプの配置位置を表示
+    if (stampSettings) {
+      setStampPreview(getPlacementPosition(stampSettings.stencil, pos));
+      return;
+    }
+
+    // 縮尺調整の2点目までの線を表示
+    if (isCalibrationMode && calibrationStart) {
+      setCalibrationPointer({
+        x: (pos.x - centerOffsetX - panX) / finalScale,
+        y: (pos.y - centerOffsetY - panY) / finalScale
+      });
+      return;
+    }
+
+    // 範囲選択の更新（投げ縄は軌跡を記録）
+    if (areaSelection) {
+      const point = {
+        x: (pos.x - centerOffsetX - panX) / finalScale,
+        y: (pos.y - centerOffsetY - panY) / finalScale
+      };
+      const { points } = areaSelection;
+      if (selectionTool === 'marquee') {
+        setAreaSelection({ ...areaSelection, points: [points[0], point] });
+      } else {
+        const last = points[points.length - 1];
+        if (Math.hypot(point.x - last.x, point.y - last.y) * finalScale >= 2) {
+          setAreaSelection({ ...areaSelection, points: [...points, point] });
+        }
+      }
+      return;
+    }
+
     // 境界エリア設定処理
     if (!isBoundarySettingMode || !isDrawing || !startPoint) return;
 
@@ -342,6 +706,12 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
       return;
     }
 
+    // 範囲選択の確定
+    if (areaSelection) {
+      finishAreaSelection(e.target.getStage().getPointerPosition());
+      return;
+    }
+
     // 境界エリア設定処理
     if (!isBoundarySettingMode || !isDrawing || !currentRect) return;
 
@@ -355,6 +725,146 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
     setCurrentRect(null);
   };
 
+  // キャンバス外に出たらスタンプのプレビューを消し、範囲選択はその位置で確定
+  const handleStageMouseLeave = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    setStampPreview(null);
+    if (areaSelection) {
+      finishAreaSelection(e.target.getStage()?.getPointerPosition() ?? null);
+    }
+  };
+
+  // 範囲内のオブジェクトを選択（短いドラッグはクリックとして扱う）
+  const finishAreaSelection = (pointerPos: Position | null) => {
+    const selection = areaSelection;
+    setAreaSelection(null);
+    if (!selection || !pointerPos) return;
+
+    const dragDistance = Math.hypot(pointerPos.x - selection.startScreen.x, pointerPos.y - selection.startScreen.y);
+    if (dragDistance < MIN_SELECTION_DRAG_DISTANCE) return;
+
+    const { points } = selection;
+    const polygon = selectionTool === 'marquee'
+      ? rectangleToPolygon(points[0], points[points.length - 1])
+      : points;
+
+    onAreaSelect?.(findTablesInArea(tables, polygon, points[0]), selection.mode);
+    suppressStageClickRef.current = true;
+  };
+
+  // 範囲選択中の枠（追加は緑、除外は赤）
+  const renderAreaSelection = () => {
+    if (!areaSelection || areaSelection.points.length < 2) return null;
+
+    const color = areaSelection.mode === 'add' ? '#27ae60' : areaSelection.mode === 'subtract' ? '#e74c3c' : '#3498db';
+    const toScreen = (point: Position) => [
+      (point.x * finalScale) + centerOffsetX + panX,
+      (point.y * finalScale) + centerOffsetY + panY
+    ];
+    const polygon = selectionTool === 'marquee'
+      ? rectangleToPolygon(areaSelection.points[0], areaSelection.points[areaSelection.points.length - 1])
+      : areaSelection.points;
+
+    return (
+      <Line
+        points={polygon.flatMap(toScreen)}
+        closed
+        fill="rgba(52, 152, 219, 0.08)"
+        stroke={color}
+        strokeWidth={1}
+        dash={[4, 4]}
+        listening={false}
+      />
+    );
+  };
+
+  const renderSmartGuides = () => {
+    if (smartGuides.length === 0) return null;
+
+    return smartGuides.map((guide, index) => (
+      <Line
+        key={`smart-guide-${index}`}
+        points={[
+          (guide.x1 * finalScale) + centerOffsetX + panX,
+          (guide.y1 * finalScale) + centerOffsetY + panY,
+          (guide.x2 * finalScale) + centerOffsetX + panX,
+          (guide.y2 * finalScale) + centerOffsetY + panY
+        ]}
+        stroke="#e91e63"
+        strokeWidth={1}
+        dash={guide.type === 'spacing' ? [2, 2] : undefined}
+        listening={false}
+      />
+    ));
+  };
+
+  // ドラッグ中の案内（オブジェクトの上に吹き出しで表示）
+  const renderDragFeedback = () => {
+    if (!dragFeedback?.visible) return null;
+
+    return (
+      <Label
+        x={(dragFeedback.position.x * finalScale) + centerOffsetX + panX}
+        y={(dragFeedback.position.y * finalScale) + centerOffsetY + panY - 4}
+        listening={false}
+      >
+        <Tag
+          fill={dragFeedback.type === 'invalid' ? '#e74c3c' : '#ff9800'}
+          cornerRadius={3}
+          pointerDirection="down"
+          pointerWidth={8}
+          pointerHeight={6}
+        />
+        <Text
+          text={dragFeedback.message}
+          fontSize={12}
+          padding={4}
+          fill="white"
+        />
+      </Label>
+    );
+  };
+
+  // 重なっているオブジェクト（赤）と境界エリアからはみ出したオブジェクト（オレンジの破線）を実際の形で強調
+  const renderLayoutProblems = () => {
+    const overlapIds = new Set(layoutProblems.filter(problem => problem.type === 'overlap').flatMap(problem => problem.ids));
+    const boundaryIds = new Set(layoutProblems.filter(problem => problem.type === 'boundary').flatMap(problem => problem.ids));
+
+    return displayTables.map(table => {
+      const isOverlapping = overlapIds.has(table.id);
+      if (!isOverlapping && !boundaryIds.has(table.id)) return null;
+
+      const footprint = getFootprint(table);
+      if (!footprint) return null;
+
+      const style = {
+        fill: isOverlapping ? 'rgba(231, 76, 60, 0.25)' : undefined,
+        stroke: isOverlapping ? '#e74c3c' : '#ff9800',
+        strokeWidth: 2,
+        dash: isOverlapping ? undefined : [6, 4],
+        listening: false
+      };
+      return footprint.kind === 'circle' ? (
+        <Circle
+          key={`problem-${table.id}`}
+          x={(footprint.center.x * finalScale) + centerOffsetX + panX}
+          y={(footprint.center.y * finalScale) + centerOffsetY + panY}
+          radius={footprint.radius * finalScale}
+          {...style}
+        />
+      ) : (
+        <Line
+          key={`problem-${table.id}`}
+          points={footprint.points.flatMap(point => [
+            (point.x * finalScale) + centerOffsetX + panX,
+            (point.y * finalScale) + centerOffsetY + panY
+          ])}
+          closed
+          {...style}
+        />
+      );
+    });
+  };
+
   // 右クリックメニューハンドラー
   const handleTableRightClick = (e: any, tableId: string) => {
     e.evt.preventDefault();
@@ -446,10 +956,150 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
     onAlignRight?.(selectedTableIds);
   }
 
+  const handleDistribute = (axis: DistributeAxis, mode: DistributeMode) => {
+    onDistribute?.(selectedTableIds, axis, mode);
+  }
+
   const handleMeasureDistance = () => {
     onMeasureDistance?.(selectedTableIds);
   }
 
+  const handleZOrderChange = (operation: ZOrderOperation) => {
+    onZOrderChange?.(selectedTableIds, operation);
+  }
+
+  const handleSetLocked = (locked: boolean) => {
+    onSetLocked?.(selectedTableIds, locked);
+  }
+
+  const handleSetLockedByType = (tableId: string, locked: boolean) => {
+    onSetLockedByType?.(tableId, locked);
+  }
+
+  const handleGroup = () => {
+    onGroup?.(selectedTableIds);
+  }
+
+  const handleUngroup = () => {
+    onUngroup?.(selectedTableIds);
+  }
+
+  // 選択中のグループの外接矩形を破線で表示
+  const renderGroupOutlines = () => {
+    const groupIds = Array.from(new Set(
+      tables
+        .filter(table => table.groupId && selectedTableIds.includes(table.id))
+        .map(table => table.groupId!)
+    ));
+
+    return groupIds.map(groupId => {
+      const bounds = getTablesBounds(getGroupMembers(displayTables, groupId));
+      return (
+        <Rect
+          key={groupId}
+          x={(bounds.minX * finalScale) + centerOffsetX + panX}
+          y={(bounds.minY * finalScale) + centerOffsetY + panY}
+          width={bounds.width * finalScale}
+          height={bounds.height * finalScale}
+          stroke="#8e44ad"
+          strokeWidth={1}
+          dash={[6, 4]}
+          listening={false}
+        />
+      );
+    });
+  };
+
+  // スタンプの配置位置のプレビュー（重なりで配置できない場合は赤）
+  // App.tsxのhandleStampと同じく回転を反映した実際の形で判定し、その形を表示する
+  const renderStampPreview = () => {
+    if (!stampSettings || !stampPreview) return null;
+
+    const previewTable = createStencilTable(stampSettings.stencil, stampPreview);
+    const isRefused = stampSettings.refuseOverlap && findOverlappingTables(previewTable, tables).length > 0;
+    const style = {
+      fill: isRefused ? 'rgba(231, 76, 60, 0.2)' : 'rgba(52, 152, 219, 0.2)',
+      stroke: isRefused ? '#e74c3c' : '#3498db',
+      strokeWidth: 1,
+      dash: [4, 4],
+      listening: false
+    };
+
+    const footprint = getFootprint(previewTable);
+    if (!footprint) {
+      const circumscription = circumscriptionSizeFull(previewTable);
+      return (
+        <Rect
+          x={(stampPreview.x * finalScale) + centerOffsetX + panX}
+          y={(stampPreview.y * finalScale) + centerOffsetY + panY}
+          width={circumscription.width * finalScale}
+          height={circumscription.height * finalScale}
+          offsetX={(circumscription.width * finalScale) / 2}
+          offsetY={(circumscription.height * finalScale) / 2}
+          {...style}
+        />
+      );
+    }
+
+    return footprint.kind === 'circle' ? (
+      <Circle
+        x={(footprint.center.x * finalScale) + centerOffsetX + panX}
+        y={(footprint.center.y * finalScale) + centerOffsetY + panY}
+        radius={footprint.radius * finalScale}
+        {...style}
+      />
+    ) : (
+      <Line
+        points={footprint.points.flatMap(point => [
+          (point.x * finalScale) + centerOffsetX + panX,
+          (point.y * finalScale) + centerOffsetY + panY
+        ])}
+        closed
+        {...style}
+      />
+    );
+  };
+
+  // 複製前に確認するための配置位置（外接矩形）
+  const renderPreviewTables = () => previewTables.map((previewTable, index) => {
+    const circumscription = circumscriptionSizeFull(previewTable);
+
+    return (
+      <Rect
+        key={`preview-${index}`}
+        x={(previewTable.position.x * finalScale) + centerOffsetX + panX}
+        y={(previewTable.position.y * finalScale) + centerOffsetY + panY}
+        width={circumscription.width * finalScale}
+        height={circumscription.height * finalScale}
+        offsetX={(circumscription.width * finalScale) / 2}
+        offsetY={(circumscription.height * finalScale) / 2}
+        fill="rgba(52, 152, 219, 0.2)"
+        stroke="#3498db"
+        strokeWidth={1}
+        dash={[4, 4]}
+        listening={false}
+      />
+    );
+  });
+
+  // ロック中を示すアイコン（外接矩形の右上に表示）
+  const renderLockIndicator = (table: TableObject, displayX: number, displayY: number) => {
+    if (!table.locked) return null;
+
+    const circumscription = circumscriptionSizeFull(table);
+    const iconSize = 14;
+
+    return (
+      <Text
+        x={displayX + (circumscription.width * finalScale) / 2 - iconSize}
+        y={displayY - (circumscription.height * finalScale) / 2}
+        text="🔒"
+        fontSize={iconSize}
+        listening={false}
+      />
+    );
+  };
+
   const handleTableDuplicateCustom = (tableId: string) => {
     onTableDuplicateCustom?.(tableId);
   };
@@ -527,7 +1177,10 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
               })}
             </span>
           )}
-
+          <SelectionToolControls
+            tool={selectionTool}
+            onToolChange={setSelectionTool}
+          />
         </div>
         <ZoomPanControls
           scale={userScale}
@@ -537,13 +1190,19 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
         {!svgImage && <p>(読み込み中...)</p>}
       </div>
 
-      <div className="canvas-content">
+      <div
+        className="canvas-content"
+        onDragOver={handleStencilDragOver}
+        onDrop={handleStencilDrop}
+      >
         <Stage
+          ref={stageRef}
           width={canvasWidth}
           height={canvasHeight}
           onMouseDown={handleStageMouseDown}
           onMouseMove={handleStageMouseMove}
           onMouseUp={handleStageMouseUp}
+          onMouseLeave={handleStageMouseLeave}
           onClick={handleStageClick}
         >
           <Layer>
@@ -596,11 +1255,12 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
 
 
 
-            {/* テーブルの描画 */}
-            {tables.map((table) => {
+            {/* テーブルの描画（描画順の小さいものから） */}
+            {sortByZIndex(tables).map((table) => {
               const isSelected = selectedTableIds.includes(table.id);
               // 最初に選択したものと2番目以降に選択したものの色を変えるため
               const isFirstSelected = selectedTableIds.indexOf(table.id) == 0 ? true : false;
+              const isDraggable = !isCanvasToolActive && isTableMovable(table, lockedGroupIds);
 
               const x = table.position.x;
               const y = table.position.y;
@@ -610,84 +1270,63 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
               const displayX = draggingPos ? draggingPos.x : (x * finalScale) + centerOffsetX + panX;
               const displayY = draggingPos ? draggingPos.y : (y * finalScale) + centerOffsetY + panY;
 
-              // 境界制約の計算関数（circumscriptionSizeFullを活用）
-              const constrainPosition = (centerX: number, centerY: number) => {
-                const bounds = boundaryArea || {
+              // ドラッグ中のノード位置から、選択全体の移動後のリーダーの中心座標を求める
+              const getDraggedPosition = (e: Konva.KonvaEventObject<DragEvent>) => {
+                // 中心座標を取得（offsetを使用しているため、e.target.x()とe.target.y()は既に中心座標）
+                const centerX = (e.target.x() - centerOffsetX - panX) / finalScale;
+                const centerY = (e.target.y() - centerOffsetY - panY) / finalScale;
+
+                // 一緒に動くオブジェクト（App.tsxのhandleMultipleTableMoveと同じ対象）
+                const dragTargets = getDragTargets(tables, selectedTableIds, table);
+
+                // 中心座標をスナップ（他のオブジェクトに揃える位置を優先し、それ以外はグリッド）
+                const snapped = snapDragPosition(table, dragTargets, centerX, centerY);
+
+                // 境界制約を適用（一緒に動くオブジェクト全体の外接矩形ベース）
+                const position = constrainDragPosition(table, dragTargets, snapped.position, boundaryArea || {
                   x: 0,
                   y: 0,
                   width: svgData.width,
                   height: svgData.height
-                };
-
-                // circumscriptionSizeFullから外接矩形の情報を取得
-                const circumscriptionInfo = circumscriptionSizeFull({
-                  ...table,
-                  position: { x: centerX, y: centerY }
                 });
 
-                // 外接矩形の左上角座標を計算
-                const leftTopX = centerX - circumscriptionInfo.width / 2;
-                const leftTopY = centerY - circumscriptionInfo.height / 2;
-
-                // 境界制約を適用
-                const constrainedLeftTopX = Math.max(bounds.x, Math.min(bounds.x + bounds.width - circumscriptionInfo.width, leftTopX));
-                const constrainedLeftTopY = Math.max(bounds.y, Math.min(bounds.y + bounds.height - circumscriptionInfo.height, leftTopY));
-
-                // 制約された左上角から中心位置を計算して返す
-                return {
-                  x: constrainedLeftTopX + circumscriptionInfo.width / 2,
-                  y: constrainedLeftTopY + circumscriptionInfo.height / 2
-                };
+                // 境界で止められた場合はガイドの位置と合わないため表示しない
+                const isConstrained = position.x !== snapped.position.x || position.y !== snapped.position.y;
+                const guides = isConstrained ? [] : snapped.guides;
+                return { position, guides, isConstrained };
               };
 
-              const handleDragMove = (e: any) => {
-                // 単一選択時または複数選択時でも通常のドラッグ処理
-                // ドラッグ中は1つのテーブルのみ移動
-
-                // 中心座標を取得（offsetを使用しているため、e.target.x()とe.target.y()は既に中心座標）
-                const centerX = (e.target.x() - centerOffsetX - panX) / finalScale;
-                const centerY = (e.target.y() - centerOffsetY - panY) / finalScale;
-
-                // 中心座標をスナップ
-                let snappedCenterX = snapEnabled ? snapToGrid(centerX, true) : centerX;
-                let snappedCenterY = snapEnabled ? snapToGrid(centerY, false) : centerY;
-
-                // 境界制約を適用（中心座標ベース）
-                const constrained = constrainPosition(snappedCenterX, snappedCenterY);
+              const handleDragMove = (e: Konva.KonvaEventObject<DragEvent>) => {
+                const { position: constrained, guides, isConstrained } = getDraggedPosition(e);
+                setSmartGuides(guides);
 
                 // 制約された中心座標を表示位置に設定
                 e.target.x(constrained.x * finalScale + centerOffsetX + panX);
                 e.target.y(constrained.y * finalScale + centerOffsetY + panY);
 
-                // ドラッグ中の位置を更新（選択枠の追従のため）
-                setDraggingPositions(prev => ({
-                  ...prev,
-                  [table.id]: { x: e.target.x(), y: e.target.y() }
-                }));
+                // 一緒に動くオブジェクトも同じだけ移動して表示（選択枠の追従のため）
+                const movedTables = moveDragTargets(getDragTargets(tables, selectedTableIds, table), table, constrained);
+                setDraggingPositions(Object.fromEntries(movedTables.map(target => [
+                  target.id,
+                  {
+                    x: target.position.x * finalScale + centerOffsetX + panX,
+                    y: target.position.y * finalScale + centerOffsetY + panY
+                  }
+                ])));
+                setDragFeedback(getDragFeedback(movedTables, isConstrained));
               };
 
-              const handleDragEnd = (e: any) => {
-                // 中心座標を取得（offsetを使用しているため、e.target.x()とe.target.y()は既に中心座標）
-                const centerX = (e.target.x() - centerOffsetX - panX) / finalScale;
-                const centerY = (e.target.y() - centerOffsetY - panY) / finalScale;
-
-                // 中心座標をスナップ
-                let snappedCenterX = snapEnabled ? snapToGrid(centerX, true) : centerX;
-                let snappedCenterY = snapEnabled ? snapToGrid(centerY, false) : centerY;
-
-                // 境界制約を適用（中心座標ベース）
-                const constrained = constrainPosition(snappedCenterX, snappedCenterY);
+              const handleDragEnd = (e: Konva.KonvaEventObject<DragEvent>) => {
+                const { position: constrained } = getDraggedPosition(e);
 
                 // App.tsxのhandleMultipleTableMoveに処理を委譲
                 // 複数選択の場合の相対移動処理はApp.tsx側で実行される
                 onTableMove?.(table.id, constrained);
 
-                // ドラッグ終了時にドラッグ中の位置をクリア
-                setDraggingPositions(prev => {
-                  const newPositions = { ...prev };
-                  delete newPositions[table.id];
-                  return newPositions;
-                });
+                // ドラッグ終了時にドラッグ中の位置とガイド・案内をクリア
+                setDraggingPositions({});
+                setSmartGuides([]);
+                setDragFeedback(null);
               };
 
               if (table.type === 'rectangle') {
@@ -697,6 +1336,7 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
                 return (
                   <React.Fragment key={table.id}>
                     <Rect
+                      id={table.id}
                       x={displayX}
                       y={displayY}
                       width={props.width * finalScale}
@@ -708,9 +1348,9 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
                       stroke={props.strokeColor}
                       strokeWidth={1}
                       opacity={1}
-                      draggable={!isBoundarySettingMode}
-                      onClick={(e) => !isBoundarySettingMode && e.evt.button === 0 && onTableSelect?.(table.id, e.evt.ctrlKey)}
-                      onTap={(e) => !isBoundarySettingMode && onTableSelect?.(table.id, false)}
+                      draggable={isDraggable}
+                      onClick={(e) => !isCanvasToolActive && e.evt.button === 0 && onTableSelect?.(table.id, e.evt.ctrlKey)}
+                      onTap={(e) => !isCanvasToolActive && onTableSelect?.(table.id, false)}
                       onContextMenu={(e) => handleTableRightClick(e, table.id)}
                       onDragMove={handleDragMove}
                       onDragEnd={handleDragEnd}
@@ -735,6 +1375,7 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
                         listening={false}
                       />
                     )}
+                    {renderLockIndicator(table, displayX, displayY)}
                   </React.Fragment>
                 );
               } else if (table.type === 'circle') {
@@ -744,6 +1385,7 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
                 return (
                   <React.Fragment key={table.id}>
                     <Circle
+                      id={table.id}
                       x={displayX}
                       y={displayY}
                       radius={props.radius * finalScale}
@@ -751,9 +1393,9 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
                       stroke={props.strokeColor}
                       strokeWidth={1}
                       opacity={1}
-                      draggable={!isBoundarySettingMode}
-                      onClick={(e) => !isBoundarySettingMode && e.evt.button === 0 && onTableSelect?.(table.id, e.evt.ctrlKey)}
-                      onTap={(e) => !isBoundarySettingMode && onTableSelect?.(table.id, false)}
+                      draggable={isDraggable}
+                      onClick={(e) => !isCanvasToolActive && e.evt.button === 0 && onTableSelect?.(table.id, e.evt.ctrlKey)}
+                      onTap={(e) => !isCanvasToolActive && onTableSelect?.(table.id, false)}
                       onContextMenu={(e) => handleTableRightClick(e, table.id)}
                       onDragMove={handleDragMove}
                       onDragEnd={handleDragEnd}
@@ -778,6 +1420,7 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
                         listening={false}
                       />
                     )}
+                    {renderLockIndicator(table, displayX, displayY)}
                   </React.Fragment>
                 );
               } else if (table.type === 'svg') {
@@ -809,6 +1452,7 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
                 return (
                   <React.Fragment key={table.id}>
                     <Image
+                      id={table.id}
                       image={svgImage}
                       x={displayX}
                       y={displayY}
@@ -818,9 +1462,9 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
                       offsetY={(props.height * finalScale) / 2}
                       rotation={props.rotationAngle}
                       opacity={1}
-                      draggable={!isBoundarySettingMode}
-                      onClick={(e) => !isBoundarySettingMode && e.evt.button === 0 && onTableSelect?.(table.id, e.evt.ctrlKey)}
-                      onTap={(e) => !isBoundarySettingMode && onTableSelect?.(table.id, false)}
+                      draggable={isDraggable}
+                      onClick={(e) => !isCanvasToolActive && e.evt.button === 0 && onTableSelect?.(table.id, e.evt.ctrlKey)}
+                      onTap={(e) => !isCanvasToolActive && onTableSelect?.(table.id, false)}
                       onContextMenu={(e) => handleTableRightClick(e, table.id)}
                       onDragMove={handleDragMove}
                       onDragEnd={handleDragEnd}
@@ -845,27 +1489,30 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
                         listening={false}
                       />
                     )}
+                    {renderLockIndicator(table, displayX, displayY)}
                   </React.Fragment>
                 );
               } else if (table.type === 'textbox') {
                 return (
-                  <TextBoxRenderer
-                    key={table.id}
-                    id={table.id}
-                    x={displayX}
-                    y={displayY}
-                    tableObj={table}
-                    scale={finalScale}
-                    isSelected={isSelected}
-                    isFirstSelected={isFirstSelected}
-                    draggable={!isBoundarySettingMode}
-                    onClick={(e) => !isBoundarySettingMode && e.evt.button === 0 && onTableSelect?.(table.id, e.evt.ctrlKey)}
-                    onTap={(e) => !isBoundarySettingMode && onTableSelect?.(table.id, false)}
-                    onContextMenu={(e) => handleTableRightClick(e, table.id)}
-                    onDragMove={handleDragMove}
-                    onDragEnd={handleDragEnd}
-                    onDoubleClick={onTextBoxDoubleClick}
-                  />
+                  <React.Fragment key={table.id}>
+                    <TextBoxRenderer
+                      id={table.id}
+                      x={displayX}
+                      y={displayY}
+                      tableObj={table}
+                      scale={finalScale}
+                      isSelected={isSelected}
+                      isFirstSelected={isFirstSelected}
+                      draggable={isDraggable}
+                      onClick={(e) => !isCanvasToolActive && e.evt.button === 0 && onTableSelect?.(table.id, e.evt.ctrlKey)}
+                      onTap={(e) => !isCanvasToolActive && onTableSelect?.(table.id, false)}
+                      onContextMenu={(e) => handleTableRightClick(e, table.id)}
+                      onDragMove={handleDragMove}
+                      onDragEnd={handleDragEnd}
+                      onDoubleClick={onTextBoxDoubleClick}
+                    />
+                    {renderLockIndicator(table, displayX, displayY)}
+                  </React.Fragment>
                 );
               } else if (table.type === 'scale') {
                 return (
@@ -877,12 +1524,76 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
                     centerOffsetY={centerOffsetY}
                     panX={panX}
                     panY={panY}
-                    allTables={tables}
+                    allTables={displayTables}
                     onContextMenu={(e) => handleTableRightClick(e, table.id)}
                   />
                 );
               }
             })}
+
+            {/* 大きさ・回転の変更ハンドル（円は回転せず、円とSVGは縦横比を維持） */}
+            {transformTarget && (
+              <Transformer
+                ref={transformerRef}
+                rotateEnabled={transformTarget.type !== 'circle'}
+                keepRatio={transformTarget.type === 'circle' || transformTarget.type === 'svg'}
+                enabledAnchors={transformTarget.type === 'circle' || transformTarget.type === 'svg'
+                  ? ['top-left', 'top-right', 'bottom-left', 'bottom-right']
+                  : ['top-left', 'top-center', 'top-right', 'middle-left', 'middle-right', 'bottom-left', 'bottom-center', 'bottom-right']}
+                rotationSnaps={ROTATION_SNAP_ANGLES}
+                rotationSnapTolerance={ROTATION_SNAP_TOLERANCE}
+                flipEnabled={false}
+                ignoreStroke
+                boundBoxFunc={limitTransformSize}
+                onTransformEnd={handleTransformEnd}
+              />
+            )}
+
+            {/* 重なり・はみ出しの強調 */}
+            {renderLayoutProblems()}
+
+            {/* 選択中のグループの枠 */}
+            {renderGroupOutlines()}
+
+            {/* 範囲選択の枠 */}
+            {renderAreaSelection()}
+
+            {/* スマートガイド */}
+            {renderSmartGuides()}
+
+            {/* ドラッグ中の案内 */}
+            {renderDragFeedback()}
+
+            {/* スタンプの配置位置 */}
+            {renderStampPreview()}
+
+            {/* 複製の配置位置 */}
+            {renderPreviewTables()}
+
+            {/* 縮尺調整の基準線 */}
+            {isCalibrationMode && calibrationStart && calibrationPointer && (
+              <>
+                <Line
+                  points={[
+                    calibrationStart.x * finalScale + centerOffsetX + panX,
+                    calibrationStart.y * finalScale + centerOffsetY + panY,
+                    calibrationPointer.x * finalScale + centerOffsetX + panX,
+                    calibrationPointer.y * finalScale + centerOffsetY + panY
+                  ]}
+                  stroke="#ff9800"
+                  strokeWidth={2}
+                  dash={[6, 4]}
+                  listening={false}
+                />
+                <Circle
+                  x={calibrationStart.x * finalScale + centerOffsetX + panX}
+                  y={calibrationStart.y * finalScale + centerOffsetY + panY}
+                  radius={4}
+                  fill="#ff9800"
+                  listening={false}
+                />
+              </>
+            )}
           </Layer>
         </Stage>
 
@@ -905,9 +1616,27 @@ const EnhancedCanvas: React.FC<EnhancedCanvasProps> = ({
             onAlignLeft={handleAlignLeft}
             onHorizontallyCentered={handleHorizontallyCentered}
             onAlignRight={handleAlignRight}
+            onDistributeHorizontalCenters={() => handleDistribute('horizontal', 'centers')}
+            onDistributeHorizontalGaps={() => handleDistribute('horizontal', 'gaps')}
+            onDistributeVerticalCenters={() => handleDistribute('vertical', 'centers')}
+            onDistributeVerticalGaps={() => handleDistribute('vertical', 'gaps')}
+            onDistributeWithGap={onDistributeWithGap}
             onMeasureDistance={handleMeasureDistance}
+            isLocked={selectedTableIds.length > 0 && selectedTableIds.every(id => tables.find(table => table.id === id)?.locked)}
+            onLock={() => handleSetLocked(true)}
+            onUnlock={() => handleSetLocked(false)}
+            onLockAllOfType={() => handleSetLockedByType(contextMenu.tableId, true)}
+            onUnlockAllOfType={() => handleSetLockedByType(contextMenu.tableId, false)}
+            onBringToFront={() => handleZOrderChange('bringToFront')}
+            onBringForward={() => handleZOrderChange('bringForward')}
+            onSendBackward={() => handleZOrderChange('sendBackward')}
+            onSendToBack={() => handleZOrderChange('sendToBack')}
+            isGrouped={selectedTableIds.some(id => tables.find(table => table.id === id)?.groupId)}
+            onGroup={handleGroup}
+            onUngroup={handleUngroup}
             onDuplicateCustom={() => handleTableDuplicateCustom(contextMenu.tableId)}
             onDuplicateMultipleCustom={handleMultipleTableDuplicateCustom}
+            onDuplicateRadial={() => onDuplicateRadial?.(selectedTableIds)}
           />
         )}
       </div>
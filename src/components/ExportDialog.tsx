@@ -0,0 +1,333 @@
+import React, { useRef, useEffect, useState } from 'react';
+import type { SVGData, TableObject } from '../types';
+import {
+    type ExportFormat,
+    type ExportSizeMode,
+    type PaperSize,
+    type PaperOrientation,
+    type LayoutExportOptions,
+    PAPER_SIZES,
+    computePageLayout,
+    getRasterSize,
+    exportLayoutAsPNG,
+    exportLayoutAsSVG,
+    downloadBlob
+} from '../utils/layoutExport';
+import { computePrintPlan, exportProjectAsPDF } from '../utils/printLayout';
+import { exportProjectToJSON } from '../utils/projectUtils';
+
+interface ExportDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    svgData: SVGData;
+    tables: TableObject[];
+    projectName: string;
+    onError?: (message: string) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    fontSize: '1rem'
+};
+
+const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '0.5rem',
+    fontWeight: 'bold'
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+    isOpen,
+    onClose,
+    svgData,
+    tables,
+    projectName,
+    onError,
+}) => {
+    // フォーカス管理用のref
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    // 状態管理
+    const [format, setFormat] = useState<ExportFormat>('png');
+    const [sizeMode, setSizeMode] = useState<ExportSizeMode>('paper');
+    const [scaleDenominator, setScaleDenominator] = useState<number>(100);
+    const [paperSize, setPaperSize] = useState<PaperSize>('A3');
+    const [orientation, setOrientation] = useState<PaperOrientation>('landscape');
+    const [dpi, setDpi] = useState<number>(300);
+    const [printDpi, setPrintDpi] = useState<number>(200);
+    const [isExporting, setIsExporting] = useState(false);
+
+    // モーダルが開いた時にフォーカスを当てる
+    useEffect(() => {
+        if (isOpen && modalRef.current) {
+            modalRef.current.focus();
+        }
+    }, [isOpen]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            onClose();
+        }
+    };
+
+    const options: LayoutExportOptions = {
+        sizeMode,
+        scaleDenominator,
+        paperSize,
+        orientation,
+        dpi,
+        margin: 10
+    };
+
+    // 出力サイズの表示用
+    const layout = computePageLayout(svgData.width, svgData.height, options);
+    const rasterSize = getRasterSize(layout, dpi);
+
+    // PDFは常に縮尺を指定して用紙に配置する
+    const printOptions = { paperSize, orientation, scaleDenominator, dpi: printDpi };
+    const printPlan = computePrintPlan(svgData, printOptions);
+
+    // 書き出し実行ハンドラー
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const baseName = projectName || svgData.fileName || 'venue-layout';
+            if (format === 'pdf') {
+                const projectData = exportProjectToJSON(tables, svgData, projectName);
+                const blob = await exportProjectAsPDF(projectData, printOptions);
+                downloadBlob(blob, `${baseName}.pdf`);
+            } else if (format === 'png') {
+                const blob = await exportLayoutAsPNG(svgData, tables, options);
+                downloadBlob(blob, `${baseName}.png`);
+            } else {
+                const blob = exportLayoutAsSVG(svgData, tables, options);
+                downloadBlob(blob, `${baseName}.svg`);
+            }
+            onClose();
+        } catch (error) {
+            console.error('レイアウト図の書き出しに失敗しました:', error);
+            onError?.(error instanceof Error ? error.message : 'レイアウト図の書き出しに失敗しました');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 1000
+            }}
+        >
+            <div
+                style={{
+                    backgroundColor: 'white',
+                    padding: '2rem',
+                    borderRadius: '8px',
+                    width: '400px',
+                    maxWidth: '90vw',
+                    maxHeight: '90vh',
+                    overflow: 'auto',
+                    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)'
+                }}
+                tabIndex={-1}
+                onKeyDown={handleKeyDown}
+                ref={modalRef}
+            >
+                <h3 style={{ margin: '0 0 1.5rem 0', textAlign: 'center' }}>
+                    レイアウト図の書き出し
+                </h3>
+
+                {/* 形式の選択 */}
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={labelStyle}>形式：</label>
+                    <label style={{ marginRight: '1rem', cursor: 'pointer' }}>
+                        <input
+                            type="radio"
+                            name="exportFormat"
+                            value="png"
+                            checked={format === 'png'}
+                            onChange={() => setFormat('png')}
+                        />
+                        PNG（画像）
+                    </label>
+                    <label style={{ marginRight: '1rem', cursor: 'pointer' }}>
+                        <input
+                            type="radio"
+                            name="exportFormat"
+                            value="svg"
+                            checked={format === 'svg'}
+                            onChange={() => setFormat('svg')}
+                        />
+                        SVG（ベクター）
+                    </label>
+                    <label style={{ cursor: 'pointer' }}>
+                        <input
+                            type="radio"
+                            name="exportFormat"
+                            value="pdf"
+                            checked={format === 'pdf'}
+                            onChange={() => setFormat('pdf')}
+                        />
+                        PDF（印刷用）
+                    </label>
+                </div>
+
+                {/* サイズの指定方法（PDFは用紙と縮尺の両方を指定） */}
+                {format !== 'pdf' && (
+                    <div style={{ marginBottom: '1rem' }}>
+                        <label style={labelStyle}>サイズ：</label>
+                        <label style={{ marginRight: '1rem', cursor: 'pointer' }}>
+                            <input
+                                type="radio"
+                                name="exportSizeMode"
+                                value="paper"
+                                checked={sizeMode === 'paper'}
+                                onChange={() => setSizeMode('paper')}
+                            />
+                            用紙に合わせる
+                        </label>
+                        <label style={{ cursor: 'pointer' }}>
+                            <input
+                                type="radio"
+                                name="exportSizeMode"
+                                value="scale"
+                                checked={sizeMode === 'scale'}
+                                onChange={() => setSizeMode('scale')}
+                            />
+                            縮尺を指定
+                        </label>
+                    </div>
+                )}
+
+                {(format === 'pdf' || sizeMode === 'paper') && (
+                    <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+                        <select
+                            value={paperSize}
+                            onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+                            style={inputStyle}
+                        >
+                            {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => (
+                                <option key={size} value={size}>{size}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={orientation}
+                            onChange={(e) => setOrientation(e.target.value as PaperOrientation)}
+                            style={inputStyle}
+                        >
+                            <option value="landscape">横向き</option>
+                            <option value="portrait">縦向き</option>
+                        </select>
+                    </div>
+                )}
+
+                {(format === 'pdf' || sizeMode === 'scale') && (
+                    <div style={{ marginBottom: '1rem' }}>
+                        <label style={labelStyle}>縮尺：1 /</label>
+                        <input
+                            type="number"
+                            min="1"
+                            step="10"
+                            value={scaleDenominator}
+                            onChange={(e) => setScaleDenominator(Math.max(1, parseInt(e.target.value) || 1))}
+                            style={inputStyle}
+                        />
+                    </div>
+                )}
+
+                {/* 解像度（PDFはページ画像の解像度） */}
+                {format === 'pdf' && (
+                    <div style={{ marginBottom: '1rem' }}>
+                        <label style={labelStyle}>印刷品質：(dpi)</label>
+                        <select
+                            value={printDpi}
+                            onChange={(e) => setPrintDpi(parseInt(e.target.value))}
+                            style={inputStyle}
+                        >
+                            <option value={150}>150</option>
+                            <option value={200}>200</option>
+                            <option value={300}>300</option>
+                        </select>
+                    </div>
+                )}
+
+                {/* 解像度（PNGのみ） */}
+                {format === 'png' && (
+                    <div style={{ marginBottom: '1rem' }}>
+                        <label style={labelStyle}>解像度：(dpi)</label>
+                        <select
+                            value={dpi}
+                            onChange={(e) => setDpi(parseInt(e.target.value))}
+                            style={inputStyle}
+                        >
+                            <option value={96}>96</option>
+                            <option value={150}>150</option>
+                            <option value={300}>300</option>
+                            <option value={600}>600</option>
+                        </select>
+                    </div>
+                )}
+
+                {/* 出力サイズの表示 */}
+                <div style={{
+                    textAlign: 'center',
+                    padding: '0.75rem',
+                    backgroundColor: '#f5f5f5',
+                    borderRadius: '4px',
+                    marginBottom: '1rem'
+                }}>
+                    {format === 'pdf' ? (
+                        <>
+                            <strong>出力：</strong>
+                            {paperSize} {printPlan.tiles.length}ページ
+                            {printPlan.tiles.length > 1 && ` (${printPlan.rows}行×${printPlan.columns}列に分割)`}
+                            <br />
+                            縮尺 1:{scaleDenominator}
+                        </>
+                    ) : (
+                        <>
+                            <strong>出力サイズ：</strong>
+                            {Math.round(layout.pageWidth)}×{Math.round(layout.pageHeight)}mm
+                            {format === 'png' && ` (${rasterSize.width}×${rasterSize.height}px)`}
+                            <br />
+                            縮尺 1:{Math.round(1 / layout.scale)}
+                        </>
+                    )}
+                </div>
+
+                <div style={{ display: 'flex', justifyContent: 'center', gap: '1rem' }}>
+                    <button
+                        onClick={handleExport}
+                        className='btn-action btn-mr'
+                        disabled={isExporting}
+                    >
+                        {isExporting ? '書き出し中...' : '書き出し'}
+                    </button>
+
+                    <button
+                        onClick={onClose}
+                        className='btn-cancel'
+                    >
+                        キャンセル
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExportDialog;
@@ -7,6 +7,8 @@ interface GridSnapControlsProps {
   onSnapToggle: (enabled: boolean) => void;
   gridVisible: boolean;
   onGridVisibilityToggle: (visible: boolean) => void;
+  smartGuidesEnabled: boolean;
+  onSmartGuidesToggle: (enabled: boolean) => void;
 }
 
 const GridSnapControls: React.FC<GridSnapControlsProps> = ({
@@ -15,7 +17,9 @@ const GridSnapControls: React.FC<GridSnapControlsProps> = ({
   snapEnabled,
   onSnapToggle,
   gridVisible,
-  onGridVisibilityToggle
+  onGridVisibilityToggle,
+  smartGuidesEnabled,
+  onSmartGuidesToggle
 }) => {
   return (
     <div className="grid-snap-controls">
@@ -42,6 +46,17 @@ const GridSnapControls: React.FC<GridSnapControlsProps> = ({
           グリッドを表示する
         </label>
       </div>
+
+      <div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <input
+            type="checkbox"
+            checked={smartGuidesEnabled}
+            onChange={(e) => onSmartGuidesToggle(e.target.checked)}
+          />
+          他のオブジェクトに揃える（スマートガイド）
+        </label>
+      </div>
       
       <div>
         <label style={{ display: 'block', fontSize: '14px', marginBottom: '4px' }}>
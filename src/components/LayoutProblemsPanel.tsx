@@ -0,0 +1,81 @@
+import React from 'react';
+import type { TableObject, LayoutProblem, RectangleProps, CircleProps, SVGTableProps } from '../types';
+
+interface LayoutProblemsPanelProps {
+  problems: LayoutProblem[];
+  tables: TableObject[];
+  onSelectTables: (ids: string[]) => void;
+}
+
+// 一覧で見分けられるように、オブジェクトの種類と大きさを表示する
+const describeTable = (table: TableObject | undefined): string => {
+  if (!table) return '（削除済み）';
+
+  switch (table.type) {
+    case 'rectangle': {
+      const props = table.properties as RectangleProps;
+      return `長方形 ${props.width}×${props.height}mm`;
+    }
+    case 'circle':
+      return `円形 半径${(table.properties as CircleProps).radius}mm`;
+    case 'svg':
+      return (table.properties as SVGTableProps).filename;
+    case 'textbox':
+      return 'テキストボックス';
+    default:
+      return '縮尺';
+  }
+};
+
+const LayoutProblemsPanel: React.FC<LayoutProblemsPanelProps> = ({
+  problems,
+  tables,
+  onSelectTables
+}) => {
+  const findTable = (id: string) => tables.find(table => table.id === id);
+
+  const getMessage = (problem: LayoutProblem): string => problem.type === 'overlap'
+    ? `${describeTable(findTable(problem.ids[0]))} と ${describeTable(findTable(problem.ids[1]))} が重なっています`
+    : `${describeTable(findTable(problem.ids[0]))} が${problem.result.message}`;
+
+  return (
+    <div className="layout-problems-panel">
+      <h3>問題点{problems.length > 0 && ` (${problems.length})`}</h3>
+
+      {problems.length === 0 ? (
+        <p style={{ fontSize: '0.9rem', color: '#666' }}>問題はありません</p>
+      ) : (
+        <>
+          <p style={{ fontSize: '0.9rem', color: '#666' }}>
+            クリックすると該当するオブジェクトを選択します
+          </p>
+          <ul style={{ listStyle: 'none', padding: 0, margin: 0, maxHeight: '200px', overflowY: 'auto' }}>
+            {problems.map(problem => (
+              <li key={`${problem.type}-${problem.ids.join('-')}`}>
+                <button
+                  onClick={() => onSelectTables(problem.ids)}
+                  style={{
+                    width: '100%',
+                    textAlign: 'left',
+                    padding: '0.4rem 0.5rem',
+                    marginBottom: '4px',
+                    border: `1px solid ${problem.type === 'overlap' ? '#e74c3c' : '#ff9800'}`,
+                    borderRadius: '4px',
+                    backgroundColor: problem.type === 'overlap' ? '#fdecea' : '#fff8e1',
+                    fontSize: '0.85rem',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {problem.type === 'overlap' ? '⚠️ ' : '📏 '}
+                  {getMessage(problem)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LayoutProblemsPanel;
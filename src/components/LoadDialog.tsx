@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import type { ProjectData, LoadResult } from '../types/index';
 import { loadProjectFromJSON, hasAutoSavedProject, loadAutoSavedProject } from '../utils/projectUtils';
+import { getTableReportLabel } from '../utils/tableValidation';
 
 interface LoadDialogProps {
   isOpen: boolean;
@@ -15,7 +16,10 @@ export const LoadDialog: React.FC<LoadDialogProps> = ({
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [warnings, setWarnings] = useState<string[]>([]);
+  // 警告や修復・除外したオブジェクトがあり、読み込む前に確認してもらう結果
+  const [pendingResult, setPendingResult] = useState<LoadResult | null>(null);
+  // 確認せずに読み込んだ後に表示するお知らせ（古いバージョンからの変換など）
+  const [loadedNotes, setLoadedNotes] = useState<string[] | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() =>{
@@ -23,7 +27,8 @@ export const LoadDialog: React.FC<LoadDialogProps> = ({
       // ダイアログオープン時に初期化
       setIsLoading(false);
       setError(null);
-      setWarnings([]);
+      setPendingResult(null);
+      setLoadedNotes(null);
     }
   }, [isOpen]);
 
@@ -33,25 +38,25 @@ export const LoadDialog: React.FC<LoadDialogProps> = ({
 
     setIsLoading(true);
     setError(null);
-    setWarnings([]);
+    setPendingResult(null);
+    setLoadedNotes(null);
 
     try {
       const result: LoadResult = await loadProjectFromJSON(file);
       
       if (result.success && result.data) {
-        if (result.warnings && result.warnings.length > 0) {
-          setWarnings(result.warnings);
-          // 警告があっても読み込みを続行するか確認
-          const proceed = window.confirm(
-            `以下の警告があります:\n${result.warnings.join('\n')}\n\n読み込みを続行しますか？`
-          );
-          if (!proceed) {
-            setIsLoading(false);
-            return;
-          }
+        // 警告や修復・除外したオブジェクトがある場合は、内容を確認してから読み込む
+        if ((result.warnings && result.warnings.length > 0) || (result.tableReports && result.tableReports.length > 0)) {
+          setPendingResult(result);
+          return;
         }
-        
+
         onLoad(result.data);
+        // お知らせだけの場合は確認せずに読み込み、読み込んだ後に表示する
+        if (result.notes && result.notes.length > 0) {
+          setLoadedNotes(result.notes);
+          return;
+        }
         onClose();
       } else {
         setError(result.error || '不明なエラーが発生しました');
@@ -63,6 +68,13 @@ export const LoadDialog: React.FC<LoadDialogProps> = ({
     }
   };
 
+  const handleConfirmLoad = () => {
+    if (pendingResult?.data) {
+      onLoad(pendingResult.data);
+      onClose();
+    }
+  };
+
   const handleLoadAutoSaved = () => {
     try {
       const autoSavedData = loadAutoSavedProject();
@@ -124,15 +136,84 @@ export const LoadDialog: React.FC<LoadDialogProps> = ({
           </div>
         )}
 
-        {/* 警告表示 */}
-        {warnings.length > 0 && (
-          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
-            <p className="text-sm text-yellow-800 font-medium mb-1">警告:</p>
-            <ul className="text-sm text-yellow-700">
-              {warnings.map((warning, index) => (
-                <li key={index}>• {warning}</li>
+        {/* 読み込んだ後のお知らせ */}
+        {loadedNotes && (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
+            <p className="text-sm font-medium mb-1">読み込みました:</p>
+            <ul className="text-sm">
+              {loadedNotes.map((note, index) => (
+                <li key={index}>• {note}</li>
               ))}
             </ul>
+            <button
+              onClick={onClose}
+              className="btn-action btn-mini"
+            >
+              閉じる
+            </button>
+          </div>
+        )}
+
+        {/* 読み込む前の確認 */}
+        {pendingResult && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+            {pendingResult.warnings && pendingResult.warnings.length > 0 && (
+              <>
+                <p className="text-sm text-yellow-800 font-medium mb-1">警告:</p>
+                <ul className="text-sm text-yellow-700">
+                  {pendingResult.warnings.map((warning, index) => (
+                    <li key={index}>• {warning}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {/* オブジェクトごとの検証結果（クリックで詳細を表示） */}
+            {pendingResult.tableReports && pendingResult.tableReports.length > 0 && (
+              <>
+                <p className="text-sm text-yellow-800 font-medium mb-1">オブジェクトの検証結果:</p>
+                {pendingResult.tableReports.map(report => (
+                  <details key={report.index} style={{ fontSize: '0.85rem', marginBottom: '4px' }}>
+                    <summary style={{ cursor: 'pointer', color: report.errors.length > 0 ? '#d32f2f' : '#856404' }}>
+                      {getTableReportLabel(report)}: {report.errors.length > 0 ? '読み込めません' : '修復しました'}
+                    </summary>
+                    <ul style={{ margin: '4px 0 0 1rem', padding: 0 }}>
+                      {report.errors.map((message, index) => (
+                        <li key={`error-${index}`}>• {message}</li>
+                      ))}
+                      {report.repairs.map((message, index) => (
+                        <li key={`repair-${index}`}>• {message}</li>
+                      ))}
+                    </ul>
+                  </details>
+                ))}
+              </>
+            )}
+
+            {pendingResult.notes && pendingResult.notes.length > 0 && (
+              <>
+                <p className="text-sm font-medium mb-1">お知らせ:</p>
+                <ul className="text-sm">
+                  {pendingResult.notes.map((note, index) => (
+                    <li key={index}>• {note}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            <p className="text-sm">読み込みを続行しますか？</p>
+            <button
+              onClick={handleConfirmLoad}
+              className="btn-action btn-mini btn-mr"
+            >
+              読み込む
+            </button>
+            <button
+              onClick={() => setPendingResult(null)}
+              className="btn-cancel btn-mini"
+            >
+              やめる
+            </button>
           </div>
         )}
 
@@ -1,11 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { LoadDialog } from './LoadDialog';
-import type { ProjectData, TableObject, SVGData } from '../types/index';
+import type { ProjectData, TableObject, SVGData, BoundaryArea, EditorSettings } from '../types/index';
 import { downloadProjectAsJSON, autoSaveProject, hasAutoSavedProject } from '../utils/projectUtils';
+import { CURRENT_PROJECT_VERSION } from '../utils/projectMigrations';
 
 interface ProjectManagerProps {
   tables: TableObject[];
   svgData: SVGData | null;
+  boundaryArea: BoundaryArea | null;
+  editorSettings: EditorSettings;
   onLoadProject: (projectData: ProjectData) => void;
   onLastSaveTimeChange?: (lastSaveTime: Date | null) => void;
 }
@@ -13,6 +16,8 @@ interface ProjectManagerProps {
 const ProjectManager: React.FC<ProjectManagerProps> = ({
   tables,
   svgData,
+  boundaryArea,
+  editorSettings,
   onLoadProject,
   onLastSaveTimeChange
 }) => {
@@ -20,11 +25,18 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [lastSaveTime, setLastSaveTime] = useState<Date | null>(null);
 
+  // 自動保存で使う最新の状態（パン・ズームのたびに自動保存のタイマーがやり直しにならないようにrefで参照する）
+  const latestStateRef = useRef({ tables, svgData, boundaryArea, editorSettings, onLastSaveTimeChange });
+  useEffect(() => {
+    latestStateRef.current = { tables, svgData, boundaryArea, editorSettings, onLastSaveTimeChange };
+  });
+
   // 自動保存の実行
   useEffect(() => {
     const autoSaveInterval = setInterval(() => {
+      const { tables, svgData, boundaryArea, editorSettings, onLastSaveTimeChange } = latestStateRef.current;
       if (tables.length > 0 || svgData) {
-        autoSaveProject(tables, svgData, svgData?.fileName + '(自動保存)');
+        autoSaveProject(tables, svgData, svgData?.fileName + '(自動保存)', { boundaryArea, editorSettings });
         setHasUnsavedChanges(false);
         const autoSaveTime = new Date();
         setLastSaveTime(autoSaveTime);
@@ -35,19 +47,19 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
     }, 30000); // 30秒ごとに自動保存
 
     return () => clearInterval(autoSaveInterval);
-  }, [tables, svgData, onLastSaveTimeChange]);
+  }, []);
 
   // 変更検知
   useEffect(() => {
     setHasUnsavedChanges(true);
-  }, [tables, svgData]);
+  }, [tables, svgData, boundaryArea]);
 
   const handleSaveProject = () => {
     // ダイアログを閉じる
     setShowLoadDialog(false);
 
     try {
-      downloadProjectAsJSON(tables, svgData, svgData?.fileName || "会場レイアウト");
+      downloadProjectAsJSON(tables, svgData, svgData?.fileName || "会場レイアウト", { boundaryArea, editorSettings });
       const saveTime = new Date();
       setLastSaveTime(saveTime);
       setHasUnsavedChanges(false);
@@ -103,7 +115,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
         name: '新しいプロジェクト',
         createdAt: new Date().toISOString(),
         lastModified: new Date().toISOString(),
-        version: '1.0'
+        version: CURRENT_PROJECT_VERSION
       },
       venue: {
         dimensions: { width: 800, height: 600 }
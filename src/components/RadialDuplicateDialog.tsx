@@ -0,0 +1,278 @@
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import type { Position, RadialDuplicateSettings } from '../types';
+import { MAX_RADIAL_COUNT } from '../utils/radialDuplicate';
+
+interface RadialDuplicateDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    ids: string[]; // 複製対象の図形ID配列
+    center: Position;
+    onCenterChange: (center: Position) => void;
+    isPickingCenter: boolean; // キャンバスで中心を指定中
+    onStartPickCenter: () => void;
+    onCancelPickCenter: () => void;
+    onDuplicate: (ids: string[], settings: RadialDuplicateSettings) => void;
+    onPreviewChange?: (settings: RadialDuplicateSettings | null) => void; // キャンバスに複製位置を表示
+}
+
+// 数値入力欄のスタイル
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '0.5rem',
+    fontWeight: 'bold'
+};
+
+const RadialDuplicateDialog: React.FC<RadialDuplicateDialogProps> = ({
+    isOpen,
+    onClose,
+    ids,
+    center,
+    onCenterChange,
+    isPickingCenter,
+    onStartPickCenter,
+    onCancelPickCenter,
+    onDuplicate,
+    onPreviewChange,
+}) => {
+    // フォーカス管理用のref
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    // 状態管理
+    const [radius, setRadius] = useState<number>(2000);
+    const [count, setCount] = useState<number>(8);
+    const [startAngle, setStartAngle] = useState<number>(0);
+    const [endAngle, setEndAngle] = useState<number>(360);
+    const [faceCenter, setFaceCenter] = useState<boolean>(false);
+
+    const settings = useMemo<RadialDuplicateSettings>(() => ({
+        center,
+        radius,
+        count,
+        startAngle,
+        endAngle,
+        faceCenter
+    }), [center, radius, count, startAngle, endAngle, faceCenter]);
+
+    // モーダルが開いた時（中心の指定から戻った時を含む）にフォーカスを当てる
+    useEffect(() => {
+        if (isOpen && !isPickingCenter && modalRef.current) {
+            modalRef.current.focus();
+        }
+    }, [isOpen, isPickingCenter]);
+
+    // 設定を変更するたびにキャンバスの表示を更新し、閉じたら消す
+    useEffect(() => {
+        if (!isOpen) return;
+        onPreviewChange?.(settings);
+        return () => onPreviewChange?.(null);
+    }, [isOpen, settings, onPreviewChange]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            onClose();
+        }
+    };
+
+    // 複製実行ハンドラー
+    const handleDuplicate = () => {
+        if (ids.length > 0) {
+            onDuplicate(ids, settings);
+        }
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    // 中心の指定中はキャンバスを操作できるように案内だけを表示
+    if (isPickingCenter) {
+        return (
+            <div
+                style={{
+                    position: 'fixed',
+                    top: '1rem',
+                    left: '50%',
+                    transform: 'translateX(-50%)',
+                    backgroundColor: 'white',
+                    padding: '0.75rem 1rem',
+                    borderRadius: '8px',
+                    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '1rem',
+                    zIndex: 1000
+                }}
+            >
+                <span style={{ color: '#ff9800', fontWeight: 'bold' }}>
+                    中心にするオブジェクトまたは位置をクリックしてください
+                </span>
+                <button
+                    onClick={onCancelPickCenter}
+                    className='btn-cancel'
+                >
+                    キャンセル
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                // 複製位置をキャンバスで確認できるように背景は薄くし、右側に表示する
+                backgroundColor: 'rgba(0, 0, 0, 0.1)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'flex-end',
+                padding: '0 2rem',
+                zIndex: 1000
+            }}
+        >
+            <div
+                style={{
+                    backgroundColor: 'white',
+                    padding: '2rem',
+                    borderRadius: '8px',
+                    width: '400px',
+                    maxWidth: '90vw',
+                    maxHeight: '90vh',
+                    overflow: 'auto',
+                    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)'
+                }}
+                tabIndex={-1}
+                onKeyDown={handleKeyDown}
+                ref={modalRef}
+            >
+                <h3 style={{ margin: '0 0 1.5rem 0', textAlign: 'center' }}>
+                    円形に複製 ({ids.length}個選択中)
+                </h3>
+
+                {/* 中心の設定 */}
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={labelStyle}>中心：(mm)</label>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                        <span>X</span>
+                        <input
+                            type="number"
+                            step="10"
+                            value={Math.round(center.x)}
+                            onChange={(e) => onCenterChange({ x: parseFloat(e.target.value) || 0, y: center.y })}
+                            style={inputStyle}
+                        />
+                        <span>Y</span>
+                        <input
+                            type="number"
+                            step="10"
+                            value={Math.round(center.y)}
+                            onChange={(e) => onCenterChange({ x: center.x, y: parseFloat(e.target.value) || 0 })}
+                            style={inputStyle}
+                        />
+                    </div>
+                    <button
+                        onClick={onStartPickCenter}
+                        className='btn-mini'
+                        style={{ marginTop: '0.5rem' }}
+                    >
+                        キャンバスで指定
+                    </button>
+                </div>
+
+                {/* 半径・個数の設定 */}
+                <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>半径：(mm)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="100"
+                            value={radius}
+                            onChange={(e) => setRadius(Math.max(0, parseInt(e.target.value) || 0))}
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>複製数：(個)</label>
+                        <input
+                            type="number"
+                            min="1"
+                            max={MAX_RADIAL_COUNT}
+                            value={count}
+                            onChange={(e) => setCount(Math.min(MAX_RADIAL_COUNT, Math.max(1, parseInt(e.target.value) || 1)))}
+                            style={inputStyle}
+                        />
+                    </div>
+                </div>
+
+                {/* 角度の設定 */}
+                <div style={{ display: 'flex', gap: '1rem', marginBottom: '0.5rem' }}>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>開始角度：(°)</label>
+                        <input
+                            type="number"
+                            step="15"
+                            value={startAngle}
+                            onChange={(e) => setStartAngle(parseFloat(e.target.value) || 0)}
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div style={{ flex: 1 }}>
+                        <label style={labelStyle}>終了角度：(°)</label>
+                        <input
+                            type="number"
+                            step="15"
+                            value={endAngle}
+                            onChange={(e) => setEndAngle(parseFloat(e.target.value) || 0)}
+                            style={inputStyle}
+                        />
+                    </div>
+                </div>
+                <p style={{ fontSize: '0.85rem', color: '#666', margin: '0 0 1rem 0' }}>
+                    右方向が0°、時計回りに増えます（下が90°）。0°〜360°のように一周する場合は等分します。
+                </p>
+
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <input
+                            type="checkbox"
+                            checked={faceCenter}
+                            onChange={(e) => setFaceCenter(e.target.checked)}
+                        />
+                        中心の方向に回転する（上辺を中心に向ける）
+                    </label>
+                </div>
+
+                <div style={{ display: 'flex', justifyContent: 'center', gap: '1rem' }}>
+                    <button
+                        onClick={handleDuplicate}
+                        className='btn-action btn-mr'
+                        disabled={ids.length === 0}
+                    >
+                        複製実行
+                    </button>
+
+                    <button
+                        onClick={onClose}
+                        className='btn-cancel'
+                    >
+                        キャンセル
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RadialDuplicateDialog;
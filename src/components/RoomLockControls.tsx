@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface RoomLockControlsProps {
+  isLocked: boolean;
+  onLockToggle: (locked: boolean) => void;
+}
+
+const RoomLockControls: React.FC<RoomLockControlsProps> = ({
+  isLocked,
+  onLockToggle
+}) => {
+  return (
+    <div className="room-lock-controls">
+      <h3>会場図のロック</h3>
+
+      <div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <input
+            type="checkbox"
+            checked={isLocked}
+            onChange={(e) => onLockToggle(e.target.checked)}
+          />
+          🔒 会場図をロックする
+        </label>
+      </div>
+      <p style={{ fontSize: '0.9rem', color: '#666' }}>
+        ロック中は会場図の読み込み・縮尺調整・境界エリアの設定ができません。
+      </p>
+    </div>
+  );
+};
+
+export default RoomLockControls;
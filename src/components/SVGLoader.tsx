@@ -1,7 +1,7 @@
 import React, { useRef, useState, useEffect } from 'react';
-import type { SVGData } from '../types';
+import type { SVGData, SVGProcessingResult } from '../types';
 import { fetchSVGRoomList, type SVGRoomInfo } from '../api/svgRooms';
-import { SVG_SCALE_FACTOR } from '../constants/scale';
+import { processSVGContent, importSVGFile, formatSVGLoadError } from '../utils/svgImport';
 
 interface SVGLoaderProps {
   onSVGLoad: (svgData: SVGData) => void;
@@ -13,6 +13,9 @@ const SVGLoader: React.FC<SVGLoaderProps> = ({ onSVGLoad, onError }) => {
   const [selectedPreset, setSelectedPreset] = useState('');
   const [svgRooms, setSvgRooms] = useState<SVGRoomInfo[]>([]);
   const [isLoadingRooms, setIsLoadingRooms] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // SVGルーム一覧をAPIから動的に読み込み
   useEffect(() => {
@@ -46,10 +49,9 @@ const SVGLoader: React.FC<SVGLoaderProps> = ({ onSVGLoad, onError }) => {
       }
 
       const content = await response.text();
-      const svgData = parseSVGContent(content, filename);
-      svgData.fileName = filename.replace(/\.[^/.]+$/, '');
-
-      onSVGLoad(svgData);
+      if (!applyResult(processSVGContent(content, filename))) {
+        setSelectedPreset('');
+      }
     } catch (error) {
       onError(error instanceof Error ? error.message : 'プリセットファイルの読み込み中にエラーが発生しました');
       setSelectedPreset('');
@@ -58,57 +60,63 @@ const SVGLoader: React.FC<SVGLoaderProps> = ({ onSVGLoad, onError }) => {
     }
   };
 
-  const parseSVGContent = (content: string, filename: string): SVGData => {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(content, 'image/svg+xml');
-
-    const parserError = doc.querySelector('parsererror');
-    if (parserError) {
-      throw new Error('無効なSVGファイルです');
+  // 読み込み結果を反映（警告は一覧で表示）
+  const applyResult = (result: SVGProcessingResult): boolean => {
+    if (!result.success || !result.data) {
+      setWarnings([]);
+      onError(result.error ? formatSVGLoadError(result.error) : 'SVGファイルの読み込みに失敗しました');
+      return false;
     }
 
-    const svgElement = doc.querySelector('svg');
-    if (!svgElement) {
-      throw new Error('SVG要素が見つかりません');
-    }
+    setWarnings(result.warnings || []);
+    onSVGLoad(result.data);
+    return true;
+  };
 
-    // 元のwidth/heightを取得してSVG_SCALE_FACTORで拡大
-    const originalWidth = parseFloat(svgElement.getAttribute('width') || '800');
-    const originalHeight = parseFloat(svgElement.getAttribute('height') || '600');
-    const width = originalWidth * SVG_SCALE_FACTOR;
-    const height = originalHeight * SVG_SCALE_FACTOR;
-
-    const viewBoxAttr = svgElement.getAttribute('viewBox');
-
-    let viewBox = { x: 0, y: 0, width, height };
-    if (viewBoxAttr) {
-      const values = viewBoxAttr.split(/\s+/).map(Number);
-      if (values.length === 4) {
-        // viewBoxもSVG_SCALE_FACTORで拡大
-        viewBox = {
-          x: values[0] * SVG_SCALE_FACTOR,
-          y: values[1] * SVG_SCALE_FACTOR,
-          width: values[2] * SVG_SCALE_FACTOR,
-          height: values[3] * SVG_SCALE_FACTOR
-        };
+  // ローカルファイルを読み込む関数
+  const handleFileImport = async (file: File) => {
+    setIsLoading(true);
+    try {
+      const result = await importSVGFile(file);
+      if (applyResult(result)) {
+        setSelectedPreset('');
       }
+    } finally {
+      setIsLoading(false);
     }
+  };
 
-    const fileName = filename;
-
-    return {
-      content,
-      width,
-      height,
-      viewBox,
-      bounds: {
-        minX: viewBox.x,
-        minY: viewBox.y,
-        maxX: viewBox.x + viewBox.width,
-        maxY: viewBox.y + viewBox.height
-      },
-      fileName
-    };
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      handleFileImport(file);
+    }
+    // 同じファイルを続けて選択できるようにする
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = () => {
+    setIsDragOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    if (isLoading) return;
+
+    const files = e.dataTransfer.files;
+    if (files.length > 1) {
+      onError('SVGファイルは1つずつ読み込んでください');
+      return;
+    }
+    if (files.length === 1) {
+      handleFileImport(files[0]);
+    }
   };
 
   return (
@@ -151,6 +159,56 @@ const SVGLoader: React.FC<SVGLoaderProps> = ({ onSVGLoad, onError }) => {
           </div>
         )}
       </div>
+
+      {/* ローカルファイルの読み込み */}
+      <div style={{ marginBottom: '1rem' }}>
+        <label style={{ display: 'block', marginBottom: '0.5rem', fontSize: '0.9rem', fontWeight: 'bold' }}>
+          ファイルから読み込み:
+        </label>
+        <div
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+          onClick={() => !isLoading && fileInputRef.current?.click()}
+          style={{
+            padding: '1rem',
+            border: `2px dashed ${isDragOver ? '#2196f3' : '#ccc'}`,
+            borderRadius: '4px',
+            backgroundColor: isDragOver ? '#e3f2fd' : '#fafafa',
+            textAlign: 'center',
+            fontSize: '0.8rem',
+            color: '#666',
+            cursor: isLoading ? 'wait' : 'pointer'
+          }}
+        >
+          {isLoading ? '読み込み中...' : 'SVGファイルをドロップ、またはクリックして選択'}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".svg,image/svg+xml"
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+      </div>
+
+      {/* 読み込み時の警告 */}
+      {warnings.length > 0 && (
+        <div style={{
+          padding: '0.5rem',
+          backgroundColor: '#fff8e1',
+          border: '1px solid #ffcc80',
+          borderRadius: '4px',
+          fontSize: '0.8rem',
+          color: '#8a6d3b'
+        }}>
+          <ul style={{ margin: 0, paddingLeft: '1rem' }}>
+            {warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
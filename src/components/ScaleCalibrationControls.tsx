@@ -0,0 +1,58 @@
+import React from 'react';
+
+interface ScaleCalibrationControlsProps {
+  scaleFactor: number;
+  onStart: () => void;
+  onCancel: () => void;
+  isActive: boolean;
+  isLocked?: boolean;  // 会場図のロック中は変更できない
+}
+
+const ScaleCalibrationControls: React.FC<ScaleCalibrationControlsProps> = ({
+  scaleFactor,
+  onStart,
+  onCancel,
+  isActive,
+  isLocked = false
+}) => {
+  return (
+    <div className="scale-calibration-controls">
+      <h3>縮尺調整</h3>
+
+      {!isActive ? (
+        <div>
+          <p>
+            現在の縮尺: SVGの1単位 = {Math.round(scaleFactor * 1000) / 1000}mm
+          </p>
+          <p style={{ fontSize: '0.9rem', color: '#666' }}>
+            会場図上の2点と、その実際の距離から縮尺を合わせます。
+          </p>
+          <button
+            onClick={onStart}
+            disabled={isLocked}
+            className="btn-action btn-center"
+          >
+            縮尺調整を開始
+          </button>
+        </div>
+      ) : (
+        <div>
+          <p style={{ color: '#ff9800', fontWeight: 'bold' }}>
+            📐 縮尺調整モード
+          </p>
+          <p style={{ fontSize: '0.9rem', color: '#666' }}>
+            キャンバス上で距離が分かっている2点をクリックしてください
+          </p>
+          <button
+            onClick={onCancel}
+            className="btn-cancel btn-center"
+          >
+            キャンセル
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScaleCalibrationControls;
@@ -0,0 +1,133 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { MIN_CALIBRATION_DISTANCE } from '../constants/scale';
+
+interface ScaleCalibrationDialogProps {
+    isOpen: boolean;
+    measuredDistance: number; // 現在の縮尺で測った2点間の距離（mm）
+    onClose: () => void;
+    onCalibrate: (realDistance: number) => void;
+}
+
+const ScaleCalibrationDialog: React.FC<ScaleCalibrationDialogProps> = ({
+    isOpen,
+    measuredDistance,
+    onClose,
+    onCalibrate,
+}) => {
+    // フォーカス管理用のref
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    // 初期値は現在の縮尺での距離
+    const [realDistance, setRealDistance] = useState<string>(String(Math.round(measuredDistance)));
+
+    // モーダルが開いた時に入力欄にフォーカスを当てる
+    useEffect(() => {
+        if (isOpen && inputRef.current) {
+            inputRef.current.focus();
+            inputRef.current.select();
+        }
+    }, [isOpen]);
+
+    const parsedDistance = parseFloat(realDistance);
+    const isValid = Number.isFinite(parsedDistance) && parsedDistance >= MIN_CALIBRATION_DISTANCE;
+
+    const handleCalibrate = () => {
+        if (!isValid) return;
+        onCalibrate(parsedDistance);
+        onClose();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            onClose();
+        } else if (e.key === 'Enter') {
+            handleCalibrate();
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 1000
+            }}
+        >
+            <div
+                style={{
+                    backgroundColor: 'white',
+                    padding: '2rem',
+                    borderRadius: '8px',
+                    width: '400px',
+                    maxWidth: '90vw',
+                    maxHeight: '90vh',
+                    overflow: 'auto',
+                    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)'
+                }}
+                tabIndex={-1}
+                onKeyDown={handleKeyDown}
+            >
+                <h3 style={{ margin: '0 0 1.5rem 0', textAlign: 'center' }}>
+                    縮尺の調整
+                </h3>
+
+                <div style={{ marginBottom: '1rem' }}>
+                    現在の縮尺での距離: <strong>{Math.round(measuredDistance).toLocaleString()}mm</strong>
+                </div>
+
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                        実際の距離：(mm)
+                    </label>
+                    <input
+                        ref={inputRef}
+                        type="number"
+                        min={MIN_CALIBRATION_DISTANCE}
+                        value={realDistance}
+                        onChange={(e) => setRealDistance(e.target.value)}
+                        style={{
+                            width: '100%',
+                            padding: '0.5rem',
+                            border: '1px solid #ccc',
+                            borderRadius: '4px',
+                            fontSize: '1rem'
+                        }}
+                    />
+                </div>
+
+                <p style={{ fontSize: '0.85rem', color: '#666', marginBottom: '1.5rem' }}>
+                    会場図と配置済みオブジェクトの位置が新しい縮尺に合わせて調整されます。
+                    オブジェクトの大きさは変わりません。
+                </p>
+
+                <div style={{ display: 'flex', justifyContent: 'center', gap: '1rem' }}>
+                    <button
+                        onClick={handleCalibrate}
+                        className='btn-action btn-mr'
+                        disabled={!isValid}
+                    >
+                        縮尺を適用
+                    </button>
+
+                    <button
+                        onClick={onClose}
+                        className='btn-cancel'
+                    >
+                        キャンセル
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ScaleCalibrationDialog;
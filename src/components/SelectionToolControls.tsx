@@ -0,0 +1,41 @@
+import React from 'react';
+import type { AreaSelectionTool } from '../types';
+
+interface SelectionToolControlsProps {
+  tool: AreaSelectionTool;
+  onToolChange: (tool: AreaSelectionTool) => void;
+}
+
+const SelectionToolControls: React.FC<SelectionToolControlsProps> = ({
+  tool,
+  onToolChange
+}) => {
+  return (
+    <div className="selection-tool-controls" style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '5px'
+    }}>
+      <label style={{ fontSize: '12px' }}>範囲選択:</label>
+      <button
+        onClick={() => onToolChange('marquee')}
+        className={tool === 'marquee' ? 'btn-action btn-mini' : 'btn-cancel btn-mini'}
+        title="空いている場所からドラッグして矩形で選択"
+      >
+        矩形
+      </button>
+      <button
+        onClick={() => onToolChange('lasso')}
+        className={tool === 'lasso' ? 'btn-action btn-mini' : 'btn-cancel btn-mini'}
+        title="空いている場所からドラッグして囲んだ範囲を選択"
+      >
+        投げ縄
+      </button>
+      <span style={{ fontSize: '12px', color: '#666' }}>
+        Ctrl: 追加 / Alt: 除外
+      </span>
+    </div>
+  );
+};
+
+export default SelectionToolControls;
@@ -1,17 +1,39 @@
 import React, { useState, useEffect } from 'react';
-import type { TableObject } from '../types';
-import { fetchSVGTableList, fetchSVGEquipmentList, type SVGTableInfo, parseSVGDimensions } from '../api/svgTables';
+import type { TableObject, StencilData, StampSettings } from '../types';
+import { fetchSVGTableList, fetchSVGEquipmentList, type SVGTableInfo } from '../api/svgTables';
+import { parseSVGDimensions } from '../utils/svgDimensions';
+import { formatSVGLoadError } from '../utils/svgImport';
+import { sanitizeSVGContent, formatSanitizeWarning } from '../utils/svgSanitizer';
+import { setStencilDragData } from '../utils/stencilDrag';
 
 interface TableToolbarProps {
   onCreateTable: (type: 'rectangle' | 'circle' | 'svg' | 'textbox', props: any) => void;
   selectedTable: TableObject | null;
   onUpdateTable: (id: string, props: Partial<any>) => void;
+  isStampMode?: boolean;
+  onStartStamp?: (settings: StampSettings) => void;
+  onEndStamp?: () => void;
+  onOpenAutoLayout?: (stencil: StencilData) => void;
+  onOpenCapacityOptimizer?: (stencil: StencilData) => void;
+}
+
+// 読み込み済みのプリセット（無害化・寸法取得済み）
+interface LoadedStencil {
+  filename: string;
+  svgContent: string;
+  width: number;
+  height: number;
 }
 
 const TableToolbar: React.FC<TableToolbarProps> = ({
   onCreateTable,
   selectedTable,
-  onUpdateTable
+  onUpdateTable,
+  isStampMode = false,
+  onStartStamp,
+  onEndStamp,
+  onOpenAutoLayout,
+  onOpenCapacityOptimizer
 }) => {
   const [tableType, setTableType] = useState<'rectangle' | 'circle' | 'svg' | 'equipment' | 'textbox'>('svg');
   const [rectangleWidth, setRectangleWidth] = useState(800);
@@ -26,6 +48,9 @@ const TableToolbar: React.FC<TableToolbarProps> = ({
   const [fillColor, setFillColor] = useState('#cccccc');
   const [strokeColor, setStrokeColor] = useState('#000000');
   const [rotationAngle, setRotationAngle] = useState(0);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [loadedStencil, setLoadedStencil] = useState<LoadedStencil | null>(null);
+  const [stampRefuseOverlap, setStampRefuseOverlap] = useState(true);
 
   // テキストボックス設定
   const [textBoxText, setTextBoxText] = useState('テキスト');
@@ -66,106 +91,129 @@ const TableToolbar: React.FC<TableToolbarProps> = ({
     loadSvgEquipments();
   }, []);
 
-  const handleCreateTable = async () => {
-    if (tableType === 'rectangle') {
-      onCreateTable('rectangle', {
-        width: rectangleWidth, 
-        height: rectangleHeight, 
-        fillColor: fillColor, 
-        strokeColor: strokeColor, 
-        rotationAngle: rotationAngle
-      });
-    } else if (tableType === 'circle') {
-      onCreateTable('circle', {
-        radius: circleRadius, 
-        fillColor: fillColor, 
-        strokeColor: strokeColor
-      });
-    } else if (tableType === 'svg' && selectedSvgTable) {
-      
-      // SVGテーブルを読み込んで作成
+  // ステンシルを無害化して実寸を取得（判別できない場合は作成しない）
+  const prepareStencil = (rawContent: string, filename: string): LoadedStencil | null => {
+    const sanitized = sanitizeSVGContent(rawContent);
+    if (sanitized.content === null) {
+      alert(`${filename} を配置できません: 無効なSVGファイルです`);
+      return null;
+    }
+
+    const result = parseSVGDimensions(sanitized.content);
+    const warnings = result.warnings.map(warning => `${filename}: ${warning.message}`);
+    if (sanitized.removed.length > 0) {
+      warnings.unshift(formatSanitizeWarning(sanitized.removed, filename));
+    }
+    setImportWarnings(warnings);
+
+    if (!result.dimensions) {
+      alert(`${filename} を配置できません: ${result.error ? formatSVGLoadError(result.error) : 'SVGのサイズを判別できません'}`);
+      return null;
+    }
+    return { filename, svgContent: sanitized.content, width: result.dimensions.width, height: result.dimensions.height };
+  };
+
+  // 選択中のプリセットを事前に読み込む（キャンバスへのドラッグは同期的にデータを渡す必要があるため）
+  const selectedStencilFile = tableType === 'svg' ? selectedSvgTable : tableType === 'equipment' ? selectedSvgEquipment : '';
+  useEffect(() => {
+    setLoadedStencil(null);
+    setImportWarnings([]);
+    if (!selectedStencilFile) return;
+
+    let cancelled = false;
+    const directory = tableType === 'svg' ? 'table' : 'equipment';
+    const label = tableType === 'svg' ? 'SVGテーブル' : 'SVG備品';
+
+    const loadStencil = async () => {
       try {
-        const response = await fetch(`/resource/table/${selectedSvgTable}`);
+        const response = await fetch(`/resource/${directory}/${selectedStencilFile}`);
         if (!response.ok) {
-          throw new Error(`SVGファイルの読み込みに失敗しました: ${selectedSvgTable}`);
+          throw new Error(`SVGファイルの読み込みに失敗しました: ${selectedStencilFile}`);
         }
 
-        const svgContent = await response.text();
-        const selectedTable = svgTables.find(table => table.filename === selectedSvgTable);
-
-        if (selectedTable) {
-          // SVGコンテンツから実際の寸法を再取得（最新の情報を使用）
-          const { width, height } = parseSVGDimensions(svgContent);
-
-          onCreateTable('svg', {
-            svgContent,
-            width,
-            height,
-            originalWidth: width,
-            originalHeight: height,
-            filename: selectedTable.filename,
-            rotationAngle: rotationAngle
-          });
-        }
+        const rawContent = await response.text();
+        if (cancelled) return;
+        setLoadedStencil(prepareStencil(rawContent, selectedStencilFile));
       } catch (error) {
-        console.error('SVGテーブルの作成に失敗しました:', error);
-        alert('SVGテーブルの作成に失敗しました。');
+        console.error(`${label}の読み込みに失敗しました:`, error);
+        if (!cancelled) alert(`${label}の読み込みに失敗しました。`);
       }
-    } else if (tableType === 'equipment' && selectedSvgEquipment) {
-      // SVG備品を読み込んで作成
-      try {
-        const response = await fetch(`/resource/equipment/${selectedSvgEquipment}`);
-        if (!response.ok) {
-          throw new Error(`SVGファイルの読み込みに失敗しました: ${selectedSvgEquipment}`);
+    };
+
+    loadStencil();
+    return () => {
+      cancelled = true;
+    };
+  }, [tableType, selectedStencilFile]);
+
+  // 現在の設定からステンシルを作成（作成できない場合はnull）
+  const buildStencil = (): StencilData | null => {
+    if (tableType === 'rectangle') {
+      return {
+        type: 'rectangle',
+        properties: {
+          width: rectangleWidth,
+          height: rectangleHeight,
+          fillColor: fillColor,
+          strokeColor: strokeColor,
+          rotationAngle: rotationAngle
         }
+      };
+    } else if (tableType === 'circle') {
+      return {
+        type: 'circle',
+        properties: {
+          radius: circleRadius,
+          fillColor: fillColor,
+          strokeColor: strokeColor
+        }
+      };
+    } else if (tableType === 'svg' || tableType === 'equipment') {
+      // SVGコンテンツから取得した実際の寸法を使用
+      if (!loadedStencil || loadedStencil.filename !== selectedStencilFile) return null;
+      const { svgContent, width, height, filename } = loadedStencil;
 
-        const svgContent = await response.text();
-        const selectedEquipment = svgEquipments.find(equipment => equipment.filename === selectedSvgEquipment);
-
-        if (selectedEquipment) {
-          // SVGコンテンツから実際の寸法を再取得（最新の情報を使用）
-          const { width, height } = parseSVGDimensions(svgContent);
-
-          onCreateTable('svg', {
-            svgContent,
-            width,
-            height,
-            originalWidth: width,
-            originalHeight: height,
-            filename: selectedEquipment.filename,
-            rotationAngle: rotationAngle
-          });
+      return {
+        type: 'svg',
+        properties: {
+          svgContent,
+          width,
+          height,
+          originalWidth: width,
+          originalHeight: height,
+          filename,
+          rotationAngle: rotationAngle
         }
-      } catch (error) {
-        console.error('SVG備品の作成に失敗しました:', error);
-        alert('SVG備品の作成に失敗しました。');
-      }
+      };
     } else if (tableType === 'textbox') {
       // テキストサイズを計算
       const canvas = document.createElement('canvas');
       const context = canvas.getContext('2d');
-      if (context) {
-        context.font = `${textBoxFontSize}px ${textBoxFontFamily}`;
+      if (!context) return null;
+
+      context.font = `${textBoxFontSize}px ${textBoxFontFamily}`;
 
-        // 改行コードで分割して各行の幅を測定
-        const lines = textBoxText.split(/\r?\n/);
-        const lineHeight = textBoxFontSize;
+      // 改行コードで分割して各行の幅を測定
+      const lines = textBoxText.split(/\r?\n/);
+      const lineHeight = textBoxFontSize;
 
-        let maxWidth = 0;
-        lines.forEach(line => {
-          const textMetrics = context.measureText(line);
-          maxWidth = Math.max(maxWidth, textMetrics.width);
-        });
+      let maxWidth = 0;
+      lines.forEach(line => {
+        const textMetrics = context.measureText(line);
+        maxWidth = Math.max(maxWidth, textMetrics.width);
+      });
 
-        const textWidth = maxWidth * 1.1; //ちょっと広めに確保
-        const textHeight = lineHeight * lines.length;
+      const textWidth = maxWidth * 1.1; //ちょっと広めに確保
+      const textHeight = lineHeight * lines.length;
 
-        // デフォルトパディング（100mm）を含めたサイズ（mmに変換）
-        const paddingMm = 100; // 固定値
-        const widthMm = textWidth + (paddingMm * 2);
-        const heightMm = textHeight + (paddingMm * 2);
+      // デフォルトパディング（100mm）を含めたサイズ（mmに変換）
+      const paddingMm = 100; // 固定値
+      const widthMm = textWidth + (paddingMm * 2);
+      const heightMm = textHeight + (paddingMm * 2);
 
-        onCreateTable('textbox', {
+      return {
+        type: 'textbox',
+        properties: {
           text: textBoxText,
           fontSize: textBoxFontSize,
           fontFamily: textBoxFontFamily,
@@ -173,11 +221,62 @@ const TableToolbar: React.FC<TableToolbarProps> = ({
           height: Math.max(heightMm, 20), // 最小高さ20mm
           textColor: textBoxTextColor,
           rotationAngle: rotationAngle
-        });
-      }
+        }
+      };
+    }
+    return null;
+  };
+
+  const handleCreateTable = () => {
+    const stencil = buildStencil();
+    if (stencil) {
+      onCreateTable(stencil.type, stencil.properties);
+    }
+  };
+
+  // スタンプモードの開始・終了
+  const handleToggleStamp = () => {
+    if (isStampMode) {
+      onEndStamp?.();
+      return;
+    }
+    const stencil = buildStencil();
+    if (stencil) {
+      onStartStamp?.({ stencil, refuseOverlap: stampRefuseOverlap });
+    }
+  };
+
+  // 自動レイアウト（選択中のステンシルを会場に並べる）
+  const handleOpenAutoLayout = () => {
+    const stencil = buildStencil();
+    if (stencil) {
+      onOpenAutoLayout?.(stencil);
+    }
+  };
+
+  // 収容数の最適化（選択中のステンシルが最も多く収まる配置を探す）
+  const handleOpenCapacityOptimizer = () => {
+    const stencil = buildStencil();
+    if (stencil) {
+      onOpenCapacityOptimizer?.(stencil);
+    }
+  };
+
+  // キャンバスへのドラッグ開始
+  const handleDragStart = (e: React.DragEvent) => {
+    const stencil = buildStencil();
+    if (!stencil) {
+      e.preventDefault();
+      return;
     }
+    setStencilDragData(e.dataTransfer, stencil);
   };
 
+  // プリセットは読み込みが終わるまで作成できない
+  const canCreate = tableType === 'svg' || tableType === 'equipment'
+    ? loadedStencil !== null && loadedStencil.filename === selectedStencilFile
+    : !(tableType === 'textbox' && !textBoxText.trim());
+
   return (
     <div className="table-toolbar">
       <h3>ステンシル</h3>
@@ -513,15 +612,90 @@ const TableToolbar: React.FC<TableToolbarProps> = ({
 
       <button
         onClick={handleCreateTable}
-        disabled={
-          (tableType === 'svg' && !selectedSvgTable) ||
-          (tableType === 'equipment' && !selectedSvgEquipment) ||
-          (tableType === 'textbox' && !textBoxText.trim())
-        }
+        disabled={!canCreate}
+        draggable={canCreate}
+        onDragStart={handleDragStart}
+        title="キャンバスへドラッグすると、ドロップした位置に配置します"
          className="btn-action btn-center"
       >
         追加
       </button>
+      <div style={{ fontSize: '0.8rem', color: '#666', textAlign: 'center', marginTop: '0.3rem' }}>
+        ボタンをキャンバスへドラッグして配置することもできます
+      </div>
+
+      {/* スタンプモード（クリックした位置に繰り返し配置） */}
+      {onStartStamp && (
+        <div style={{ marginTop: '0.75rem' }}>
+          <button
+            onClick={handleToggleStamp}
+            disabled={!isStampMode && !canCreate}
+            className={isStampMode ? 'btn-cancel btn-center' : 'btn-action btn-center'}
+          >
+            {isStampMode ? 'スタンプ終了' : 'スタンプ'}
+          </button>
+          <label style={{ display: 'block', fontSize: '0.85rem', marginTop: '0.3rem', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={stampRefuseOverlap}
+              onChange={(e) => setStampRefuseOverlap(e.target.checked)}
+              disabled={isStampMode}
+              style={{ marginRight: '0.5rem' }}
+            />
+            重なる位置には配置しない
+          </label>
+          {isStampMode && (
+            <div style={{ fontSize: '0.8rem', color: '#666', marginTop: '0.3rem' }}>
+              キャンバスをクリックするたびに配置します（Escキーで終了）
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 自動レイアウト */}
+      {onOpenAutoLayout && (
+        <div style={{ marginTop: '0.75rem' }}>
+          <button
+            onClick={handleOpenAutoLayout}
+            disabled={!canCreate || isStampMode}
+            className="btn-action btn-center"
+          >
+            自動レイアウト
+          </button>
+        </div>
+      )}
+
+      {/* 収容数の最適化 */}
+      {onOpenCapacityOptimizer && (
+        <div style={{ marginTop: '0.5rem' }}>
+          <button
+            onClick={handleOpenCapacityOptimizer}
+            disabled={!canCreate || isStampMode}
+            className="btn-action btn-center"
+          >
+            収容数を最適化
+          </button>
+        </div>
+      )}
+
+      {/* ステンシル読み込み時の警告 */}
+      {importWarnings.length > 0 && (
+        <div style={{
+          marginTop: '0.5rem',
+          padding: '0.5rem',
+          backgroundColor: '#fff8e1',
+          border: '1px solid #ffcc80',
+          borderRadius: '4px',
+          fontSize: '0.8rem',
+          color: '#8a6d3b'
+        }}>
+          <ul style={{ margin: 0, paddingLeft: '1rem' }}>
+            {importWarnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
 
       {/*selectedTable && (
         <div className="selected-table-info" style={{ marginTop: '1.5rem', padding: '1rem', backgroundColor: '#f5f5f5', borderRadius: '4px' }}>
@@ -74,6 +74,7 @@ const TextBoxRenderer: React.FC<TextBoxRendererProps> = ({
     <Group>
       {/* 背景とボーダー */}
       <Rect
+        id={id}
         x={x}
         y={y}
         width={scaledWidth}
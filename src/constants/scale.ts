@@ -1,7 +1,12 @@
 // SVGスケール関連の定数
 
 /**
- * SVGファイル読み込み時の拡大倍率
- * SVGの元サイズに対してこの倍率で拡大して処理する
+ * SVGファイル読み込み時の拡大倍率（SVGの1単位あたりのmm）
+ * ステンシルは常にこの倍率で処理する。会場図は読み込み時の既定値で、縮尺調整で会場ごとに変更できる
  */
-export const SVG_SCALE_FACTOR = 10;
\ No newline at end of file
+export const SVG_SCALE_FACTOR = 10;
+
+/**
+ * 縮尺調整で指定できる実寸の最小値（mm）
+ */
+export const MIN_CALIBRATION_DISTANCE = 1;
@@ -0,0 +1,60 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { CapacityOptimizerRequest, CapacityOptimizerResult } from '../types';
+
+interface CapacityOptimizerReturn {
+  result: CapacityOptimizerResult | null;
+  isRunning: boolean;
+  error: string | null;
+  run: (request: CapacityOptimizerRequest) => void;
+  cancel: () => void;
+}
+
+/**
+ * 収容数の最適化フック
+ * 計算はWeb Workerで行い、新しい計算を始めた場合や画面を閉じた場合は前の計算を中止する
+ * cancelは計算を中止し、前の結果も消す（条件を変更した場合など）
+ */
+export const useCapacityOptimizer = (): CapacityOptimizerReturn => {
+  const [result, setResult] = useState<CapacityOptimizerResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const terminate = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const run = useCallback((request: CapacityOptimizerRequest) => {
+    terminate();
+    setResult(null);
+    setError(null);
+    setIsRunning(true);
+
+    const worker = new Worker(new URL('../workers/capacityOptimizer.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (e: MessageEvent<CapacityOptimizerResult>) => {
+      setResult(e.data);
+      setIsRunning(false);
+      terminate();
+    };
+    worker.onerror = (e: ErrorEvent) => {
+      setError(`収容数の計算に失敗しました: ${e.message}`);
+      setIsRunning(false);
+      terminate();
+    };
+    worker.postMessage(request);
+  }, [terminate]);
+
+  const cancel = useCallback(() => {
+    terminate();
+    setResult(null);
+    setIsRunning(false);
+  }, [terminate]);
+
+  // アンマウント時に計算中のWorkerを止める
+  useEffect(() => terminate, [terminate]);
+
+  return { result, isRunning, error, run, cancel };
+};
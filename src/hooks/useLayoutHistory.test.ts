@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useLayoutHistory, type LayoutState } from './useLayoutHistory';
+import type { TableObject } from '../types';
+import { createCircle } from '../test/fixtures';
+
+const createTable = (id: string, x: number): TableObject => createCircle(id, x, 0);
+
+const initialState: LayoutState = { svgData: null, tables: [], boundaryArea: null };
+
+// テーブルを1つ追加するコマンド
+const addTable = (id: string) => ({
+  label: 'テーブルの追加',
+  apply: (state: LayoutState) => ({ ...state, tables: [...state.tables, createTable(id, 0)] })
+});
+
+// テーブルを移動するコマンド（coalesceKeyで連続した移動をまとめる）
+const moveTable = (id: string, x: number) => ({
+  label: 'オブジェクトの移動',
+  apply: (state: LayoutState) => ({
+    ...state,
+    tables: state.tables.map(table => table.id === id ? { ...table, position: { x, y: 0 } } : table)
+  }),
+  coalesceKey: `move:${id}`
+});
+
+describe('useLayoutHistory', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('コマンドを実行すると元に戻す・やり直しができる', () => {
+    const { result } = renderHook(() => useLayoutHistory(initialState));
+
+    act(() => result.current.execute(addTable('a')));
+    expect(result.current.state.tables).toHaveLength(1);
+    expect(result.current.canUndo).toBe(true);
+    expect(result.current.undoLabel).toBe('テーブルの追加');
+
+    act(() => result.current.undo());
+    expect(result.current.state.tables).toHaveLength(0);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.redoLabel).toBe('テーブルの追加');
+
+    act(() => result.current.redo());
+    expect(result.current.state.tables).toHaveLength(1);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('状態を変更しないコマンドは履歴に残さない', () => {
+    const { result } = renderHook(() => useLayoutHistory(initialState));
+
+    act(() => result.current.execute({ label: '何もしない', apply: state => state }));
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('新しいコマンドを実行するとやり直しの履歴を破棄する', () => {
+    const { result } = renderHook(() => useLayoutHistory(initialState));
+
+    act(() => result.current.execute(addTable('a')));
+    act(() => result.current.undo());
+    act(() => result.current.execute(addTable('b')));
+
+    expect(result.current.canRedo).toBe(false);
+    expect(result.current.state.tables.map(table => table.id)).toEqual(['b']);
+  });
+
+  it('同じキーのコマンドが一定時間内に続いた場合は1つの履歴にまとめる', () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+    const { result } = renderHook(() => useLayoutHistory(initialState));
+
+    act(() => result.current.execute(addTable('a')));
+    now.mockReturnValue(100);
+    act(() => result.current.execute(moveTable('a', 100)));
+    now.mockReturnValue(500);
+    act(() => result.current.execute(moveTable('a', 200)));
+
+    expect(result.current.state.tables[0].position.x).toBe(200);
+
+    // 2回の移動がまとめて元に戻る
+    act(() => result.current.undo());
+    expect(result.current.state.tables[0].position.x).toBe(0);
+    expect(result.current.undoLabel).toBe('テーブルの追加');
+  });
+
+  it('一定時間を過ぎた同じキーのコマンドは別の履歴にする', () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+    const { result } = renderHook(() => useLayoutHistory(initialState, { coalesceInterval: 1000 }));
+
+    act(() => result.current.execute(addTable('a')));
+    act(() => result.current.execute(moveTable('a', 100)));
+    now.mockReturnValue(2000);
+    act(() => result.current.execute(moveTable('a', 200)));
+
+    act(() => result.current.undo());
+    expect(result.current.state.tables[0].position.x).toBe(100);
+  });
+
+  it('履歴の上限を超えた古い履歴は破棄する', () => {
+    const { result } = renderHook(() => useLayoutHistory(initialState, { maxHistorySize: 2 }));
+
+    act(() => result.current.execute(addTable('a')));
+    act(() => result.current.execute(addTable('b')));
+    act(() => result.current.execute(addTable('c')));
+
+    act(() => result.current.undo());
+    act(() => result.current.undo());
+    act(() => result.current.undo());
+    expect(result.current.state.tables.map(table => table.id)).toEqual(['a']);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('resetで履歴を消去する', () => {
+    const { result } = renderHook(() => useLayoutHistory(initialState));
+
+    act(() => result.current.execute(addTable('a')));
+    act(() => result.current.reset({ ...initialState, tables: [createTable('x', 0)] }));
+
+    expect(result.current.state.tables.map(table => table.id)).toEqual(['x']);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import { useReducer, useCallback } from 'react';
+import type { SVGData, TableObject, BoundaryArea } from '../types';
+
+/**
+ * 履歴管理の対象となるレイアウト状態
+ */
+export interface LayoutState {
+  svgData: SVGData | null;
+  tables: TableObject[];
+  boundaryArea: BoundaryArea | null;
+}
+
+/**
+ * レイアウトを変更するコマンド
+ * applyは現在の状態から新しい状態を返す純粋関数とする
+ */
+export interface LayoutCommand {
+  label: string;
+  apply: (state: LayoutState) => LayoutState;
+  // 同じキーのコマンドが短時間に連続した場合は1つの履歴にまとめる（ドラッグ移動など）
+  coalesceKey?: string;
+}
+
+interface HistoryEntry {
+  label: string;
+  state: LayoutState;
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  present: LayoutState;
+  future: HistoryEntry[];
+}
+
+type HistoryAction =
+  | { type: 'execute'; command: LayoutCommand; timestamp: number; maxHistorySize: number; coalesceInterval: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; state: LayoutState };
+
+interface LayoutHistoryOptions {
+  maxHistorySize?: number;
+  coalesceInterval?: number;
+}
+
+interface LayoutHistoryReturn {
+  state: LayoutState;
+  execute: (command: LayoutCommand) => void;
+  undo: () => void;
+  redo: () => void;
+  reset: (state: LayoutState) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+const historyReducer = (history: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'execute': {
+      const { command, timestamp, maxHistorySize, coalesceInterval } = action;
+      const nextPresent = command.apply(history.present);
+      if (nextPresent === history.present) {
+        return history;
+      }
+
+      // 直前の履歴と同じキーで、かつ一定時間内なら履歴をまとめる
+      const lastEntry = history.past[history.past.length - 1];
+      if (
+        command.coalesceKey &&
+        lastEntry &&
+        lastEntry.coalesceKey === command.coalesceKey &&
+        timestamp - lastEntry.timestamp <= coalesceInterval &&
+        history.future.length === 0
+      ) {
+        return {
+          past: [...history.past.slice(0, -1), { ...lastEntry, timestamp }],
+          present: nextPresent,
+          future: []
+        };
+      }
+
+      const entry: HistoryEntry = {
+        label: command.label,
+        state: history.present,
+        coalesceKey: command.coalesceKey,
+        timestamp
+      };
+
+      return {
+        past: [...history.past, entry].slice(-maxHistorySize),
+        present: nextPresent,
+        future: []
+      };
+    }
+
+    case 'undo': {
+      const entry = history.past[history.past.length - 1];
+      if (!entry) return history;
+
+      return {
+        past: history.past.slice(0, -1),
+        present: entry.state,
+        future: [{ ...entry, state: history.present }, ...history.future]
+      };
+    }
+
+    case 'redo': {
+      const entry = history.future[0];
+      if (!entry) return history;
+
+      return {
+        past: [...history.past, { ...entry, state: history.present }],
+        present: entry.state,
+        future: history.future.slice(1)
+      };
+    }
+
+    case 'reset':
+      return { past: [], present: action.state, future: [] };
+
+    default:
+      return history;
+  }
+};
+
+/**
+ * レイアウト変更の履歴管理フック
+ * コマンド単位で状態を記録し、元に戻す／やり直しを提供
+ */
+export const useLayoutHistory = (
+  initialState: LayoutState,
+  options: LayoutHistoryOptions = {}
+): LayoutHistoryReturn => {
+  const {
+    maxHistorySize = 100,
+    coalesceInterval = 1000
+  } = options;
+
+  const [history, dispatch] = useReducer(historyReducer, {
+    past: [],
+    present: initialState,
+    future: []
+  });
+
+  const execute = useCallback((command: LayoutCommand) => {
+    dispatch({ type: 'execute', command, timestamp: Date.now(), maxHistorySize, coalesceInterval });
+  }, [maxHistorySize, coalesceInterval]);
+
+  const undo = useCallback(() => {
+    dispatch({ type: 'undo' });
+  }, []);
+
+  const redo = useCallback(() => {
+    dispatch({ type: 'redo' });
+  }, []);
+
+  const reset = useCallback((state: LayoutState) => {
+    dispatch({ type: 'reset', state });
+  }, []);
+
+  return {
+    state: history.present,
+    execute,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null
+  };
+};
@@ -0,0 +1,87 @@
+/**
+ * テスト用のオブジェクトを作成するヘルパー
+ */
+
+import type { TableObject, Position, RectangleProps, CircleProps } from '../types';
+
+interface TableOptions {
+  groupId?: string;
+  locked?: boolean;
+  zIndex?: number;
+}
+
+/**
+ * 長方形のプロパティ（ステンシルや読み込み前のデータにも使う）
+ */
+export const createRectangleProps = (width: number, height: number, rotationAngle = 0): RectangleProps => ({
+  width,
+  height,
+  fillColor: '#fff',
+  strokeColor: '#000',
+  rotationAngle
+});
+
+/**
+ * 円のプロパティ
+ */
+export const createCircleProps = (radius: number): CircleProps => ({
+  radius,
+  fillColor: '#fff',
+  strokeColor: '#000'
+});
+
+/**
+ * 中心(x, y)の長方形（既定は幅1000mm・高さ200mm）
+ */
+export const createRectangle = (
+  id: string,
+  x: number,
+  y: number,
+  options: TableOptions & { width?: number; height?: number; rotationAngle?: number } = {}
+): TableObject => {
+  const { width = 1000, height = 200, rotationAngle = 0, zIndex = 0, ...rest } = options;
+  return {
+    id,
+    type: 'rectangle',
+    position: { x, y },
+    properties: createRectangleProps(width, height, rotationAngle),
+    zIndex,
+    ...rest
+  };
+};
+
+/**
+ * 中心(x, y)の円（既定は半径500mm）
+ */
+export const createCircle = (
+  id: string,
+  x: number,
+  y: number,
+  options: TableOptions & { radius?: number } = {}
+): TableObject => {
+  const { radius = 500, zIndex = 0, ...rest } = options;
+  return {
+    id,
+    type: 'circle',
+    position: { x, y },
+    properties: createCircleProps(radius),
+    zIndex,
+    ...rest
+  };
+};
+
+/**
+ * 2つのオブジェクトの間の縮尺（寸法線）
+ */
+export const createScale = (
+  id: string,
+  firstTableId: string,
+  secondTableId: string,
+  position: Position = { x: 0, y: 0 }
+): TableObject => ({
+  id,
+  type: 'scale',
+  position,
+  properties: { firstTableId, secondTableId },
+  zIndex: 0
+});
@@ -0,0 +1,21 @@
+/**
+ * SVGの解析・書き出しを実際に行うテスト用のヘルパー
+ */
+
+import { beforeAll, afterAll, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+
+/**
+ * setup.tsでモックしているDOMParser・XMLSerializerを、テストファイルの間だけjsdomの実装に置き換える
+ */
+export const withRealXMLParser = (): void => {
+  beforeAll(() => {
+    const { window } = new JSDOM('');
+    vi.stubGlobal('DOMParser', window.DOMParser);
+    vi.stubGlobal('XMLSerializer', window.XMLSerializer);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+};
@@ -20,6 +20,8 @@ export interface SVGData {
   viewBox: ViewBox;         // SVGビューボックス
   bounds: BoundingBox;      // 境界情報
   fileName: string;
+  scaleFactor?: number;     // SVGの1単位あたりのmm（未設定の場合はSVG_SCALE_FACTOR）
+  locked?: boolean;         // ロック中は会場図の差し替え・縮尺調整・境界エリアの変更を受け付けない
 }
 
 // 位置情報の型定義
@@ -84,8 +86,95 @@ export interface TableObject {
   type: 'rectangle' | 'circle' | 'svg' | 'textbox' | 'scale';
   position: Position;
   properties: RectangleProps | CircleProps | SVGTableProps | TextBoxProps | ScaleProps;
+  zIndex: number;  // 描画順（大きいほど前面）
+  locked?: boolean;  // ロック中は移動・整列の対象外
+  groupId?: string;  // 同じgroupIdのオブジェクトは1つのまとまりとして扱う
 }
 
+// ツールバーから作成するオブジェクトの種類とプロパティ
+export type StencilData =
+  | { type: 'rectangle'; properties: RectangleProps }
+  | { type: 'circle'; properties: CircleProps }
+  | { type: 'svg'; properties: SVGTableProps }
+  | { type: 'textbox'; properties: TextBoxProps };
+
+// スタンプモード（クリックした位置に同じステンシルを繰り返し配置）の設定
+export interface StampSettings {
+  stencil: StencilData;
+  refuseOverlap: boolean;  // 既存のオブジェクトと重なる位置には配置しない
+}
+
+// 縦横に並べて複製する設定（間隔は外接矩形どうしの隙間）
+export interface ArrayDuplicateSettings {
+  columns: number;         // 横に並べる数（元のオブジェクトを含む）
+  rows: number;            // 縦に並べる数（元のオブジェクトを含む）
+  horizontalGap: number;   // mm単位
+  verticalGap: number;     // mm単位
+  stagger: number;         // 1行おきに横へずらす量（mm単位）
+  horizontalDirection: 'left' | 'right';
+  verticalDirection: 'up' | 'down';
+}
+
+// 円形・円弧状に並べて複製する設定（角度は右方向を0°とした時計回り）
+export interface RadialDuplicateSettings {
+  center: Position;        // mm単位
+  radius: number;          // mm単位
+  count: number;           // 複製する数
+  startAngle: number;      // 度
+  endAngle: number;        // 度
+  faceCenter: boolean;     // 上辺が中心を向くように回転する
+}
+
+// 自動レイアウトの形式とステージの位置
+export type AutoLayoutStyle = 'theatre' | 'classroom' | 'banquet' | 'cabaret' | 'ushape' | 'boardroom' | 'reception';
+export type StagePosition = 'top' | 'bottom' | 'left' | 'right' | 'none';
+
+// 自動レイアウトの設定（距離はmm単位）
+export interface AutoLayoutSettings {
+  style: AutoLayoutStyle;
+  guestCount: number;
+  seatsPerTable: number;   // ステンシル1つあたりの席数
+  rowGap: number;          // 列（ステージから見た奥行き方向）の間隔
+  columnGap: number;       // 横に並ぶオブジェクトの間隔
+  centerAisle: number;     // 中央通路の幅（0の場合は通路なし）
+  sideAisle: number;       // 壁際の通路の幅
+  stagePosition: StagePosition;
+  stageClearance: number;  // ステージ側に空ける奥行き
+  avoidExisting: boolean;  // 既存のオブジェクトと重なる位置には配置しない
+}
+
+export interface AutoLayoutResult {
+  tables: TableObject[];
+  seats: number;           // 配置した席数
+  capacity: number;        // エリアに収まる最大の席数
+}
+
+// 収容数の最適化の条件（距離はmm単位）
+export interface CapacityOptimizerRequest {
+  stencil: StencilData;
+  area: BoundaryArea;
+  clearance: number;       // ステンシル同士の最小間隔
+  obstacles: TableObject[]; // 避けるオブジェクト（ステージなど）
+}
+
+export interface CapacityOptimizerResult {
+  tables: TableObject[];
+  rotation: number;        // ステンシルに加えた回転（度）
+  staggered: boolean;      // 列ごとに半分ずらした配置か
+  truncated: boolean;      // 配置する数の上限に達したため、並べきれていないか
+}
+
+// 範囲選択の方法と、既存の選択との組み合わせ方
+export type AreaSelectionTool = 'marquee' | 'lasso';
+export type AreaSelectionMode = 'replace' | 'add' | 'subtract';
+
+// 描画順の変更操作の型定義
+export type ZOrderOperation = 'bringToFront' | 'bringForward' | 'sendBackward' | 'sendToBack';
+
+// 均等配置の方向と方法（centers: 中心を等間隔、gaps: 隙間を等しく）
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type DistributeMode = 'centers' | 'gaps';
+
 // エラー情報の型定義
 export interface SVGLoadError {
   type: 'file' | 'parse' | 'validation' | 'size';
@@ -93,6 +182,28 @@ export interface SVGLoadError {
   details?: string;
 }
 
+// SVG寸法の解析結果の型定義
+export interface SVGDimensionWarning {
+  code: 'missing-size' | 'invalid-size' | 'unsupported-unit' | 'invalid-viewbox';
+  attribute: 'width' | 'height' | 'viewBox';
+  value: string | null;  // 元の属性値
+  message: string;
+}
+
+export interface SVGDimensions {
+  width: number;         // mm単位
+  height: number;        // mm単位
+  viewBox: ViewBox;      // SVGの座標系（viewBoxが無い場合はwidth/heightから算出）
+  scaleFactor: number;   // SVGの1単位あたりのmm
+}
+
+export interface SVGDimensionResult {
+  success: boolean;
+  dimensions?: SVGDimensions;
+  error?: SVGLoadError;
+  warnings: SVGDimensionWarning[];
+}
+
 // ドラッグ状態の型定義（要件4.1, 4.2対応）
 export interface DragState {
   tableId: string;
@@ -120,7 +231,6 @@ export interface TableState {
   isSelected: boolean;
   isDragging: boolean;
   lastInteraction: number;
-  renderPriority: number;
   dragState?: DragState;
 }
 
@@ -147,6 +257,11 @@ export interface BoundaryViolation {
   severity: 'warning' | 'error';
 }
 
+// レイアウトの問題点（重なっているオブジェクトの組、境界エリアからはみ出したオブジェクト）
+export type LayoutProblem =
+  | { type: 'overlap'; ids: [string, string] }
+  | { type: 'boundary'; ids: [string]; result: BoundaryCheckResult };
+
 export interface TableBounds {
   minX: number;
   minY: number;
@@ -192,6 +307,26 @@ export interface ProjectInfo {
   version: string;
 }
 
+// グリッド設定の型定義
+export interface GridSettings {
+  gridSize: number;      // mm単位
+  snapEnabled: boolean;
+  gridVisible: boolean;
+}
+
+// 表示領域（ズーム・パン）の型定義
+export interface ViewportState {
+  scale: number;  // ユーザー指定の拡大率
+  panX: number;   // ピクセル単位
+  panY: number;   // ピクセル単位
+}
+
+// 編集環境設定の型定義
+export interface EditorSettings {
+  grid: GridSettings;
+  viewport: ViewportState;
+}
+
 export interface ProjectData {
   projectInfo: ProjectInfo;
   venue: {
@@ -201,8 +336,10 @@ export interface ProjectData {
       width: number;
       height: number;
     };
+    boundaryArea?: BoundaryArea;
   };
   tables: TableObject[];
+  editorSettings?: EditorSettings;
 }
 
 // 保存・読み込み関連の型定義
@@ -211,6 +348,17 @@ export interface LoadResult {
   data?: ProjectData;
   error?: string;
   warnings?: string[];
+  notes?: string[];     // 古いバージョンからの変換など、確認の不要なお知らせ
+  tableReports?: TableValidationReport[];
+}
+
+// オブジェクト単位の検証結果の型定義
+export interface TableValidationReport {
+  index: number;        // ファイル内での位置（0始まり）
+  tableId?: string;
+  type?: string;
+  errors: string[];     // 修復できない問題（オブジェクトは読み込まれない）
+  repairs: string[];    // 既定値などで修復した項目
 }
 
 // 外接図形の四隅の座標を表す型定義
@@ -269,3 +417,37 @@ export function circumscriptionSizeFull(tableObj: TableObject): {
   }
 }
 
+// 複数オブジェクト（グループなど）をまとめた外接矩形のサイズと四隅の座標を取得する関数
+export function circumscriptionSizeFullForTables(tableObjs: TableObject[]): {
+  width: number;
+  height: number;
+  corners: CircumscriptionCorners;
+} {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  tableObjs.forEach(tableObj => {
+    const { corners } = circumscriptionSizeFull(tableObj);
+    minX = Math.min(minX, corners.topLeft.x);
+    minY = Math.min(minY, corners.topLeft.y);
+    maxX = Math.max(maxX, corners.bottomRight.x);
+    maxY = Math.max(maxY, corners.bottomRight.y);
+  });
+
+  if (tableObjs.length === 0) {
+    minX = minY = maxX = maxY = 0;
+  }
+
+  return {
+    width: maxX - minX,
+    height: maxY - minY,
+    corners: {
+      topLeft: { x: minX, y: minY },
+      topRight: { x: maxX, y: minY },
+      bottomLeft: { x: minX, y: maxY },
+      bottomRight: { x: maxX, y: maxY },
+    }
+  };
+}
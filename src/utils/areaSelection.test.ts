@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { rectangleToPolygon, isPointInPolygon, findTablesInArea } from './areaSelection';
+import { createCircle, createScale } from '../test/fixtures';
+
+// L字型の投げ縄
+const lShape = [
+    { x: 0, y: 0 },
+    { x: 1000, y: 0 },
+    { x: 1000, y: 400 },
+    { x: 400, y: 400 },
+    { x: 400, y: 1000 },
+    { x: 0, y: 1000 }
+];
+
+describe('rectangleToPolygon', () => {
+    it('右上から左下へのドラッグでも矩形になる', () => {
+        const polygon = rectangleToPolygon({ x: 100, y: 0 }, { x: 0, y: 100 });
+        expect(isPointInPolygon({ x: 50, y: 50 }, polygon)).toBe(true);
+        expect(isPointInPolygon({ x: 150, y: 50 }, polygon)).toBe(false);
+    });
+});
+
+describe('isPointInPolygon', () => {
+    it('凹んだ多角形の内側と外側を判定する', () => {
+        expect(isPointInPolygon({ x: 200, y: 800 }, lShape)).toBe(true);
+        expect(isPointInPolygon({ x: 800, y: 200 }, lShape)).toBe(true);
+        expect(isPointInPolygon({ x: 800, y: 800 }, lShape)).toBe(false);
+    });
+});
+
+describe('findTablesInArea', () => {
+    const tables = [createCircle('far', 200, 800, { radius: 300 }), createCircle('near', 200, 200, { radius: 300 }), createCircle('outside', 800, 800, { radius: 300 }), createCircle('right', 800, 200, { radius: 300 })];
+
+    it('中心が範囲に入っているオブジェクトをドラッグの始点に近い順に返す', () => {
+        expect(findTablesInArea(tables, lShape, { x: 100, y: 0 })).toEqual(['near', 'right', 'far']);
+        expect(findTablesInArea(tables, lShape, { x: 0, y: 1000 })).toEqual(['far', 'near', 'right']);
+    });
+
+    it('縮尺（寸法線）は対象外', () => {
+        const scale = createScale('s', 'near', 'far', { x: 100, y: 100 });
+        expect(findTablesInArea([scale], lShape, { x: 0, y: 0 })).toEqual([]);
+    });
+
+    it('3点未満の範囲では何も選択しない', () => {
+        expect(findTablesInArea(tables, lShape.slice(0, 2), { x: 0, y: 0 })).toEqual([]);
+    });
+});
@@ -0,0 +1,52 @@
+import type { TableObject, Position } from '../types/index';
+
+/**
+ * 範囲選択（矩形・投げ縄）
+ * 中心が選択範囲に入っているオブジェクトを選択する
+ */
+
+// これより短いドラッグはクリックとして扱う（画面上のpx）
+export const MIN_SELECTION_DRAG_DISTANCE = 3;
+
+/**
+ * 2点を対角とする矩形を多角形として取得
+ */
+export const rectangleToPolygon = (start: Position, end: Position): Position[] => [
+    { x: start.x, y: start.y },
+    { x: end.x, y: start.y },
+    { x: end.x, y: end.y },
+    { x: start.x, y: end.y }
+];
+
+/**
+ * 点が多角形の内側にあるか（交差数判定）
+ */
+export const isPointInPolygon = (point: Position, polygon: Position[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y) &&
+            point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/**
+ * 選択範囲に中心が入っているオブジェクトのIDを取得
+ * 最初のオブジェクトが整列の基準になるため、ドラッグを始めた点に近い順に並べる
+ * 縮尺（寸法線）は参照先のオブジェクトに従って描画されるため対象外
+ */
+export const findTablesInArea = (tables: TableObject[], polygon: Position[], origin: Position): string[] => {
+    if (polygon.length < 3) return [];
+
+    const distance = (table: TableObject) =>
+        Math.hypot(table.position.x - origin.x, table.position.y - origin.y);
+
+    return tables
+        .filter(table => table.type !== 'scale' && isPointInPolygon(table.position, polygon))
+        .sort((a, b) => distance(a) - distance(b))
+        .map(table => table.id);
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { getArrayOffsets, createArrayCopies } from './arrayDuplicate';
+import type { ArrayDuplicateSettings } from '../types/index';
+import { createRectangle, createScale } from '../test/fixtures';
+
+const settings: ArrayDuplicateSettings = {
+    columns: 3,
+    rows: 2,
+    horizontalGap: 100,
+    verticalGap: 200,
+    stagger: 0,
+    horizontalDirection: 'right',
+    verticalDirection: 'down'
+};
+
+describe('getArrayOffsets', () => {
+    it('元のオブジェクトを除いた行数×列数の移動量を返す', () => {
+        expect(getArrayOffsets({ width: 1000, height: 500 }, settings)).toEqual([
+            { x: 1100, y: 0 },
+            { x: 2200, y: 0 },
+            { x: 0, y: 700 },
+            { x: 1100, y: 700 },
+            { x: 2200, y: 700 }
+        ]);
+    });
+
+    it('左・上方向に並べる', () => {
+        const offsets = getArrayOffsets({ width: 1000, height: 500 }, {
+            ...settings, columns: 2, horizontalDirection: 'left', verticalDirection: 'up'
+        });
+        // 1行目・1列目は 0 × 負の間隔で -0 になるため、+0 にそろえて比較する
+        expect(offsets.map(({ x, y }) => ({ x: x + 0, y: y + 0 }))).toEqual([
+            { x: -1100, y: 0 },
+            { x: 0, y: -700 },
+            { x: -1100, y: -700 }
+        ]);
+    });
+
+    it('1行おきに並べる方向へずらす', () => {
+        const right = getArrayOffsets({ width: 1000, height: 500 }, { ...settings, columns: 1, rows: 3, stagger: 300 });
+        expect(right).toEqual([{ x: 300, y: 700 }, { x: 0, y: 1400 }]);
+
+        const left = getArrayOffsets({ width: 1000, height: 500 }, { ...settings, columns: 1, rows: 2, stagger: 300, horizontalDirection: 'left' });
+        expect(left).toEqual([{ x: -300, y: 700 }]);
+    });
+});
+
+describe('createArrayCopies', () => {
+    it('選択全体の外接矩形を1つのまとまりとして並べる', () => {
+        const copies = createArrayCopies([createRectangle('a', 0, 0), createRectangle('b', 1500, 0)], { ...settings, rows: 1, columns: 2 });
+
+        // 外接矩形の幅は2500mm
+        expect(copies.map(copy => copy.position.x)).toEqual([2600, 4100]);
+        expect(new Set(copies.map(copy => copy.id)).size).toBe(2);
+        expect(copies.every(copy => copy.id !== 'a' && copy.id !== 'b')).toBe(true);
+    });
+
+    it('複製ごとに別のグループにする', () => {
+        const copies = createArrayCopies([createRectangle('a', 0, 0, { groupId: 'g' }), createRectangle('b', 1500, 0, { groupId: 'g' })], { ...settings, rows: 1, columns: 3 });
+        const groupIds = copies.map(copy => copy.groupId);
+
+        expect(groupIds[0]).toBe(groupIds[1]);
+        expect(groupIds[2]).toBe(groupIds[3]);
+        expect(groupIds[0]).not.toBe(groupIds[2]);
+        expect(groupIds).not.toContain('g');
+    });
+
+    it('縮尺（寸法線）は複製しない', () => {
+        const scale = createScale('s', 'a', 'b');
+        expect(createArrayCopies([scale], settings)).toEqual([]);
+        expect(createArrayCopies([createRectangle('a', 0, 0), scale], settings).every(copy => copy.type === 'rectangle')).toBe(true);
+    });
+});
@@ -0,0 +1,58 @@
+import type { TableObject, Position, ArrayDuplicateSettings } from '../types/index';
+import { getTablesBounds, remapGroupIds } from './groupUtils';
+
+/**
+ * 縦横の配列複製
+ *
+ * 選択したオブジェクト全体（グループを含む）の外接矩形を1つのまとまりとして、
+ * 指定した行数×列数に並べた複製を作る。元のオブジェクトは最初の行・列に含まれる。
+ */
+
+// 一度に作成できる行数・列数の上限
+export const MAX_ARRAY_COUNT = 50;
+
+/**
+ * 元の位置から各複製までの移動量（元のオブジェクトの位置は含まない）
+ */
+export const getArrayOffsets = (
+    size: { width: number; height: number },
+    settings: ArrayDuplicateSettings
+): Position[] => {
+    const stepX = (size.width + settings.horizontalGap) * (settings.horizontalDirection === 'right' ? 1 : -1);
+    const stepY = (size.height + settings.verticalGap) * (settings.verticalDirection === 'down' ? 1 : -1);
+    const stagger = settings.stagger * (settings.horizontalDirection === 'right' ? 1 : -1);
+
+    const offsets: Position[] = [];
+    for (let row = 0; row < settings.rows; row++) {
+        for (let column = 0; column < settings.columns; column++) {
+            if (row === 0 && column === 0) continue;
+            offsets.push({
+                x: stepX * column + (row % 2 === 1 ? stagger : 0),
+                y: stepY * row
+            });
+        }
+    }
+    return offsets;
+};
+
+/**
+ * 配列複製のオブジェクトを作成
+ * 縮尺（寸法線）は元のオブジェクトを参照するため複製しない
+ */
+export const createArrayCopies = (tables: TableObject[], settings: ArrayDuplicateSettings): TableObject[] => {
+    const sources = tables.filter(table => table.type !== 'scale');
+    if (sources.length === 0) return [];
+
+    const bounds = getTablesBounds(sources);
+    return getArrayOffsets(bounds, settings).flatMap((offset, copyIndex) =>
+        // 複製ごとに別のグループにする
+        remapGroupIds(sources.map((table, tableIndex) => ({
+            ...table,
+            id: `table_${Date.now()}_${copyIndex}_${tableIndex}_${Math.random().toString(36).substring(2, 9)}`,
+            position: {
+                x: table.position.x + offset.x,
+                y: table.position.y + offset.y
+            }
+        })))
+    );
+};
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { generateAutoLayout } from './autoLayout';
+import { findOverlappingTables } from './overlap';
+import type { TableObject, StencilData, AutoLayoutSettings, RectangleProps } from '../types/index';
+import { createRectangle, createRectangleProps, createCircleProps } from '../test/fixtures';
+
+// 500mm角の椅子
+const chair: StencilData = {
+    type: 'rectangle',
+    properties: createRectangleProps(500, 500)
+};
+
+// 1800×600mmの長机
+const desk: StencilData = {
+    type: 'rectangle',
+    properties: createRectangleProps(1800, 600)
+};
+
+const theatre: AutoLayoutSettings = {
+    style: 'theatre',
+    guestCount: 0,
+    seatsPerTable: 1,
+    rowGap: 450,
+    columnGap: 0,
+    centerAisle: 0,
+    sideAisle: 500,
+    stagePosition: 'top',
+    stageClearance: 1000,
+    avoidExisting: false
+};
+
+// 配置できる範囲は横4000mm・奥行き1500mm（8席×2列）
+const area = { x: 0, y: 0, width: 5000, height: 3000 };
+
+const rotationOf = (table: TableObject) => (table.properties as RectangleProps).rotationAngle;
+
+describe('generateAutoLayout', () => {
+    it('人数が0の場合はエリアに収まるだけ並べる', () => {
+        const result = generateAutoLayout(chair, area, theatre);
+
+        expect(result.tables).toHaveLength(16);
+        expect(result.seats).toBe(16);
+        expect(result.capacity).toBe(16);
+        expect(new Set(result.tables.map(table => table.position.y))).toEqual(new Set([1250, 2200]));
+        expect(new Set(result.tables.map(table => table.id)).size).toBe(16);
+    });
+
+    it('人数分だけステージに近い列から並べる', () => {
+        const result = generateAutoLayout(chair, area, { ...theatre, guestCount: 10 });
+
+        expect(result.tables).toHaveLength(10);
+        expect(result.seats).toBe(10);
+        expect(result.capacity).toBe(16);
+        expect(result.tables.slice(0, 8).every(table => table.position.y === 1250)).toBe(true);
+    });
+
+    it('中央通路を空けて左右に分ける', () => {
+        const result = generateAutoLayout(chair, area, { ...theatre, centerAisle: 1000 });
+
+        expect(result.tables).toHaveLength(12);
+        expect(result.tables.every(table => table.position.x <= 1750 || table.position.x >= 3250)).toBe(true);
+    });
+
+    it('ステージの位置に合わせて配置とステンシルを回転する', () => {
+        const bottom = generateAutoLayout(chair, area, { ...theatre, stagePosition: 'bottom' });
+        expect(new Set(bottom.tables.map(table => table.position.y))).toEqual(new Set([1750, 800]));
+        expect(bottom.tables.every(table => rotationOf(table) === 180)).toBe(true);
+
+        const left = generateAutoLayout(chair, area, { ...theatre, stagePosition: 'left' });
+        expect(left.tables.every(table => rotationOf(table) === 270)).toBe(true);
+        expect(Math.min(...left.tables.map(table => table.position.x))).toBe(1250);
+    });
+
+    it('円は回転しない', () => {
+        const roundTable: StencilData = { type: 'circle', properties: createCircleProps(900) };
+        const result = generateAutoLayout(roundTable, { x: 0, y: 0, width: 10000, height: 10000 }, {
+            ...theatre, style: 'banquet', stagePosition: 'bottom', rowGap: 1500, columnGap: 1500
+        });
+
+        expect(result.tables.length).toBeGreaterThan(0);
+        expect(result.tables.every(table => table.properties === roundTable.properties)).toBe(true);
+    });
+
+    it('カバレット・立食は1列おきに半分ずらす', () => {
+        const result = generateAutoLayout(chair, area, { ...theatre, style: 'reception', rowGap: 450 });
+        const firstRow = result.tables.filter(table => table.position.y === 1250).map(table => table.position.x);
+        const secondRow = result.tables.filter(table => table.position.y === 2200).map(table => table.position.x);
+
+        expect(firstRow).toContain(750);
+        expect(secondRow).toContain(1000);
+        expect(secondRow).toHaveLength(7);
+    });
+
+    it('コの字は必要な数を満たす中で奥と左右の長さが近い形にする', () => {
+        const result = generateAutoLayout(desk, { x: 0, y: 0, width: 10000, height: 8000 }, {
+            ...theatre, style: 'ushape', guestCount: 12, seatsPerTable: 2, sideAisle: 0, stageClearance: 0
+        });
+
+        // 奥2つ・左右2つずつ
+        expect(result.tables).toHaveLength(6);
+        expect(result.tables.filter(table => rotationOf(table) === 90)).toHaveLength(4);
+        expect(result.capacity).toBe(24);
+    });
+
+    it('ロの字は2列を背中合わせにしてエリアの中央に置く', () => {
+        const result = generateAutoLayout(desk, { x: 0, y: 0, width: 10000, height: 8000 }, {
+            ...theatre, style: 'boardroom', guestCount: 12, seatsPerTable: 2, sideAisle: 0, stageClearance: 0
+        });
+
+        expect(result.tables).toHaveLength(6);
+        expect(new Set(result.tables.map(table => table.position.y))).toEqual(new Set([3700, 4300]));
+        expect(result.tables.map(table => table.position.x).sort((a, b) => a - b)).toEqual([3200, 3200, 5000, 5000, 6800, 6800]);
+        expect(result.capacity).toBe(20);
+    });
+
+    it('コの字・ロの字の収容人数は既存のオブジェクトと重ならない位置から求める', () => {
+        const ushape: AutoLayoutSettings = { ...theatre, style: 'ushape', guestCount: 12, seatsPerTable: 2, sideAisle: 0, stageClearance: 0 };
+        // 左側の一番ステージ寄りの位置をふさぐ
+        const pillar = createRectangle('pillar', 1100, 900, { width: 200, height: 200 });
+
+        expect(generateAutoLayout(desk, { x: 0, y: 0, width: 10000, height: 8000 }, ushape, [pillar]).capacity).toBe(24);
+        expect(generateAutoLayout(desk, { x: 0, y: 0, width: 10000, height: 8000 }, { ...ushape, avoidExisting: true }, [pillar]).capacity).toBe(22);
+
+        // ロの字（エリアいっぱいで5列×2）は中央の列の2つをふさぐ
+        const boardroom: AutoLayoutSettings = { ...ushape, style: 'boardroom', avoidExisting: true };
+        const table = createRectangle('table', 5000, 4000, { width: 200, height: 200 });
+        expect(generateAutoLayout(desk, { x: 0, y: 0, width: 10000, height: 8000 }, boardroom, [table]).capacity).toBe(16);
+    });
+
+    it('既存のオブジェクトと重なる位置を避ける', () => {
+        const stage = createRectangle('stage', 2500, 1250, { width: 900, height: 400 });
+
+        expect(generateAutoLayout(chair, area, theatre, [stage]).tables).toHaveLength(16);
+
+        const result = generateAutoLayout(chair, area, { ...theatre, avoidExisting: true }, [stage]);
+        expect(result.tables).toHaveLength(14);
+        expect(result.tables.every(table => findOverlappingTables(table, [stage]).length === 0)).toBe(true);
+    });
+});
@@ -0,0 +1,292 @@
+import {
+    type TableObject,
+    type Position,
+    type BoundaryArea,
+    type StencilData,
+    type AutoLayoutStyle,
+    type AutoLayoutSettings,
+    type AutoLayoutResult,
+    type StagePosition,
+    type RectangleProps,
+    type SVGTableProps,
+    type TextBoxProps,
+    circumscriptionSizeFull
+} from '../types/index';
+import { createStencilTable } from './stencilDrag';
+import { findOverlappingTables } from './overlap';
+import { normalizeRotation } from './transformGeometry';
+
+/**
+ * 自動レイアウト
+ *
+ * 境界エリア（未設定の場合は会場全体）に、選択した形式でステンシルを並べる。
+ * 計算はステージを上に見た座標（u: 横方向、v: ステージからの奥行き）で行い、最後に会場の座標へ変換する。
+ * ステンシルは上辺がステージを向くように回転する。
+ */
+
+export const AUTO_LAYOUT_STYLE_LABELS: Record<AutoLayoutStyle, string> = {
+    theatre: 'シアター',
+    classroom: 'スクール',
+    banquet: '正餐（丸テーブル）',
+    cabaret: 'カバレット',
+    ushape: 'コの字',
+    boardroom: 'ロの字（会議）',
+    reception: '立食'
+};
+
+export const STAGE_POSITION_LABELS: Record<StagePosition, string> = {
+    top: '上',
+    bottom: '下',
+    left: '左',
+    right: '右',
+    none: 'なし'
+};
+
+// 形式ごとの初期値（席数と間隔）
+export const AUTO_LAYOUT_DEFAULTS: Record<AutoLayoutStyle, Pick<AutoLayoutSettings, 'seatsPerTable' | 'rowGap' | 'columnGap'>> = {
+    theatre: { seatsPerTable: 1, rowGap: 450, columnGap: 0 },
+    classroom: { seatsPerTable: 2, rowGap: 900, columnGap: 0 },
+    banquet: { seatsPerTable: 8, rowGap: 1500, columnGap: 1500 },
+    cabaret: { seatsPerTable: 5, rowGap: 1500, columnGap: 1500 },
+    ushape: { seatsPerTable: 2, rowGap: 0, columnGap: 0 },
+    boardroom: { seatsPerTable: 2, rowGap: 0, columnGap: 0 },
+    reception: { seatsPerTable: 4, rowGap: 1800, columnGap: 1800 }
+};
+
+// ステージを上に見た座標系でのステンシルの配置（中心）
+interface Slot {
+    u: number;
+    v: number;
+    rotation: 0 | 90;  // 座標系に対する回転
+}
+
+// ステージを上に見た座標系の配置可能な範囲
+interface Region {
+    uMin: number;
+    uMax: number;
+    vMin: number;
+    vMax: number;
+}
+
+// ステージを上に見た座標系から会場の座標への変換
+interface Frame {
+    width: number;    // 横方向の長さ
+    depth: number;    // 奥行き
+    rotation: number; // ステンシルに加える回転（度）
+    toWorld: (u: number, v: number) => Position;
+}
+
+const getFrame = (area: BoundaryArea, stagePosition: StagePosition): Frame => {
+    switch (stagePosition) {
+        case 'bottom':
+            return {
+                width: area.width,
+                depth: area.height,
+                rotation: 180,
+                toWorld: (u, v) => ({ x: area.x + area.width - u, y: area.y + area.height - v })
+            };
+        case 'left':
+            return {
+                width: area.height,
+                depth: area.width,
+                rotation: 270,
+                toWorld: (u, v) => ({ x: area.x + v, y: area.y + area.height - u })
+            };
+        case 'right':
+            return {
+                width: area.height,
+                depth: area.width,
+                rotation: 90,
+                toWorld: (u, v) => ({ x: area.x + area.width - v, y: area.y + u })
+            };
+        default:
+            return {
+                width: area.width,
+                depth: area.height,
+                rotation: 0,
+                toWorld: (u, v) => ({ x: area.x + u, y: area.y + v })
+            };
+    }
+};
+
+/**
+ * 列ごとに横へ並べる形式（シアター・スクール・正餐・カバレット・立食）
+ * 中央通路がある場合は左右に分け、通路側に詰めて並べる
+ */
+const planGrid = (
+    region: Region,
+    footprint: { width: number; height: number },
+    settings: AutoLayoutSettings,
+    staggered: boolean
+): Slot[] => {
+    const stepU = footprint.width + settings.columnGap;
+    const stepV = footprint.height + settings.rowGap;
+    const middle = (region.uMin + region.uMax) / 2;
+    const blocks: { start: number; end: number; align: 'start' | 'end' | 'center' }[] = settings.centerAisle > 0
+        ? [
+            { start: region.uMin, end: middle - settings.centerAisle / 2, align: 'end' },
+            { start: middle + settings.centerAisle / 2, end: region.uMax, align: 'start' }
+        ]
+        : [{ start: region.uMin, end: region.uMax, align: 'center' }];
+
+    const slots: Slot[] = [];
+    for (let row = 0; region.vMin + footprint.height + row * stepV <= region.vMax; row++) {
+        const v = region.vMin + footprint.height / 2 + row * stepV;
+        const shift = staggered && row % 2 === 1 ? stepU / 2 : 0;
+        const rowSlots: Slot[] = [];
+
+        blocks.forEach(block => {
+            const available = block.end - block.start - shift;
+            const count = Math.floor((available + settings.columnGap) / stepU);
+            if (count <= 0) return;
+
+            const content = count * stepU - settings.columnGap;
+            const start = block.align === 'end'
+                ? block.end - shift - content
+                : block.align === 'start'
+                    ? block.start + shift
+                    : block.start + (block.end - block.start - content) / 2;
+            for (let i = 0; i < count; i++) {
+                rowSlots.push({ u: start + footprint.width / 2 + i * stepU, v, rotation: 0 });
+            }
+        });
+
+        // 同じ列では中央に近いものから
+        rowSlots.sort((a, b) => Math.abs(a.u - middle) - Math.abs(b.u - middle));
+        slots.push(...rowSlots);
+    }
+    return slots;
+};
+
+/**
+ * コの字（ステージ側を開け、左右と奥にステンシルを並べる）
+ * 左右はステンシルを90°回転して縦に並べる
+ */
+const planUShape = (region: Region, footprint: { width: number; height: number }, needed: number): Slot[] => {
+    const { width: length, height: depth } = footprint;
+    const regionWidth = region.uMax - region.uMin;
+    const regionDepth = region.vMax - region.vMin;
+    const maxBase = Math.floor((regionWidth - depth * 2) / length);
+    const maxArm = Math.floor((regionDepth - depth) / length);
+    if (maxBase < 1) return [];
+
+    // 必要な数を満たす中で、奥と左右の長さが近いものを選ぶ
+    let base = maxBase;
+    let arm = Math.max(0, maxArm);
+    let best: { base: number; arm: number; total: number } | null = null;
+    for (let b = 1; b <= maxBase; b++) {
+        for (let a = 0; a <= Math.max(0, maxArm); a++) {
+            const total = b + a * 2;
+            if (total < needed) continue;
+            if (!best || total < best.total || (total === best.total && Math.abs(b - a) < Math.abs(best.base - best.arm))) {
+                best = { base: b, arm: a, total };
+            }
+        }
+    }
+    if (best) {
+        base = best.base;
+        arm = best.arm;
+    }
+
+    const middle = (region.uMin + region.uMax) / 2;
+    const baseV = region.vMin + arm * length + depth / 2;
+    const slots: Slot[] = [];
+    for (let i = 0; i < arm; i++) {
+        const v = region.vMin + length / 2 + i * length;
+        slots.push({ u: middle - (base * length) / 2 - depth / 2, v, rotation: 90 });
+        slots.push({ u: middle + (base * length) / 2 + depth / 2, v, rotation: 90 });
+    }
+    for (let i = 0; i < base; i++) {
+        slots.push({ u: middle - (base * length) / 2 + length / 2 + i * length, v: baseV, rotation: 0 });
+    }
+    return slots;
+};
+
+/**
+ * ロの字（会議）：2列を背中合わせにしたブロックをエリアの中央に置く
+ */
+const planBoardroom = (region: Region, footprint: { width: number; height: number }, needed: number): Slot[] => {
+    const maxColumns = Math.floor((region.uMax - region.uMin) / footprint.width);
+    if (maxColumns < 1 || region.vMax - region.vMin < footprint.height * 2) return [];
+
+    const columns = Math.min(maxColumns, Math.max(1, Math.ceil(needed / 2)));
+    const middleU = (region.uMin + region.uMax) / 2;
+    const middleV = (region.vMin + region.vMax) / 2;
+    const slots: Slot[] = [];
+    [-1, 1].forEach(side => {
+        for (let i = 0; i < columns; i++) {
+            slots.push({
+                u: middleU - (columns * footprint.width) / 2 + footprint.width / 2 + i * footprint.width,
+                v: middleV + side * footprint.height / 2,
+                rotation: 0
+            });
+        }
+    });
+    return slots;
+};
+
+/**
+ * 自動レイアウトを作成
+ * guestCountが0の場合はエリアに収まるだけ配置する
+ */
+export const generateAutoLayout = (
+    stencil: StencilData,
+    area: BoundaryArea,
+    settings: AutoLayoutSettings,
+    existingTables: TableObject[] = []
+): AutoLayoutResult => {
+    const frame = getFrame(area, settings.stagePosition);
+    const region: Region = {
+        uMin: settings.sideAisle,
+        uMax: frame.width - settings.sideAisle,
+        vMin: settings.stagePosition === 'none' ? settings.sideAisle : settings.stageClearance,
+        vMax: frame.depth - settings.sideAisle
+    };
+    const seatsPerTable = Math.max(1, settings.seatsPerTable);
+    const needed = settings.guestCount > 0 ? Math.ceil(settings.guestCount / seatsPerTable) : Infinity;
+    const baseTable = createStencilTable(stencil, { x: 0, y: 0 });
+    const footprint = circumscriptionSizeFull(baseTable);
+
+    const toTable = (slot: Slot, index: number): TableObject => {
+        const rotation = slot.rotation + frame.rotation;
+        const properties = stencil.type === 'circle' || rotation === 0
+            ? stencil.properties
+            : {
+                ...(stencil.properties as RectangleProps | SVGTableProps | TextBoxProps),
+                rotationAngle: normalizeRotation((stencil.properties as RectangleProps | SVGTableProps | TextBoxProps).rotationAngle + rotation)
+            };
+        return {
+            id: `table_${Date.now()}_${index}_${Math.random().toString(36).substring(2, 9)}`,
+            type: stencil.type,
+            position: frame.toWorld(slot.u, slot.v),
+            properties,
+            zIndex: 0
+        };
+    };
+
+    // 既存のオブジェクト（ステージなど）と重なる位置は使わない
+    const isFree = (table: TableObject) =>
+        !settings.avoidExisting || findOverlappingTables(table, existingTables).length === 0;
+
+    let candidates: TableObject[];
+    let maxCount: number;
+    if (settings.style === 'ushape' || settings.style === 'boardroom') {
+        const planSlots = (count: number) => settings.style === 'ushape'
+            ? planUShape(region, footprint, count)
+            : planBoardroom(region, footprint, count);
+        candidates = planSlots(needed).map(toTable).filter(isFree);
+        // 収容できる数は、エリアいっぱいの形のうち実際に空いている位置から求める
+        maxCount = Number.isFinite(needed) ? planSlots(Infinity).map(toTable).filter(isFree).length : candidates.length;
+    } else {
+        const staggered = settings.style === 'cabaret' || settings.style === 'reception';
+        candidates = planGrid(region, footprint, settings, staggered).map(toTable).filter(isFree);
+        maxCount = candidates.length;
+    }
+
+    const tables = candidates.slice(0, needed);
+    return {
+        tables,
+        seats: tables.length * seatsPerTable,
+        capacity: maxCount * seatsPerTable
+    };
+};
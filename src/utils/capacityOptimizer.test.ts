@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { optimizeCapacity, MAX_CAPACITY_TABLES } from './capacityOptimizer';
+import { getFootprint, hasClearance, type Footprint } from './footprint';
+import { getCircumscribedBounds } from './overlap';
+import type { TableObject, StencilData, CapacityOptimizerRequest } from '../types/index';
+import { createRectangle, createRectangleProps, createCircleProps } from '../test/fixtures';
+
+// 直径1800mmの丸テーブル
+const roundTable: StencilData = { type: 'circle', properties: createCircleProps(900) };
+
+// 1800×600mmの長机
+const desk: StencilData = {
+    type: 'rectangle',
+    properties: createRectangleProps(1800, 600)
+};
+
+const request: Omit<CapacityOptimizerRequest, 'stencil'> = {
+    area: { x: 0, y: 0, width: 20000, height: 12000 },
+    clearance: 1000,
+    obstacles: []
+};
+
+const footprintOf = (table: TableObject) => getFootprint(table) as Footprint;
+
+const expectValidLayout = (tables: TableObject[], clearance: number, obstacles: TableObject[] = []) => {
+    tables.forEach((table, index) => {
+        const bounds = getCircumscribedBounds(table);
+        expect(bounds.minX).toBeGreaterThanOrEqual(request.area.x - 1e-6);
+        expect(bounds.minY).toBeGreaterThanOrEqual(request.area.y - 1e-6);
+        expect(bounds.maxX).toBeLessThanOrEqual(request.area.x + request.area.width + 1e-6);
+        expect(bounds.maxY).toBeLessThanOrEqual(request.area.y + request.area.height + 1e-6);
+
+        tables.slice(index + 1).forEach(other => {
+            expect(hasClearance(footprintOf(table), footprintOf(other), clearance)).toBe(true);
+        });
+        obstacles.forEach(obstacle => {
+            expect(hasClearance(footprintOf(table), footprintOf(obstacle), clearance)).toBe(true);
+        });
+    });
+};
+
+describe('optimizeCapacity', () => {
+    it('円は列ごとに半分ずらして詰める', () => {
+        const result = optimizeCapacity({ ...request, stencil: roundTable });
+
+        // 格子状では7×4=28個、半分ずらすと7×5=35個
+        expect(result.tables).toHaveLength(35);
+        expect(result.staggered).toBe(true);
+        expect(result.rotation).toBe(0);
+        expect(result.truncated).toBe(false);
+        expectValidLayout(result.tables, request.clearance);
+    });
+
+    it('配置する数の上限に達した場合は打ち切ったことを返す', () => {
+        // 直径100mmの円を間隔なしで並べると上限を超える
+        const result = optimizeCapacity({ ...request, clearance: 0, stencil: { type: 'circle', properties: createCircleProps(50) } });
+
+        expect(result.tables).toHaveLength(MAX_CAPACITY_TABLES);
+        expect(result.truncated).toBe(true);
+    });
+
+    it('長方形は回転した向きも試し、多く収まる配置を選ぶ', () => {
+        const result = optimizeCapacity({ ...request, stencil: desk });
+
+        // 横向き7×8=56個、縦向き13×4=52個
+        expect(result.tables).toHaveLength(56);
+        expect(result.rotation).toBe(0);
+        expectValidLayout(result.tables, request.clearance);
+
+        const tall = optimizeCapacity({ ...request, area: { x: 0, y: 0, width: 12000, height: 20000 }, stencil: desk });
+        expect(tall.rotation).toBe(90);
+        expect(tall.tables).toHaveLength(56);
+    });
+
+    it('避けるオブジェクトとの間隔を保つ', () => {
+        const stage = createRectangle('stage', 10000, 1500, { width: 6000, height: 3000 });
+        const result = optimizeCapacity({ ...request, stencil: roundTable, obstacles: [stage] });
+
+        expect(result.tables.length).toBeGreaterThan(0);
+        expect(result.tables.length).toBeLessThan(35);
+        expectValidLayout(result.tables, request.clearance, [stage]);
+    });
+
+    it('エリアに収まらない場合は配置しない', () => {
+        const result = optimizeCapacity({ ...request, area: { x: 0, y: 0, width: 1000, height: 1000 }, stencil: roundTable });
+        expect(result.tables).toEqual([]);
+    });
+
+    it('各オブジェクトに別のIDを振る', () => {
+        const result = optimizeCapacity({ ...request, stencil: desk });
+        expect(new Set(result.tables.map(table => table.id)).size).toBe(result.tables.length);
+    });
+});
@@ -0,0 +1,213 @@
+import {
+    type TableObject,
+    type TableBounds,
+    type Position,
+    type StencilData,
+    type CapacityOptimizerRequest,
+    type CapacityOptimizerResult,
+    type RectangleProps,
+    type SVGTableProps,
+    type TextBoxProps,
+    circumscriptionSizeFull
+} from '../types/index';
+import { createStencilTable } from './stencilDrag';
+import { getCircumscribedBounds } from './overlap';
+import { type Footprint, getFootprint, translateFootprint, hasClearance } from './footprint';
+import { normalizeRotation } from './transformGeometry';
+
+/**
+ * 収容数の最適化
+ *
+ * ステンシルを格子状（列ごとに半分ずらす配置を含む）に並べ、境界エリアに収まる数が最も多い配置を探す。
+ * 間隔は回転を反映した実際の形（円・回転した長方形）で判定し、外接矩形はエリアに収まるかの判定と絞り込みに使う。
+ * 計算量が多いため、Web Worker（workers/capacityOptimizer.worker.ts）から呼び出す。
+ */
+
+// 配置する数の上限（極端に小さいステンシルで計算が終わらなくなるのを防ぐ）
+export const MAX_CAPACITY_TABLES = 3000;
+
+// 格子の開始位置をずらして試す分割数（横・縦それぞれ）
+const PHASE_STEPS = 8;
+
+// 最小の間隔を二分探索する回数
+const SEARCH_ITERATIONS = 40;
+
+interface Lattice {
+    rotation: number;
+    staggered: boolean;
+    stepX: number;    // 同じ列での間隔（中心間）
+    stepY: number;    // 列同士の間隔（中心間）
+    shiftX: number;   // 奇数列のずらし量
+}
+
+interface Candidate {
+    lattice: Lattice;
+    positions: Position[];
+    size: { width: number; height: number };
+    truncated: boolean;
+}
+
+// ステンシルに回転を加えたオブジェクトを作成
+const createRotatedTable = (stencil: StencilData, rotation: number, position: Position): TableObject => {
+    const table = createStencilTable(stencil, position);
+    if (stencil.type === 'circle' || rotation === 0) return table;
+
+    const props = stencil.properties as RectangleProps | SVGTableProps | TextBoxProps;
+    return { ...table, properties: { ...props, rotationAngle: normalizeRotation(props.rotationAngle + rotation) } };
+};
+
+// 条件を満たす最小の値を二分探索（upperでは必ず条件を満たすものとする）
+const findMinimum = (upper: number, isValid: (value: number) => boolean): number => {
+    let low = 0;
+    let high = upper;
+    for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+        const middle = (low + high) / 2;
+        if (isValid(middle)) high = middle;
+        else low = middle;
+    }
+    return high;
+};
+
+/**
+ * 間隔を保てる最も詰めた格子を求める
+ */
+const buildLattice = (
+    footprint: Footprint,
+    size: { width: number; height: number },
+    clearance: number,
+    rotation: number,
+    staggered: boolean
+): Lattice => {
+    const isClear = (dx: number, dy: number) => hasClearance(footprint, translateFootprint(footprint, dx, dy), clearance);
+
+    const stepX = findMinimum(size.width + clearance, dx => isClear(dx, 0));
+    const shiftX = staggered ? stepX / 2 : 0;
+    const stepY = findMinimum(size.height + clearance, dy =>
+        [-1, 0, 1].every(k => isClear(shiftX + k * stepX, dy)) &&
+        (!staggered || isClear(0, dy * 2))
+    );
+    return { rotation, staggered, stepX, stepY, shiftX };
+};
+
+/**
+ * 格子の開始位置を指定して、エリアに収まる中心位置を列挙
+ * 上限の数に達した場合は、そこで打ち切ったことを返す
+ */
+const getLatticePositions = (
+    lattice: Lattice,
+    request: CapacityOptimizerRequest,
+    size: { width: number; height: number },
+    phase: Position
+): { positions: Position[]; truncated: boolean } => {
+    const { area } = request;
+    const minX = area.x + size.width / 2;
+    const maxX = area.x + area.width - size.width / 2;
+    const minY = area.y + size.height / 2;
+    const maxY = area.y + area.height - size.height / 2;
+
+    const positions: Position[] = [];
+    for (let row = 0; minY + phase.y + row * lattice.stepY <= maxY; row++) {
+        const y = minY + phase.y + row * lattice.stepY;
+        const offset = phase.x + (row % 2 === 1 ? lattice.shiftX : 0);
+        // 左端に最も近い位置から並べる
+        const startX = minX + (offset % lattice.stepX);
+        for (let x = startX; x <= maxX; x += lattice.stepX) {
+            if (positions.length >= MAX_CAPACITY_TABLES) return { positions, truncated: true };
+            positions.push({ x, y });
+        }
+    }
+    return { positions, truncated: false };
+};
+
+/**
+ * 避けるオブジェクトとの間隔を保てない位置を除く
+ */
+const filterByObstacles = (
+    positions: Position[],
+    footprint: Footprint,
+    size: { width: number; height: number },
+    request: CapacityOptimizerRequest
+): Position[] => {
+    const obstacles = request.obstacles
+        .map(table => ({ bounds: getCircumscribedBounds(table), footprint: getFootprint(table) }))
+        .filter((obstacle): obstacle is { bounds: TableBounds; footprint: Footprint } => obstacle.footprint !== null);
+    if (obstacles.length === 0) return positions;
+
+    const reachX = size.width / 2 + request.clearance;
+    const reachY = size.height / 2 + request.clearance;
+    return positions.filter(position => obstacles.every(obstacle => {
+        // 外接矩形が間隔以上離れていれば詳しく調べない
+        if (position.x + reachX <= obstacle.bounds.minX || position.x - reachX >= obstacle.bounds.maxX ||
+            position.y + reachY <= obstacle.bounds.minY || position.y - reachY >= obstacle.bounds.maxY) {
+            return true;
+        }
+        return hasClearance(translateFootprint(footprint, position.x, position.y), obstacle.footprint, request.clearance);
+    }));
+};
+
+/**
+ * エリアの余りを左右・上下に均等に振り分ける
+ */
+const centerPositions = (
+    positions: Position[],
+    request: CapacityOptimizerRequest,
+    size: { width: number; height: number }
+): Position[] => {
+    if (positions.length === 0) return positions;
+
+    const xs = positions.map(position => position.x);
+    const ys = positions.map(position => position.y);
+    const { area } = request;
+    const dx = (area.x + area.width - size.width / 2 - Math.max(...xs) - (Math.min(...xs) - area.x - size.width / 2)) / 2;
+    const dy = (area.y + area.height - size.height / 2 - Math.max(...ys) - (Math.min(...ys) - area.y - size.height / 2)) / 2;
+    return positions.map(position => ({ x: position.x + dx, y: position.y + dy }));
+};
+
+/**
+ * 境界エリアに最も多く収まる配置を計算
+ */
+export const optimizeCapacity = (request: CapacityOptimizerRequest): CapacityOptimizerResult => {
+    const { stencil, clearance } = request;
+    const hasObstacles = request.obstacles.some(table => table.type !== 'scale');
+    // 円は回転しても同じ形のため、回転は試さない
+    const rotations = stencil.type === 'circle' ? [0] : [0, 90];
+
+    let best: Candidate | null = null;
+    for (const rotation of rotations) {
+        const origin = createRotatedTable(stencil, rotation, { x: 0, y: 0 });
+        const footprint = getFootprint(origin);
+        const { width, height } = circumscriptionSizeFull(origin);
+        if (!footprint || width <= 0 || height <= 0) continue;
+        const size = { width, height };
+
+        for (const staggered of [false, true]) {
+            const lattice = buildLattice(footprint, size, clearance, rotation, staggered);
+            // 避けるオブジェクトがない場合は開始位置による差がないため、左上から並べて後で中央に寄せる
+            const phaseSteps = hasObstacles ? PHASE_STEPS : 1;
+            for (let i = 0; i < phaseSteps; i++) {
+                for (let j = 0; j < phaseSteps; j++) {
+                    const phase = { x: lattice.stepX * i / phaseSteps, y: lattice.stepY * j / phaseSteps };
+                    const { positions: latticePositions, truncated } = getLatticePositions(lattice, request, size, phase);
+                    const positions = filterByObstacles(latticePositions, footprint, size, request);
+                    if (!best || positions.length > best.positions.length) {
+                        best = { lattice, positions, size, truncated };
+                    }
+                }
+            }
+        }
+    }
+
+    if (!best) return { tables: [], rotation: 0, staggered: false, truncated: false };
+
+    const { lattice, size } = best;
+    const positions = hasObstacles ? best.positions : centerPositions(best.positions, request, size);
+    return {
+        tables: positions.map((position, index) => ({
+            ...createRotatedTable(stencil, lattice.rotation, position),
+            id: `table_${Date.now()}_${index}_${Math.random().toString(36).substring(2, 9)}`
+        })),
+        rotation: lattice.rotation,
+        staggered: lattice.staggered,
+        truncated: best.truncated
+    };
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { getDistributionOffsets } from './distribute';
+import { buildSelectionUnits } from './groupUtils';
+import type { TableObject } from '../types/index';
+import { createRectangle } from '../test/fixtures';
+
+// 高さ200mm・指定した幅の長方形
+const rectangle = (id: string, x: number, width: number, options: { y?: number; groupId?: string; locked?: boolean } = {}): TableObject => {
+    const { y = 0, ...rest } = options;
+    return createRectangle(id, x, y, { width, ...rest });
+};
+
+// 外接矩形 a: -100〜100、b: 100〜500、c: 900〜1500
+const tables = [rectangle('c', 1200, 600), rectangle('a', 0, 200), rectangle('b', 300, 400)];
+const units = buildSelectionUnits(tables, ['c', 'a', 'b']);
+
+describe('getDistributionOffsets', () => {
+    it('両端の中心を固定して中心を等間隔にする', () => {
+        const offsets = getDistributionOffsets(units, 'horizontal', { mode: 'centers' });
+
+        expect(offsets.get('a')).toEqual({ x: 0, y: 0 });
+        expect(offsets.get('b')).toEqual({ x: 300, y: 0 });
+        expect(offsets.get('c')).toEqual({ x: 0, y: 0 });
+    });
+
+    it('両端を固定して外接矩形の隙間を等しくする', () => {
+        const offsets = getDistributionOffsets(units, 'horizontal', { mode: 'gaps' });
+
+        expect(offsets.get('b')).toEqual({ x: 200, y: 0 });
+        expect(offsets.get('c')).toEqual({ x: 0, y: 0 });
+    });
+
+    it('指定した隙間で先頭から並べる', () => {
+        const offsets = getDistributionOffsets(units, 'horizontal', { mode: 'fixedGap', gap: 100 });
+
+        expect(offsets.get('a')).toEqual({ x: 0, y: 0 });
+        expect(offsets.get('b')).toEqual({ x: 100, y: 0 });
+        expect(offsets.get('c')).toEqual({ x: -200, y: 0 });
+    });
+
+    it('縦方向に配置する', () => {
+        const vertical = [
+            rectangle('a', 0, 200, { y: 0 }),
+            rectangle('b', 0, 200, { y: 100 }),
+            rectangle('c', 0, 200, { y: 1000 })
+        ];
+        const offsets = getDistributionOffsets(buildSelectionUnits(vertical, ['a', 'b', 'c']), 'vertical', { mode: 'centers' });
+
+        expect(offsets.get('b')).toEqual({ x: 0, y: 400 });
+    });
+
+    it('グループはまとめて移動する', () => {
+        const grouped = [
+            rectangle('a', 0, 200),
+            rectangle('b1', 200, 200, { groupId: 'g' }),
+            rectangle('b2', 400, 200, { groupId: 'g' }),
+            rectangle('c', 2000, 200)
+        ];
+        const offsets = getDistributionOffsets(buildSelectionUnits(grouped, ['a', 'b1', 'c']), 'horizontal', { mode: 'centers' });
+
+        expect(offsets.get('b1')).toEqual({ x: 700, y: 0 });
+        expect(offsets.get('b2')).toEqual({ x: 700, y: 0 });
+    });
+
+    it('ロック中の単位は動かさず、配置の対象からも除く', () => {
+        const withLocked = [...tables, rectangle('d', 3000, 200, { locked: true })];
+        const offsets = getDistributionOffsets(buildSelectionUnits(withLocked, ['a', 'b', 'c', 'd']), 'horizontal', { mode: 'centers' });
+
+        expect(offsets.has('d')).toBe(false);
+        expect(offsets.get('b')).toEqual({ x: 300, y: 0 });
+    });
+
+    it('動かせる単位が足りない場合は配置しない', () => {
+        expect(getDistributionOffsets(units.slice(0, 2), 'horizontal', { mode: 'centers' }).size).toBe(0);
+        expect(getDistributionOffsets(units.slice(0, 1), 'horizontal', { mode: 'fixedGap', gap: 100 }).size).toBe(0);
+        expect(getDistributionOffsets(units.slice(0, 2), 'horizontal', { mode: 'fixedGap', gap: 100 }).size).toBe(2);
+    });
+});
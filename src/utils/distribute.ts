@@ -0,0 +1,80 @@
+import type { Position, DistributeAxis, DistributeMode } from '../types/index';
+import type { SelectionUnit } from './groupUtils';
+
+/**
+ * 均等配置
+ *
+ * 選択単位（グループまたは単独のオブジェクト）の外接矩形を、指定した方向に並んでいる順に配置し直す。
+ * ロック中のオブジェクトを含む単位は動かさず、配置の対象からも除く。
+ */
+
+// 均等配置に必要な単位の数（両端を固定するため3つ以上）
+export const MIN_DISTRIBUTE_UNITS = 3;
+
+export type DistributeSpacing =
+    | { mode: DistributeMode }
+    | { mode: 'fixedGap'; gap: number };  // gap: 隣り合う外接矩形の隙間（mm）
+
+const getStart = (unit: SelectionUnit, axis: DistributeAxis): number =>
+    axis === 'horizontal' ? unit.bounds.minX : unit.bounds.minY;
+
+const getCenter = (unit: SelectionUnit, axis: DistributeAxis): number =>
+    axis === 'horizontal' ? unit.bounds.centerX : unit.bounds.centerY;
+
+const getSize = (unit: SelectionUnit, axis: DistributeAxis): number =>
+    axis === 'horizontal' ? unit.bounds.width : unit.bounds.height;
+
+/**
+ * 各単位の新しい開始位置（外接矩形の左端または上端）を計算
+ * 単位は中心の位置で並べ替え済みであること
+ */
+const getTargetStarts = (sorted: SelectionUnit[], axis: DistributeAxis, spacing: DistributeSpacing): number[] => {
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+
+    if (spacing.mode === 'centers') {
+        // 両端の中心を固定し、中心を等間隔に
+        const step = (getCenter(last, axis) - getCenter(first, axis)) / (sorted.length - 1);
+        return sorted.map((unit, index) => getCenter(first, axis) + step * index - getSize(unit, axis) / 2);
+    }
+
+    // 先頭から順に、前の単位の終端から隙間を空けて並べる
+    const gap = 'gap' in spacing
+        ? spacing.gap
+        : (getStart(last, axis) + getSize(last, axis) - getStart(first, axis)
+            - sorted.reduce((sum, unit) => sum + getSize(unit, axis), 0)) / (sorted.length - 1);
+
+    const starts: number[] = [];
+    sorted.forEach((unit, index) => {
+        starts.push(index === 0
+            ? getStart(unit, axis)
+            : starts[index - 1] + getSize(sorted[index - 1], axis) + gap);
+    });
+    return starts;
+};
+
+/**
+ * 均等配置のための各オブジェクトの移動量（オブジェクトID → 移動量）
+ * 配置できない場合は空のMapを返す
+ */
+export const getDistributionOffsets = (
+    units: SelectionUnit[],
+    axis: DistributeAxis,
+    spacing: DistributeSpacing
+): Map<string, Position> => {
+    const offsets = new Map<string, Position>();
+    const movable = units.filter(unit => !unit.locked);
+    const minUnits = spacing.mode === 'fixedGap' ? 2 : MIN_DISTRIBUTE_UNITS;
+    if (movable.length < minUnits) return offsets;
+
+    const sorted = [...movable].sort((a, b) => getCenter(a, axis) - getCenter(b, axis));
+    const starts = getTargetStarts(sorted, axis, spacing);
+
+    sorted.forEach((unit, index) => {
+        const delta = starts[index] - getStart(unit, axis);
+        const offset = axis === 'horizontal' ? { x: delta, y: 0 } : { x: 0, y: delta };
+        unit.ids.forEach(id => offsets.set(id, offset));
+    });
+
+    return offsets;
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getFootprint, translateFootprint, footprintsOverlap, footprintDistance, hasClearance, type Footprint } from './footprint';
+import { createRectangle, createCircle } from '../test/fixtures';
+
+const circle = (x: number, y: number, radius: number): Footprint => ({ kind: 'circle', center: { x, y }, radius });
+
+// 中心(x, y)の長方形の占有範囲
+const polygon = (x: number, y: number, width: number, height: number, rotationAngle = 0): Footprint =>
+    getFootprint(createRectangle('r', x, y, { width, height, rotationAngle })) as Footprint;
+
+describe('getFootprint', () => {
+    it('回転した長方形の四隅を返す', () => {
+        const footprint = polygon(0, 0, 200, 100, 90);
+        if (footprint.kind !== 'polygon') throw new Error('polygon expected');
+
+        expect(footprint.points[0].x).toBeCloseTo(50);
+        expect(footprint.points[0].y).toBeCloseTo(-100);
+        expect(footprint.points[2].x).toBeCloseTo(-50);
+        expect(footprint.points[2].y).toBeCloseTo(100);
+    });
+
+    it('円は中心と半径、縮尺（寸法線）はnull', () => {
+        const table = createCircle('c', 10, 20, { radius: 300 });
+        expect(getFootprint(table)).toEqual(circle(10, 20, 300));
+        expect(getFootprint({ ...table, type: 'scale', properties: { firstTableId: 'a', secondTableId: 'b' } })).toBeNull();
+    });
+});
+
+describe('translateFootprint', () => {
+    it('円と多角形を平行移動する', () => {
+        expect(translateFootprint(circle(0, 0, 10), 5, -5)).toEqual(circle(5, -5, 10));
+        expect(translateFootprint(polygon(0, 0, 2, 2), 10, 0)).toEqual(polygon(10, 0, 2, 2));
+    });
+});
+
+describe('footprintsOverlap', () => {
+    it('辺が接しているだけの場合は重なりとしない', () => {
+        expect(footprintsOverlap(polygon(0, 0, 100, 100), polygon(100, 0, 100, 100))).toBe(false);
+        expect(footprintsOverlap(polygon(0, 0, 100, 100), polygon(99, 0, 100, 100))).toBe(true);
+        expect(footprintsOverlap(circle(0, 0, 50), circle(100, 0, 50))).toBe(false);
+        expect(footprintsOverlap(circle(0, 0, 50), polygon(100, 0, 100, 100))).toBe(false);
+    });
+
+    it('回転した長方形は外接矩形ではなく実際の形で判定する', () => {
+        // 45°回転した正方形の外接矩形は角に余白がある
+        const diamond = polygon(0, 0, 100, 100, 45);
+        expect(footprintsOverlap(diamond, polygon(60, 60, 20, 20))).toBe(false);
+        expect(footprintsOverlap(diamond, polygon(40, 0, 20, 20))).toBe(true);
+        expect(footprintsOverlap(diamond, circle(60, 60, 10))).toBe(false);
+    });
+
+    it('円が多角形の内側にある場合は重なる', () => {
+        expect(footprintsOverlap(circle(0, 0, 10), polygon(0, 0, 1000, 1000))).toBe(true);
+        expect(footprintsOverlap(polygon(0, 0, 1000, 1000), circle(0, 0, 10))).toBe(true);
+    });
+});
+
+describe('footprintDistance', () => {
+    it('形の組み合わせごとの最短距離を返す', () => {
+        expect(footprintDistance(circle(0, 0, 50), circle(300, 400, 50))).toBeCloseTo(400);
+        expect(footprintDistance(circle(0, 0, 50), polygon(200, 0, 100, 100))).toBeCloseTo(100);
+        expect(footprintDistance(polygon(0, 0, 100, 100), polygon(300, 0, 100, 100))).toBeCloseTo(200);
+        expect(footprintDistance(polygon(0, 0, 100, 100, 45), polygon(200, 0, 100, 100))).toBeCloseTo(150 - 50 * Math.SQRT2);
+    });
+
+    it('重なっている場合は0', () => {
+        expect(footprintDistance(circle(0, 0, 50), circle(10, 0, 50))).toBe(0);
+    });
+});
+
+describe('hasClearance', () => {
+    it('指定した間隔以上離れているかを判定する', () => {
+        const a = polygon(0, 0, 100, 100);
+        const b = polygon(300, 0, 100, 100);
+
+        expect(hasClearance(a, b, 200)).toBe(true);
+        expect(hasClearance(a, b, 201)).toBe(false);
+        expect(hasClearance(a, a, 0)).toBe(false);
+    });
+});
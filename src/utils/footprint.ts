@@ -0,0 +1,147 @@
+import type { TableObject, Position, RectangleProps, CircleProps, SVGTableProps, TextBoxProps } from '../types/index';
+
+/**
+ * オブジェクトの実際の形（回転を反映した占有範囲）
+ *
+ * circumscriptionSizeFullの外接矩形は回転したオブジェクトの四隅の余白を含むため、
+ * 間隔や重なりを正確に判定する場合は、回転した長方形（凸多角形）または円で判定する。
+ */
+
+export type Footprint =
+    | { kind: 'circle'; center: Position; radius: number }
+    | { kind: 'polygon'; points: Position[] };  // 凸多角形（時計回り）
+
+// 辺が接しているだけの場合を重なりとしないための誤差（mm）
+const EPSILON = 1e-6;
+
+/**
+ * オブジェクトの占有範囲を取得（縮尺（寸法線）は大きさを持たないためnull）
+ */
+export const getFootprint = (table: TableObject): Footprint | null => {
+    if (table.type === 'scale') return null;
+
+    const { x, y } = table.position;
+    if (table.type === 'circle') {
+        return { kind: 'circle', center: { x, y }, radius: (table.properties as CircleProps).radius };
+    }
+
+    const props = table.properties as RectangleProps | SVGTableProps | TextBoxProps;
+    const theta = props.rotationAngle * Math.PI / 180;
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+    const halfWidth = props.width / 2;
+    const halfHeight = props.height / 2;
+
+    // 中心を基準に回転（Konvaと同じく画面上で時計回り）
+    const corners: [number, number][] = [
+        [-halfWidth, -halfHeight],
+        [halfWidth, -halfHeight],
+        [halfWidth, halfHeight],
+        [-halfWidth, halfHeight]
+    ];
+    return {
+        kind: 'polygon',
+        points: corners.map(([dx, dy]) => ({ x: x + dx * cos - dy * sin, y: y + dx * sin + dy * cos }))
+    };
+};
+
+/**
+ * 占有範囲を平行移動
+ */
+export const translateFootprint = (footprint: Footprint, dx: number, dy: number): Footprint =>
+    footprint.kind === 'circle'
+        ? { ...footprint, center: { x: footprint.center.x + dx, y: footprint.center.y + dy } }
+        : { ...footprint, points: footprint.points.map(point => ({ x: point.x + dx, y: point.y + dy })) };
+
+const distanceToSegment = (point: Position, start: Position, end: Position): number => {
+    const vx = end.x - start.x;
+    const vy = end.y - start.y;
+    const lengthSquared = vx * vx + vy * vy;
+    const t = lengthSquared === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((point.x - start.x) * vx + (point.y - start.y) * vy) / lengthSquared));
+    return Math.hypot(point.x - (start.x + vx * t), point.y - (start.y + vy * t));
+};
+
+const getEdges = (points: Position[]): [Position, Position][] =>
+    points.map((point, index) => [point, points[(index + 1) % points.length]]);
+
+const isPointInConvexPolygon = (point: Position, points: Position[]): boolean => {
+    let sign = 0;
+    for (const [start, end] of getEdges(points)) {
+        const cross = (end.x - start.x) * (point.y - start.y) - (end.y - start.y) * (point.x - start.x);
+        if (Math.abs(cross) <= EPSILON) continue;
+        if (sign === 0) sign = Math.sign(cross);
+        else if (Math.sign(cross) !== sign) return false;
+    }
+    return true;
+};
+
+// 分離軸定理：いずれかの辺の法線方向で投影が重ならなければ離れている
+const polygonsOverlap = (a: Position[], b: Position[]): boolean => {
+    for (const [start, end] of [...getEdges(a), ...getEdges(b)]) {
+        const axis = { x: start.y - end.y, y: end.x - start.x };
+        const length = Math.hypot(axis.x, axis.y);
+        if (length === 0) continue;
+
+        const project = (points: Position[]) => points.map(point => (point.x * axis.x + point.y * axis.y) / length);
+        const projectedA = project(a);
+        const projectedB = project(b);
+        if (Math.max(...projectedA) <= Math.min(...projectedB) + EPSILON ||
+            Math.max(...projectedB) <= Math.min(...projectedA) + EPSILON) {
+            return false;
+        }
+    }
+    return true;
+};
+
+const circleToPolygonDistance = (center: Position, radius: number, points: Position[]): number => {
+    if (isPointInConvexPolygon(center, points)) return -radius;
+    return Math.min(...getEdges(points).map(([start, end]) => distanceToSegment(center, start, end))) - radius;
+};
+
+/**
+ * 占有範囲同士が重なっているか（辺が接しているだけの場合は重なりとしない）
+ */
+export const footprintsOverlap = (a: Footprint, b: Footprint): boolean => {
+    if (a.kind === 'circle') {
+        if (b.kind === 'circle') {
+            return Math.hypot(a.center.x - b.center.x, a.center.y - b.center.y) < a.radius + b.radius - EPSILON;
+        }
+        return circleToPolygonDistance(a.center, a.radius, b.points) < -EPSILON;
+    }
+    if (b.kind === 'circle') {
+        return circleToPolygonDistance(b.center, b.radius, a.points) < -EPSILON;
+    }
+    return polygonsOverlap(a.points, b.points);
+};
+
+/**
+ * 占有範囲同士の最短距離（重なっている場合は0）
+ */
+export const footprintDistance = (a: Footprint, b: Footprint): number => {
+    if (footprintsOverlap(a, b)) return 0;
+
+    if (a.kind === 'circle') {
+        if (b.kind === 'circle') {
+            return Math.max(0, Math.hypot(a.center.x - b.center.x, a.center.y - b.center.y) - a.radius - b.radius);
+        }
+        return Math.max(0, circleToPolygonDistance(a.center, a.radius, b.points));
+    }
+    if (b.kind === 'circle') {
+        return Math.max(0, circleToPolygonDistance(b.center, b.radius, a.points));
+    }
+
+    // 凸多角形同士は、頂点と相手の辺の距離の最小値
+    const distances = [
+        ...a.points.flatMap(point => getEdges(b.points).map(([start, end]) => distanceToSegment(point, start, end))),
+        ...b.points.flatMap(point => getEdges(a.points).map(([start, end]) => distanceToSegment(point, start, end)))
+    ];
+    return Math.max(0, Math.min(...distances));
+};
+
+/**
+ * 占有範囲同士が指定した間隔以上離れているか
+ */
+export const hasClearance = (a: Footprint, b: Footprint, clearance: number): boolean =>
+    !footprintsOverlap(a, b) && footprintDistance(a, b) >= clearance - EPSILON;
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getTablesBounds,
+    expandToGroups,
+    getMovableIds,
+    getDragTargets,
+    constrainDragPosition,
+    moveDragTargets,
+    buildSelectionUnits,
+    getAlignmentOffsets,
+    remapGroupIds,
+    cleanupGroups
+} from './groupUtils';
+import type { TableObject } from '../types/index';
+import { createRectangle, createScale } from '../test/fixtures';
+
+// 幅200mm・高さ100mmの長方形
+const createTable = (id: string, x: number, y: number, options: { groupId?: string; locked?: boolean } = {}): TableObject =>
+    createRectangle(id, x, y, { width: 200, height: 100, ...options });
+
+const tables = [
+    createTable('a', 0, 0, { groupId: 'g1' }),
+    createTable('b', 1000, 0),
+    createTable('c', 500, 500, { groupId: 'g1' }),
+    createTable('d', 2000, 0, { groupId: 'g2' }),
+    createTable('e', 3000, 0, { groupId: 'g2', locked: true })
+];
+
+describe('getTablesBounds', () => {
+    it('まとまり全体の外接矩形を返す', () => {
+        expect(getTablesBounds([tables[0], tables[2]])).toEqual({
+            minX: -100, minY: -50, maxX: 600, maxY: 550,
+            centerX: 250, centerY: 250, width: 700, height: 600
+        });
+    });
+});
+
+describe('expandToGroups', () => {
+    it('グループのメンバーを最初に現れたメンバーの直後に追加する', () => {
+        expect(expandToGroups(tables, ['b', 'c'])).toEqual(['b', 'c', 'a']);
+        expect(expandToGroups(tables, ['a', 'c', 'd'])).toEqual(['a', 'c', 'd', 'e']);
+    });
+});
+
+describe('getMovableIds', () => {
+    it('ロック中のメンバーを含むグループは、グループ全体を動かさない', () => {
+        expect(getMovableIds(tables, ['d'])).toEqual([]);
+        expect(getMovableIds(tables, ['a', 'b', 'd'])).toEqual(['a', 'c', 'b']);
+    });
+
+    it('ロック中の単独のオブジェクトは動かさない', () => {
+        const withLocked = [...tables, createTable('f', 0, 0, { locked: true })];
+        expect(getMovableIds(withLocked, ['b', 'f'])).toEqual(['b']);
+    });
+});
+
+describe('ドラッグで一緒に動くオブジェクト', () => {
+    // 左右-500〜3500mm・上下-500〜1500mmの境界
+    const bounds = { x: -500, y: -500, width: 4000, height: 2000 };
+    const byId = (id: string) => tables.find(table => table.id === id) as TableObject;
+    const idsOf = (targets: TableObject[]) => targets.map(table => table.id);
+
+    it('リーダーが境界の端でなくても、一緒に動くオブジェクトが境界内に収まるように止める', () => {
+        const targets = getDragTargets(tables, ['a', 'b'], byId('a'));
+        expect(idsOf(targets)).toEqual(['a', 'b', 'c']);
+
+        // 右端のbが境界の右端（3500mm）で止まる
+        const position = constrainDragPosition(byId('a'), targets, { x: 2500, y: 0 }, bounds);
+        expect(position).toEqual({ x: 2400, y: 0 });
+        expect(moveDragTargets(targets, byId('a'), position).map(table => table.position)).toEqual([
+            { x: 2400, y: 0 },
+            { x: 3400, y: 0 },
+            { x: 2900, y: 500 }
+        ]);
+    });
+
+    it('選択外のオブジェクトをドラッグした場合はそのオブジェクトだけで制約する', () => {
+        const targets = getDragTargets(tables, ['a'], byId('b'));
+        expect(idsOf(targets)).toEqual(['b']);
+        expect(constrainDragPosition(byId('b'), targets, { x: 3500, y: 0 }, bounds)).toEqual({ x: 3400, y: 0 });
+    });
+
+    it('ロック中のメンバーを含むグループは選択していても動かさない', () => {
+        const targets = getDragTargets(tables, ['a', 'd'], byId('a'));
+        expect(idsOf(targets)).toEqual(['a', 'c']);
+
+        const moved = moveDragTargets(targets, byId('a'), { x: 100, y: 100 });
+        expect(idsOf(moved)).toEqual(['a', 'c']);
+        expect(moved[1].position).toEqual({ x: 600, y: 600 });
+    });
+
+    it('縮尺（寸法線）だけの場合は制約しない', () => {
+        const scale = createScale('s', 'a', 'b');
+        expect(constrainDragPosition(scale, [scale], { x: 9000, y: 9000 }, bounds)).toEqual({ x: 9000, y: 9000 });
+    });
+});
+
+describe('buildSelectionUnits', () => {
+    it('選択をグループ単位のまとまりに分ける', () => {
+        const units = buildSelectionUnits(tables, ['c', 'b', 'e']);
+
+        expect(units.map(unit => unit.ids)).toEqual([['a', 'c'], ['b'], ['d', 'e']]);
+        expect(units.map(unit => unit.locked)).toEqual([false, false, true]);
+        expect(units[1].bounds).toMatchObject({ minX: 900, maxX: 1100, width: 200, height: 100 });
+    });
+
+    it('縮尺（寸法線）はまとまりに含めない', () => {
+        const scale = createScale('s', 'a', 'b');
+        expect(buildSelectionUnits([...tables, scale], ['s', 'b']).map(unit => unit.ids)).toEqual([['b']]);
+    });
+});
+
+describe('getAlignmentOffsets', () => {
+    const alignLeft = getAlignmentOffsets(buildSelectionUnits(tables, ['b', 'a', 'd']), (unit, primary) => ({
+        x: primary.bounds.minX - unit.bounds.minX,
+        y: 0
+    }));
+
+    it('最初の単位を基準に、グループのメンバーは同じだけ移動する', () => {
+        expect(alignLeft.get('b')).toEqual({ x: 0, y: 0 });
+        expect(alignLeft.get('a')).toEqual({ x: 1000, y: 0 });
+        expect(alignLeft.get('c')).toEqual({ x: 1000, y: 0 });
+    });
+
+    it('ロック中のオブジェクトを含む単位は動かさない', () => {
+        expect(alignLeft.has('d')).toBe(false);
+        expect(alignLeft.has('e')).toBe(false);
+    });
+
+    it('ロック中の単位が基準の場合は、基準として使い他の単位を揃える', () => {
+        const offsets = getAlignmentOffsets(buildSelectionUnits(tables, ['e', 'b']), (unit, primary) => ({
+            x: 0,
+            y: primary.bounds.maxY - unit.bounds.maxY
+        }));
+        expect([...offsets.keys()]).toEqual(['b']);
+    });
+});
+
+describe('remapGroupIds', () => {
+    it('同じグループだったものを新しい同じグループにまとめる', () => {
+        const remapped = remapGroupIds(tables);
+        const [a, b, c, d, e] = remapped.map(table => table.groupId);
+
+        expect(a).toBe(c);
+        expect(d).toBe(e);
+        expect(a).not.toBe(d);
+        expect(a).not.toBe('g1');
+        expect(b).toBeUndefined();
+    });
+});
+
+describe('cleanupGroups', () => {
+    it('メンバーが1つ以下になったグループを解除する', () => {
+        const cleaned = cleanupGroups(tables.filter(table => table.id !== 'c'));
+        expect(cleaned.map(table => table.groupId)).toEqual([undefined, undefined, 'g2', 'g2']);
+    });
+});
@@ -0,0 +1,214 @@
+import { type TableObject, type TableBounds, type Position, type BoundaryArea, circumscriptionSizeFullForTables } from '../types/index';
+
+/**
+ * 選択操作の単位（グループまたは単独のオブジェクト）
+ */
+export interface SelectionUnit {
+    ids: string[];
+    tables: TableObject[];
+    bounds: TableBounds & { width: number; height: number };
+    locked: boolean;
+}
+
+/**
+ * 新しいグループIDを生成
+ */
+export const createGroupId = (): string =>
+    `group_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * オブジェクトのまとまりの外接矩形を取得
+ */
+export const getTablesBounds = (tables: TableObject[]): TableBounds & { width: number; height: number } => {
+    const { width, height, corners } = circumscriptionSizeFullForTables(tables);
+    return {
+        minX: corners.topLeft.x,
+        minY: corners.topLeft.y,
+        maxX: corners.bottomRight.x,
+        maxY: corners.bottomRight.y,
+        centerX: corners.topLeft.x + width / 2,
+        centerY: corners.topLeft.y + height / 2,
+        width,
+        height
+    };
+};
+
+/**
+ * 同じグループのメンバーを取得
+ */
+export const getGroupMembers = (tables: TableObject[], groupId: string): TableObject[] =>
+    tables.filter(table => table.groupId === groupId);
+
+/**
+ * IDの一覧をグループ単位に展開する
+ * 元の順序を維持し、グループのメンバーは最初に現れたメンバーの直後に追加する
+ */
+export const expandToGroups = (tables: TableObject[], ids: string[]): string[] => {
+    const result: string[] = [];
+
+    ids.forEach(id => {
+        if (result.includes(id)) return;
+        result.push(id);
+
+        const table = tables.find(t => t.id === id);
+        if (table?.groupId) {
+            getGroupMembers(tables, table.groupId).forEach(member => {
+                if (!result.includes(member.id)) {
+                    result.push(member.id);
+                }
+            });
+        }
+    });
+
+    return result;
+};
+
+/**
+ * ロック中のメンバーを含むグループのIDを取得
+ */
+export const getLockedGroupIds = (tables: TableObject[]): Set<string> =>
+    new Set(tables.filter(table => table.locked && table.groupId).map(table => table.groupId as string));
+
+/**
+ * オブジェクトを動かせるかどうか
+ * グループのメンバーが1つでもロック中なら、グループ全体を動かさない
+ */
+export const isTableMovable = (table: TableObject, lockedGroupIds: Set<string>): boolean =>
+    !table.locked && !(table.groupId && lockedGroupIds.has(table.groupId));
+
+/**
+ * IDの一覧をグループ単位に展開し、動かせるオブジェクトのIDだけを返す
+ */
+export const getMovableIds = (tables: TableObject[], ids: string[]): string[] => {
+    const lockedGroupIds = getLockedGroupIds(tables);
+    const tableMap = new Map(tables.map(table => [table.id, table]));
+
+    return expandToGroups(tables, ids).filter(id => {
+        const table = tableMap.get(id);
+        return !!table && isTableMovable(table, lockedGroupIds);
+    });
+};
+
+/**
+ * ドラッグで一緒に動くオブジェクトを取得
+ * 選択外のオブジェクトをドラッグした場合はそのオブジェクト（とグループ）だけを動かす
+ */
+export const getDragTargets = (tables: TableObject[], selectedIds: string[], leadTable: TableObject): TableObject[] => {
+    const ids = getMovableIds(tables, selectedIds.includes(leadTable.id) ? selectedIds : [leadTable.id]);
+    return tables.filter(table => ids.includes(table.id));
+};
+
+/**
+ * 一緒に動くオブジェクト全体の外接矩形が境界内に収まるように、リーダーの移動先の中心座標を制約
+ */
+export const constrainDragPosition = (
+    leadTable: TableObject,
+    movingTables: TableObject[],
+    center: Position,
+    bounds: BoundaryArea
+): Position => {
+    // 縮尺（寸法線）は大きさを持たないため外接矩形の計算から除く
+    const measuredTables = movingTables.filter(table => table.type !== 'scale');
+    if (measuredTables.length === 0) return center;
+
+    const union = getTablesBounds(measuredTables);
+    const deltaX = Math.max(bounds.x - union.minX, Math.min(bounds.x + bounds.width - union.maxX, center.x - leadTable.position.x));
+    const deltaY = Math.max(bounds.y - union.minY, Math.min(bounds.y + bounds.height - union.maxY, center.y - leadTable.position.y));
+
+    return {
+        x: leadTable.position.x + deltaX,
+        y: leadTable.position.y + deltaY
+    };
+};
+
+/**
+ * リーダーの移動量と同じだけ、一緒に動くオブジェクトを移動する
+ */
+export const moveDragTargets = (movingTables: TableObject[], leadTable: TableObject, position: Position): TableObject[] => {
+    const deltaX = position.x - leadTable.position.x;
+    const deltaY = position.y - leadTable.position.y;
+    return movingTables.map(table => ({
+        ...table,
+        position: { x: table.position.x + deltaX, y: table.position.y + deltaY }
+    }));
+};
+
+/**
+ * 選択されたIDをグループ単位のまとまりに分ける（最初の単位が整列の基準）
+ */
+export const buildSelectionUnits = (tables: TableObject[], ids: string[]): SelectionUnit[] => {
+    const units: SelectionUnit[] = [];
+    const handled = new Set<string>();
+
+    expandToGroups(tables, ids).forEach(id => {
+        if (handled.has(id)) return;
+
+        const table = tables.find(t => t.id === id);
+        if (!table || table.type === 'scale') return;
+
+        const unitTables = table.groupId ? getGroupMembers(tables, table.groupId) : [table];
+        unitTables.forEach(member => handled.add(member.id));
+
+        units.push({
+            ids: unitTables.map(member => member.id),
+            tables: unitTables,
+            bounds: getTablesBounds(unitTables),
+            locked: unitTables.some(member => member.locked)
+        });
+    });
+
+    return units;
+};
+
+/**
+ * 整列するためのオブジェクトごとの移動量を取得
+ * 最初の単位を基準とし、ロック中のオブジェクトを含む単位は動かさない
+ */
+export const getAlignmentOffsets = (
+    units: SelectionUnit[],
+    getOffset: (unit: SelectionUnit, primary: SelectionUnit) => Position
+): Map<string, Position> => {
+    const offsets = new Map<string, Position>();
+    if (units.length === 0) return offsets;
+
+    const primary = units[0];
+    units.forEach(unit => {
+        if (unit.locked) return;
+        const offset = getOffset(unit, primary);
+        unit.ids.forEach(id => offsets.set(id, offset));
+    });
+    return offsets;
+};
+
+/**
+ * 複製したオブジェクトに新しいグループIDを振り直す
+ * 同じ呼び出し内で同じグループだったものは、新しい同じグループにまとめる
+ */
+export const remapGroupIds = (tables: TableObject[]): TableObject[] => {
+    const groupIdMap = new Map<string, string>();
+
+    return tables.map(table => {
+        if (!table.groupId) return table;
+        if (!groupIdMap.has(table.groupId)) {
+            groupIdMap.set(table.groupId, createGroupId());
+        }
+        return { ...table, groupId: groupIdMap.get(table.groupId) };
+    });
+};
+
+/**
+ * メンバーが1つ以下になったグループを解除する
+ */
+export const cleanupGroups = (tables: TableObject[]): TableObject[] => {
+    const counts = new Map<string, number>();
+    tables.forEach(table => {
+        if (table.groupId) {
+            counts.set(table.groupId, (counts.get(table.groupId) || 0) + 1);
+        }
+    });
+
+    return tables.map(table => {
+        if (!table.groupId || (counts.get(table.groupId) || 0) >= 2) return table;
+        return { ...table, groupId: undefined };
+    });
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getPaperDimensions,
+    computePageLayout,
+    getRasterSize,
+    getExportStrokeWidth,
+    escapeXml,
+    type LayoutExportOptions
+} from './layoutExport';
+
+const options: LayoutExportOptions = {
+    sizeMode: 'scale',
+    scaleDenominator: 100,
+    paperSize: 'A3',
+    orientation: 'landscape',
+    dpi: 254,
+    margin: 10
+};
+
+describe('getPaperDimensions', () => {
+    it('横向きの場合は幅と高さを入れ替える', () => {
+        expect(getPaperDimensions('A4', 'portrait')).toEqual({ width: 210, height: 297 });
+        expect(getPaperDimensions('A4', 'landscape')).toEqual({ width: 297, height: 210 });
+    });
+});
+
+describe('computePageLayout', () => {
+    it('縮尺指定の場合は会場図の大きさに余白を加えたページを作る', () => {
+        const layout = computePageLayout(20000, 10000, options);
+        expect(layout).toEqual({ pageWidth: 220, pageHeight: 120, scale: 0.01, offsetX: 10, offsetY: 10 });
+    });
+
+    it('用紙サイズ指定の場合は余白の内側に収まるよう縮小して中央に配置する', () => {
+        // A3横（420×297mm）、余白10mm → 400×277mmに収める
+        const layout = computePageLayout(20000, 10000, { ...options, sizeMode: 'paper' });
+
+        expect(layout.pageWidth).toBe(420);
+        expect(layout.pageHeight).toBe(297);
+        expect(layout.scale).toBeCloseTo(0.02);
+        expect(layout.offsetX).toBeCloseTo(10);
+        expect(layout.offsetY).toBeCloseTo((297 - 200) / 2);
+    });
+
+    it('縦長の会場図は高さに合わせる', () => {
+        const layout = computePageLayout(10000, 27700, { ...options, sizeMode: 'paper' });
+
+        expect(layout.scale).toBeCloseTo(0.01);
+        expect(layout.offsetX).toBeCloseTo((420 - 100) / 2);
+        expect(layout.offsetY).toBeCloseTo(10);
+    });
+});
+
+describe('getRasterSize', () => {
+    it('解像度からピクセル数を求める', () => {
+        // 254dpi = 10ピクセル/mm
+        expect(getRasterSize({ pageWidth: 220, pageHeight: 120, scale: 0.01, offsetX: 10, offsetY: 10 }, 254))
+            .toEqual({ width: 2200, height: 1200 });
+    });
+});
+
+describe('getExportStrokeWidth', () => {
+    it('用紙上で一定の太さになるよう会場図のmmに換算する', () => {
+        expect(getExportStrokeWidth(0.01)).toBeCloseTo(25);
+    });
+});
+
+describe('escapeXml', () => {
+    it('XMLの特殊文字をエスケープする', () => {
+        expect(escapeXml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+    });
+});
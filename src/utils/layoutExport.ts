@@ -0,0 +1,491 @@
+import {
+    type SVGData,
+    type TableObject,
+    type RectangleProps,
+    type CircleProps,
+    type SVGTableProps,
+    type TextBoxProps
+} from '../types/index';
+import { sortByZIndex } from './zOrder';
+import { getScaleMeasurement, formatScaleDistance } from './scaleGeometry';
+import { parseSVGElementDimensions } from './svgDimensions';
+
+/**
+ * レイアウト図（PNG・SVG）の書き出し
+ *
+ * 画面のズーム・パンとは無関係に、会場図全体をmm単位の座標から描き直す。
+ * PNGは同じSVGをラスタライズして作成するため、両者の見た目は一致する。
+ */
+
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+export type ExportSizeMode = 'scale' | 'paper';
+export type PaperSize = 'A4' | 'A3' | 'A2' | 'A1';
+export type PaperOrientation = 'landscape' | 'portrait';
+
+/**
+ * 用紙サイズ（縦向き、mm）
+ */
+export const PAPER_SIZES: { [key in PaperSize]: { width: number; height: number } } = {
+    A4: { width: 210, height: 297 },
+    A3: { width: 297, height: 420 },
+    A2: { width: 420, height: 594 },
+    A1: { width: 594, height: 841 }
+};
+
+export interface LayoutExportOptions {
+    sizeMode: ExportSizeMode;   // 縮尺指定か用紙サイズに合わせるか
+    scaleDenominator: number;   // 縮尺 1:N のN（sizeModeがscaleの場合）
+    paperSize: PaperSize;
+    orientation: PaperOrientation;
+    dpi: number;                // PNGの解像度
+    margin: number;             // 用紙の余白（mm）
+}
+
+/**
+ * 出力ページ上の配置（ページ寸法・オフセットは用紙上のmm）
+ */
+export interface ExportPageLayout {
+    pageWidth: number;
+    pageHeight: number;
+    scale: number;      // 会場図1mmあたりの用紙上のmm
+    offsetX: number;
+    offsetY: number;
+}
+
+// 出力時の線の太さと矢印の大きさ（用紙上のmm）
+const EXPORT_LINE_WIDTH = 0.25;
+const EXPORT_ARROW_SIZE = 2;
+
+// テキストボックスの内側余白（TextBoxRendererと同じ値、mm）
+const TEXTBOX_PADDING = 100;
+
+// 寸法線の文字サイズ（ScaleRendererと同じ値、mm）
+const SCALE_FONT_SIZE = 250;
+
+// ブラウザのcanvasで扱える最大サイズ
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 268435456;
+
+/**
+ * 用紙の向きを考慮した用紙寸法（mm）
+ */
+export const getPaperDimensions = (paperSize: PaperSize, orientation: PaperOrientation): { width: number; height: number } => {
+    const { width, height } = PAPER_SIZES[paperSize];
+    return orientation === 'landscape'
+        ? { width: height, height: width }
+        : { width, height };
+};
+
+/**
+ * 会場図を出力ページに配置する
+ */
+export const computePageLayout = (
+    contentWidth: number,
+    contentHeight: number,
+    options: LayoutExportOptions
+): ExportPageLayout => {
+    const margin = Math.max(0, options.margin);
+
+    if (options.sizeMode === 'scale') {
+        // 縮尺指定の場合は会場図の大きさに合わせてページを作る
+        const scale = 1 / Math.max(1, options.scaleDenominator);
+        return {
+            pageWidth: contentWidth * scale + margin * 2,
+            pageHeight: contentHeight * scale + margin * 2,
+            scale,
+            offsetX: margin,
+            offsetY: margin
+        };
+    }
+
+    // 用紙サイズ指定の場合は余白の内側に収まるよう縮小して中央に配置
+    const paper = getPaperDimensions(options.paperSize, options.orientation);
+    const scale = Math.min(
+        (paper.width - margin * 2) / contentWidth,
+        (paper.height - margin * 2) / contentHeight
+    );
+    return {
+        pageWidth: paper.width,
+        pageHeight: paper.height,
+        scale,
+        offsetX: (paper.width - contentWidth * scale) / 2,
+        offsetY: (paper.height - contentHeight * scale) / 2
+    };
+};
+
+/**
+ * PNG出力時のピクセル数
+ */
+export const getRasterSize = (layout: ExportPageLayout, dpi: number): { width: number; height: number } => {
+    const pixelsPerMm = dpi / 25.4;
+    return {
+        width: Math.round(layout.pageWidth * pixelsPerMm),
+        height: Math.round(layout.pageHeight * pixelsPerMm)
+    };
+};
+
+export const escapeXml = (text: string): string =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+// 数値を出力用に丸める
+const num = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+/**
+ * SVG文字列を指定位置・サイズの入れ子のsvg要素に変換
+ * viewBoxが無い場合は元のwidth/heightをviewBoxとして使い、画面表示と同じく引き伸ばして描画する
+ */
+const toNestedSVG = (content: string, x: number, y: number, width: number, height: number): string | null => {
+    const doc = new DOMParser().parseFromString(content, 'image/svg+xml');
+    const svgElement = doc.querySelector('svg');
+    if (!svgElement || doc.querySelector('parsererror')) {
+        return null;
+    }
+
+    // viewBoxが無い場合はwidth/heightの単位を考慮した座標系を補う
+    if (!svgElement.getAttribute('viewBox')) {
+        const { dimensions } = parseSVGElementDimensions(svgElement);
+        if (dimensions) {
+            const { viewBox } = dimensions;
+            svgElement.setAttribute('viewBox', `${num(viewBox.x)} ${num(viewBox.y)} ${num(viewBox.width)} ${num(viewBox.height)}`);
+        }
+    }
+
+    svgElement.setAttribute('x', num(x));
+    svgElement.setAttribute('y', num(y));
+    svgElement.setAttribute('width', num(width));
+    svgElement.setAttribute('height', num(height));
+    svgElement.setAttribute('preserveAspectRatio', 'none');
+
+    return new XMLSerializer().serializeToString(svgElement);
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureTextWidth = (text: string, fontSize: number, fontFamily: string): number => {
+    if (!measureContext) {
+        measureContext = document.createElement('canvas').getContext('2d');
+    }
+    if (!measureContext) {
+        return text.length * fontSize;
+    }
+    measureContext.font = `${fontSize}px ${fontFamily}`;
+    return measureContext.measureText(text).width;
+};
+
+/**
+ * テキストを指定幅で折り返す（Konvaのword折り返しに合わせ、単語が収まらない場合は文字単位で折り返す）
+ */
+const wrapText = (text: string, maxWidth: number, fontSize: number, fontFamily: string): string[] => {
+    const lines: string[] = [];
+
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        const pushToken = (token: string) => {
+            const candidate = line + token;
+            if (line === '' || measureTextWidth(candidate, fontSize, fontFamily) <= maxWidth) {
+                line = candidate;
+                return;
+            }
+            lines.push(line.trimEnd());
+            line = token.trimStart();
+        };
+
+        paragraph.split(/(?<=\s)/).forEach(word => {
+            if (measureTextWidth(word, fontSize, fontFamily) <= maxWidth) {
+                pushToken(word);
+            } else {
+                Array.from(word).forEach(pushToken);
+            }
+        });
+        lines.push(line.trimEnd());
+    });
+
+    return lines;
+};
+
+/**
+ * オブジェクト1つ分のSVG要素（座標は会場図のmm）
+ */
+const renderTableElement = (table: TableObject, allTables: TableObject[], strokeWidth: number): string => {
+    const { x, y } = table.position;
+
+    switch (table.type) {
+        case 'rectangle': {
+            const props = table.properties as RectangleProps;
+            return `<rect x="${num(-props.width / 2)}" y="${num(-props.height / 2)}" width="${num(props.width)}" height="${num(props.height)}" ` +
+                `fill="${escapeXml(props.fillColor)}" stroke="${escapeXml(props.strokeColor)}" stroke-width="${num(strokeWidth)}" ` +
+                `transform="translate(${num(x)} ${num(y)}) rotate(${num(props.rotationAngle)})"/>`;
+        }
+
+        case 'circle': {
+            const props = table.properties as CircleProps;
+            return `<circle cx="${num(x)}" cy="${num(y)}" r="${num(props.radius)}" ` +
+                `fill="${escapeXml(props.fillColor)}" stroke="${escapeXml(props.strokeColor)}" stroke-width="${num(strokeWidth)}"/>`;
+        }
+
+        case 'svg': {
+            const props = table.properties as SVGTableProps;
+            const transform = `translate(${num(x)} ${num(y)}) rotate(${num(props.rotationAngle)})`;
+            const nested = props.svgContent
+                ? toNestedSVG(props.svgContent, -props.width / 2, -props.height / 2, props.width, props.height)
+                : null;
+            if (nested) {
+                return `<g transform="${transform}">${nested}</g>`;
+            }
+            // 画面表示と同じく、内容が無い場合は仮の矩形を描画
+            return `<rect x="${num(-props.width / 2)}" y="${num(-props.height / 2)}" width="${num(props.width)}" height="${num(props.height)}" ` +
+                `fill="rgba(200, 200, 200, 0.5)" stroke="rgba(100, 100, 100, 0.8)" stroke-width="${num(strokeWidth)}" ` +
+                `stroke-dasharray="${num(strokeWidth * 5)} ${num(strokeWidth * 5)}" transform="${transform}"/>`;
+        }
+
+        case 'textbox': {
+            const props = table.properties as TextBoxProps;
+            const textWidth = props.width - TEXTBOX_PADDING * 2;
+            const lines = wrapText(props.text, textWidth, props.fontSize, props.fontFamily);
+            const left = -props.width / 2 + TEXTBOX_PADDING;
+            const top = -props.height / 2 + TEXTBOX_PADDING;
+            const tspans = lines
+                .map((line, index) => `<tspan x="${num(left)}" y="${num(top + index * props.fontSize)}">${escapeXml(line)}</tspan>`)
+                .join('');
+            return `<text font-size="${num(props.fontSize)}" font-family="${escapeXml(props.fontFamily)}" fill="${escapeXml(props.textColor)}" ` +
+                `dominant-baseline="hanging" xml:space="preserve" transform="translate(${num(x)} ${num(y)}) rotate(${num(props.rotationAngle)})">${tspans}</text>`;
+        }
+
+        case 'scale': {
+            const measurement = getScaleMeasurement(table, allTables);
+            if (!measurement || measurement.scaleType === 'none') return '';
+            return renderScaleElement(measurement.startX, measurement.startY, measurement.endX, measurement.endY,
+                measurement.scaleType, formatScaleDistance(measurement), strokeWidth);
+        }
+
+        default:
+            return '';
+    }
+};
+
+/**
+ * 寸法線（両端矢印と距離の文字）
+ */
+const renderScaleElement = (
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    scaleType: 'horizontal' | 'vertical' | 'digonal',
+    label: string,
+    strokeWidth: number
+): string => {
+    const length = Math.hypot(endX - startX, endY - startY);
+    if (length === 0) return '';
+
+    const arrowSize = strokeWidth * (EXPORT_ARROW_SIZE / EXPORT_LINE_WIDTH);
+    const ux = (endX - startX) / length;
+    const uy = (endY - startY) / length;
+
+    // 先端(tipX, tipY)から向き(dx, dy)と逆方向に広がる矢印
+    const arrowHead = (tipX: number, tipY: number, dx: number, dy: number) => {
+        const baseX = tipX - dx * arrowSize;
+        const baseY = tipY - dy * arrowSize;
+        const half = arrowSize / 2;
+        return `<polygon points="${num(tipX)},${num(tipY)} ${num(baseX - dy * half)},${num(baseY + dx * half)} ${num(baseX + dy * half)},${num(baseY - dx * half)}" fill="#000"/>`;
+    };
+
+    // 文字の位置は画面表示（ScaleRenderer）に合わせる
+    const midX = (startX + endX) / 2;
+    const midY = (startY + endY) / 2;
+    const labelOffset = SCALE_FONT_SIZE / 5;
+    const textAttributes = scaleType === 'horizontal'
+        ? `x="${num(midX)}" y="${num(midY + labelOffset)}" text-anchor="middle" dominant-baseline="hanging"`
+        : scaleType === 'vertical'
+            ? `x="${num(midX + labelOffset)}" y="${num(midY)}" dominant-baseline="middle"`
+            : `x="${num(midX)}" y="${num(midY)}" dominant-baseline="hanging"`;
+
+    return `<g>` +
+        `<line x1="${num(startX)}" y1="${num(startY)}" x2="${num(endX)}" y2="${num(endY)}" stroke="#000" stroke-width="${num(strokeWidth)}"/>` +
+        arrowHead(endX, endY, ux, uy) +
+        arrowHead(startX, startY, -ux, -uy) +
+        `<text ${textAttributes} font-size="${SCALE_FONT_SIZE}" font-family="sans-serif" fill="#000">${escapeXml(label)}</text>` +
+        `</g>`;
+};
+
+/**
+ * 用紙上の縮尺に応じた線の太さ（会場図のmm）
+ */
+export const getExportStrokeWidth = (scale: number): number => EXPORT_LINE_WIDTH / scale;
+
+/**
+ * 会場図と全オブジェクトを描画したSVG要素群（座標は会場図のmm）
+ * 印刷など他の出力でも共通して使う
+ */
+export const renderLayoutContent = (svgData: SVGData, tables: TableObject[], strokeWidth: number): string => {
+    const room = toNestedSVG(svgData.content, 0, 0, svgData.width, svgData.height) || '';
+    const objects = sortByZIndex(tables)
+        .map(table => renderTableElement(table, tables, strokeWidth))
+        .join('');
+    return room + objects;
+};
+
+/**
+ * レイアウト図のSVG文字列を作成
+ * outputSizeはルート要素のwidth/height（"297mm"や"3508"など）
+ */
+export const buildLayoutSVG = (
+    svgData: SVGData,
+    tables: TableObject[],
+    layout: ExportPageLayout,
+    outputSize: { width: string; height: string }
+): string => {
+    const strokeWidth = getExportStrokeWidth(layout.scale);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n` +
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${outputSize.width}" height="${outputSize.height}" ` +
+        `viewBox="0 0 ${num(layout.pageWidth)} ${num(layout.pageHeight)}">` +
+        `<defs><clipPath id="layout-export-clip"><rect x="0" y="0" width="${num(svgData.width)}" height="${num(svgData.height)}"/></clipPath></defs>` +
+        `<rect x="0" y="0" width="${num(layout.pageWidth)}" height="${num(layout.pageHeight)}" fill="#fff"/>` +
+        `<g transform="translate(${num(layout.offsetX)} ${num(layout.offsetY)}) scale(${layout.scale})" clip-path="url(#layout-export-clip)">` +
+        renderLayoutContent(svgData, tables, strokeWidth) +
+        `</g></svg>`;
+};
+
+/**
+ * ベクター形式のSVGとして書き出す
+ */
+export const exportLayoutAsSVG = (svgData: SVGData, tables: TableObject[], options: LayoutExportOptions): Blob => {
+    const layout = computePageLayout(svgData.width, svgData.height, options);
+    const svgString = buildLayoutSVG(svgData, tables, layout, {
+        width: `${num(layout.pageWidth)}mm`,
+        height: `${num(layout.pageHeight)}mm`
+    });
+    return new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
+};
+
+/**
+ * SVG文字列を画像として読み込む
+ */
+export const loadSVGImage = (svgString: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new window.Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('レイアウト図の描画に失敗しました'));
+        img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgString)}`;
+    });
+};
+
+/**
+ * canvasの内容を画像として取り出す
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string = 'image/png', quality?: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (blob) {
+                resolve(blob);
+            } else {
+                reject(new Error('画像の作成に失敗しました'));
+            }
+        }, type, quality);
+    });
+};
+
+/**
+ * SVG文字列を指定ピクセル数の白背景のcanvasに描画
+ */
+export const rasterizeSVG = async (svgString: string, width: number, height: number): Promise<HTMLCanvasElement> => {
+    if (width <= 0 || height <= 0) {
+        throw new Error('出力サイズが小さすぎます');
+    }
+    if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_AREA) {
+        throw new Error(`出力サイズ（${width}×${height}px）が大きすぎます。解像度または縮尺を変更してください`);
+    }
+
+    const image = await loadSVGImage(svgString);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('画像の作成に失敗しました');
+    }
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, 0, 0, width, height);
+    return canvas;
+};
+
+// PNGのチャンク用CRC32
+const crcTable = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * PNGに解像度情報（pHYsチャンク）を埋め込み、印刷時に指定したDPIで扱われるようにする
+ */
+const setPNGResolution = async (png: Blob, dpi: number): Promise<Blob> => {
+    const bytes = new Uint8Array(await png.arrayBuffer());
+    // シグネチャ(8) + IHDRチャンク(25)の直後に挿入する
+    const insertAt = 33;
+    if (bytes.length < insertAt) return png;
+
+    const pixelsPerMeter = Math.round(dpi / 0.0254);
+    const chunk = new Uint8Array(21);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, 9);
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+    view.setUint32(8, pixelsPerMeter);
+    view.setUint32(12, pixelsPerMeter);
+    chunk[16] = 1; // 単位はメートル
+    view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+    return new Blob([bytes.subarray(0, insertAt), chunk, bytes.subarray(insertAt)], { type: 'image/png' });
+};
+
+/**
+ * 高解像度のPNGとして書き出す
+ */
+export const exportLayoutAsPNG = async (svgData: SVGData, tables: TableObject[], options: LayoutExportOptions): Promise<Blob> => {
+    const layout = computePageLayout(svgData.width, svgData.height, options);
+    const { width, height } = getRasterSize(layout, options.dpi);
+
+    const svgString = buildLayoutSVG(svgData, tables, layout, { width: String(width), height: String(height) });
+    const canvas = await rasterizeSVG(svgString, width, height);
+
+    const png = await canvasToBlob(canvas, 'image/png');
+    return setPNGResolution(png, options.dpi);
+};
+
+/**
+ * Blobをファイルとしてダウンロード
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+};
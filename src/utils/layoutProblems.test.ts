@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { checkBoundary, findLayoutProblems } from './layoutProblems';
+import { createRectangle, createScale } from '../test/fixtures';
+
+const area = { x: 0, y: 0, width: 5000, height: 3000 };
+
+describe('checkBoundary', () => {
+    it('収まっている場合は問題なし', () => {
+        expect(checkBoundary(createRectangle('a', 500, 100), area)).toEqual({ isValid: true, violations: [] });
+    });
+
+    it('はみ出している辺と距離、収まる位置を返す', () => {
+        const result = checkBoundary(createRectangle('a', 100, 1000), area);
+
+        expect(result.isValid).toBe(false);
+        expect(result.violations).toEqual([{ type: 'partial', side: 'left', distance: 400, severity: 'warning' }]);
+        expect(result.constrainedPosition).toEqual({ x: 500, y: 1000 });
+        expect(result.message).toBe('境界エリアの左にはみ出しています');
+    });
+
+    it('角からはみ出している場合は両方の辺を返す', () => {
+        const result = checkBoundary(createRectangle('a', 4900, 2950), area);
+
+        expect(result.violations.map(violation => violation.side)).toEqual(['right', 'bottom']);
+        expect(result.message).toBe('境界エリアの右・下にはみ出しています');
+    });
+
+    it('境界エリアの外にある場合はエラー', () => {
+        const result = checkBoundary(createRectangle('a', 10000, 1000), area);
+
+        expect(result.violations).toEqual([{ type: 'outside', side: 'right', distance: 5500, severity: 'error' }]);
+        expect(result.constrainedPosition).toEqual({ x: 4500, y: 1000 });
+        expect(result.message).toBe('境界エリアの外にあります');
+    });
+
+    it('計算誤差程度のはみ出しは問題としない', () => {
+        expect(checkBoundary(createRectangle('a', 499.995, 100), area).isValid).toBe(true);
+    });
+
+    it('縮尺（寸法線）は対象外', () => {
+        const scale = createScale('s', 'a', 'b', { x: -1000, y: -1000 });
+        expect(checkBoundary(scale, area).isValid).toBe(true);
+    });
+});
+
+describe('findLayoutProblems', () => {
+    const tables = [createRectangle('a', 1000, 1000), createRectangle('b', 1500, 1000), createRectangle('c', 100, 2000)];
+
+    it('重なりとはみ出しをまとめて返す', () => {
+        const problems = findLayoutProblems(tables, area);
+
+        expect(problems.map(problem => [problem.type, problem.ids])).toEqual([
+            ['overlap', ['a', 'b']],
+            ['boundary', ['c']]
+        ]);
+    });
+
+    it('境界エリアが未設定の場合ははみ出しを調べない', () => {
+        expect(findLayoutProblems(tables, null)).toEqual([{ type: 'overlap', ids: ['a', 'b'] }]);
+    });
+});
@@ -0,0 +1,79 @@
+import type { TableObject, BoundaryArea, BoundaryCheckResult, BoundaryViolation, LayoutProblem } from '../types/index';
+import { getCircumscribedBounds, findOverlappingPairs } from './overlap';
+
+/**
+ * レイアウトの問題点の検出
+ *
+ * オブジェクト同士の重なりと、境界エリアからのはみ出しを調べる。
+ * 境界エリアの判定はドラッグ時の境界制約（EnhancedCanvasのconstrainToBoundary）と同じく外接矩形で行う。
+ */
+
+// 計算誤差をはみ出しとしないための許容量（mm）
+const TOLERANCE = 0.01;
+
+const SIDE_LABELS: Record<BoundaryViolation['side'], string> = {
+    top: '上',
+    right: '右',
+    bottom: '下',
+    left: '左'
+};
+
+/**
+ * オブジェクトが境界エリアに収まっているかを調べる
+ */
+export const checkBoundary = (table: TableObject, area: BoundaryArea): BoundaryCheckResult => {
+    // 縮尺（寸法線）は大きさを持たないため対象外
+    if (table.type === 'scale') return { isValid: true, violations: [] };
+
+    const bounds = getCircumscribedBounds(table);
+    const areaRight = area.x + area.width;
+    const areaBottom = area.y + area.height;
+    const isOutside = bounds.maxX <= area.x || bounds.minX >= areaRight || bounds.maxY <= area.y || bounds.minY >= areaBottom;
+
+    const excesses: { side: BoundaryViolation['side']; distance: number }[] = [
+        { side: 'top', distance: area.y - bounds.minY },
+        { side: 'right', distance: bounds.maxX - areaRight },
+        { side: 'bottom', distance: bounds.maxY - areaBottom },
+        { side: 'left', distance: area.x - bounds.minX }
+    ];
+    const violations: BoundaryViolation[] = excesses
+        .filter(excess => excess.distance > TOLERANCE)
+        .map(excess => ({
+            type: isOutside ? 'outside' : 'partial',
+            side: excess.side,
+            distance: excess.distance,
+            severity: isOutside ? 'error' : 'warning'
+        }));
+    if (violations.length === 0) return { isValid: true, violations };
+
+    // 外接矩形が境界エリアに収まる位置（境界エリアより大きい場合は左上を合わせる）
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    const constrainedPosition = {
+        x: Math.max(area.x, Math.min(areaRight - width, bounds.minX)) + width / 2,
+        y: Math.max(area.y, Math.min(areaBottom - height, bounds.minY)) + height / 2
+    };
+
+    return {
+        isValid: false,
+        violations,
+        constrainedPosition,
+        message: isOutside
+            ? '境界エリアの外にあります'
+            : `境界エリアの${violations.map(violation => SIDE_LABELS[violation.side]).join('・')}にはみ出しています`
+    };
+};
+
+/**
+ * レイアウトの問題点をすべて取得（境界エリアが未設定の場合ははみ出しを調べない）
+ */
+export const findLayoutProblems = (tables: TableObject[], boundaryArea: BoundaryArea | null): LayoutProblem[] => {
+    const overlaps: LayoutProblem[] = findOverlappingPairs(tables).map(ids => ({ type: 'overlap', ids }));
+    if (!boundaryArea) return overlaps;
+
+    const boundaryProblems = tables.flatMap((table): LayoutProblem[] => {
+        const result = checkBoundary(table, boundaryArea);
+        return result.isValid ? [] : [{ type: 'boundary', ids: [table.id], result }];
+    });
+    return [...overlaps, ...boundaryProblems];
+};
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+    setTablesLocked,
+    setSameKindLocked,
+    updateUnlockedTable,
+    hasRoomLock,
+    setRoomLocked,
+    setBoundaryArea,
+    calibrateRoom
+} from './lockUtils';
+import type { LayoutState } from '../hooks/useLayoutHistory';
+import type { TableObject, SVGData } from '../types/index';
+import { createRectangle, createCircle, createScale } from '../test/fixtures';
+
+const svgTable = (id: string, filename: string): TableObject => ({
+    id,
+    type: 'svg',
+    position: { x: 0, y: 0 },
+    properties: { svgContent: '<svg/>', width: 900, height: 900, originalWidth: 100, originalHeight: 100, filename, rotationAngle: 0 },
+    zIndex: 0
+});
+
+const svgData: SVGData = {
+    content: '<svg/>',
+    width: 2000,
+    height: 1000,
+    viewBox: { x: 0, y: 0, width: 2000, height: 1000 },
+    bounds: { minX: 0, minY: 0, maxX: 2000, maxY: 1000 },
+    fileName: '会場'
+};
+
+const lockedIds = (tables: TableObject[]) => tables.filter(table => table.locked).map(table => table.id);
+
+describe('setTablesLocked', () => {
+    it('指定したオブジェクトだけをロック・ロック解除する', () => {
+        const tables = [createRectangle('a', 0, 0), createRectangle('b', 0, 0), createCircle('c', 0, 0)];
+        const locked = setTablesLocked(tables, ['a', 'c'], true);
+
+        expect(lockedIds(locked)).toEqual(['a', 'c']);
+        expect(lockedIds(setTablesLocked(locked, ['a'], false))).toEqual(['c']);
+    });
+
+    it('縮尺（寸法線）はロックしない', () => {
+        const tables = [createRectangle('a', 0, 0), createScale('s', 'a', 'a')];
+        expect(lockedIds(setTablesLocked(tables, ['a', 's'], true))).toEqual(['a']);
+    });
+});
+
+describe('setSameKindLocked', () => {
+    it('同じ種類のオブジェクトをまとめてロックする', () => {
+        const tables = [createRectangle('a', 0, 0), createCircle('b', 0, 0), createRectangle('c', 0, 0)];
+        expect(lockedIds(setSameKindLocked(tables, 'a', true))).toEqual(['a', 'c']);
+    });
+
+    it('SVGステンシルは同じファイルのものだけを同じ種類とする', () => {
+        const tables = [svgTable('a', 'chair.svg'), svgTable('b', 'piano.svg'), svgTable('c', 'chair.svg')];
+        const locked = setSameKindLocked(tables, 'a', true);
+
+        expect(lockedIds(locked)).toEqual(['a', 'c']);
+        expect(lockedIds(setSameKindLocked(locked, 'c', false))).toEqual([]);
+    });
+
+    it('縮尺（寸法線）や存在しないIDの場合は変更しない', () => {
+        const tables = [createRectangle('a', 0, 0), createScale('s', 'a', 'a')];
+        expect(setSameKindLocked(tables, 's', true)).toBe(tables);
+        expect(setSameKindLocked(tables, 'missing', true)).toBe(tables);
+    });
+});
+
+describe('updateUnlockedTable', () => {
+    const tables = [createRectangle('a', 0, 0), createRectangle('b', 0, 0, { locked: true })];
+
+    it('ロックされていないオブジェクトを移動・変形する', () => {
+        const moved = updateUnlockedTable(tables, 'a', { position: { x: 100, y: 200 } });
+        expect(moved[0].position).toEqual({ x: 100, y: 200 });
+        expect(moved[0].properties).toBe(tables[0].properties);
+
+        const properties = { ...tables[0].properties, width: 500 };
+        expect(updateUnlockedTable(tables, 'a', { position: { x: 0, y: 0 }, properties })[0].properties).toBe(properties);
+    });
+
+    it('ロック中のオブジェクトは移動・変形しない', () => {
+        const result = updateUnlockedTable(tables, 'b', { position: { x: 100, y: 200 }, properties: tables[0].properties });
+        expect(result[1]).toBe(tables[1]);
+    });
+});
+
+describe('会場図のロック', () => {
+    const state: LayoutState = {
+        svgData,
+        tables: [createCircle('a', 500, 250)],
+        boundaryArea: { x: 100, y: 100, width: 800, height: 600 }
+    };
+    const lockedState = setRoomLocked(state, true);
+
+    it('会場図をロック・ロック解除する', () => {
+        expect(hasRoomLock(state)).toBe(false);
+        expect(hasRoomLock(lockedState)).toBe(true);
+        expect(hasRoomLock(setRoomLocked(lockedState, false))).toBe(false);
+    });
+
+    it('会場図が無い場合は何もしない', () => {
+        const empty: LayoutState = { svgData: null, tables: [], boundaryArea: null };
+        expect(setRoomLocked(empty, true)).toBe(empty);
+        expect(hasRoomLock(empty)).toBe(false);
+    });
+
+    it('ロック中は境界エリアを変更しない', () => {
+        const boundary = { x: 0, y: 0, width: 500, height: 500 };
+
+        expect(setBoundaryArea(state, boundary).boundaryArea).toEqual(boundary);
+        expect(setBoundaryArea(lockedState, boundary)).toBe(lockedState);
+    });
+
+    it('ロック中は縮尺を調整しない', () => {
+        expect(calibrateRoom(state, 1000, 2000).svgData?.width).toBe(4000);
+        expect(calibrateRoom(lockedState, 1000, 2000)).toBe(lockedState);
+    });
+});
@@ -0,0 +1,83 @@
+import type { TableObject, Position, BoundaryArea, SVGTableProps } from '../types/index';
+import type { LayoutState } from '../hooks/useLayoutHistory';
+import { calibrateLayout } from './scaleCalibration';
+
+/**
+ * ロック
+ *
+ * ロック中のオブジェクトは移動・変形・整列の対象外とする。
+ * 会場図（背景）のロック中は、会場図の読み込み・縮尺調整・境界エリアの設定を行わない。
+ */
+
+/**
+ * 指定したオブジェクトをロック・ロック解除
+ * 縮尺（寸法線）は参照するオブジェクトに合わせて描画するだけのため対象外
+ */
+export const setTablesLocked = (tables: TableObject[], ids: string[], locked: boolean): TableObject[] =>
+    tables.map(table =>
+        ids.includes(table.id) && table.type !== 'scale'
+            ? { ...table, locked }
+            : table
+    );
+
+/**
+ * 同じ種類のオブジェクトか（SVGステンシルは同じファイルのものを同じ種類とみなす）
+ */
+export const isSameKind = (table: TableObject, baseTable: TableObject): boolean => {
+    if (table.type !== baseTable.type) return false;
+    if (table.type === 'svg') {
+        return (table.properties as SVGTableProps).filename === (baseTable.properties as SVGTableProps).filename;
+    }
+    return true;
+};
+
+/**
+ * 指定したオブジェクトと同じ種類のオブジェクトをまとめてロック・ロック解除
+ */
+export const setSameKindLocked = (tables: TableObject[], id: string, locked: boolean): TableObject[] => {
+    const baseTable = tables.find(table => table.id === id);
+    if (!baseTable || baseTable.type === 'scale') return tables;
+
+    return tables.map(table =>
+        isSameKind(table, baseTable)
+            ? { ...table, locked }
+            : table
+    );
+};
+
+/**
+ * ロックされていないオブジェクトの位置・プロパティを変更（ロック中の場合は変更しない）
+ */
+export const updateUnlockedTable = (
+    tables: TableObject[],
+    id: string,
+    changes: { position: Position; properties?: TableObject['properties'] }
+): TableObject[] =>
+    tables.map(table =>
+        table.id === id && !table.locked
+            ? { ...table, ...changes }
+            : table
+    );
+
+/**
+ * 会場図がロックされているか
+ */
+export const hasRoomLock = (state: Pick<LayoutState, 'svgData'>): boolean => !!state.svgData?.locked;
+
+/**
+ * 会場図をロック・ロック解除（会場図が無い場合は何もしない）
+ */
+export const setRoomLocked = (state: LayoutState, locked: boolean): LayoutState =>
+    state.svgData ? { ...state, svgData: { ...state.svgData, locked } } : state;
+
+/**
+ * 境界エリアを設定（会場図のロック中は変更しない）
+ */
+export const setBoundaryArea = (state: LayoutState, boundaryArea: BoundaryArea): LayoutState =>
+    hasRoomLock(state) ? state : { ...state, boundaryArea };
+
+/**
+ * 会場図の縮尺を調整（会場図のロック中は変更しない）
+ */
+export const calibrateRoom = (state: LayoutState, measuredDistance: number, realDistance: number): LayoutState =>
+    hasRoomLock(state) ? state : calibrateLayout(state, measuredDistance, realDistance);
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { getCircumscribedBounds, boundsOverlap, tablesOverlap, findOverlappingTables, findOverlappingPairs } from './overlap';
+import type { TableObject } from '../types/index';
+import { createRectangle, createCircle, createScale } from '../test/fixtures';
+
+describe('getCircumscribedBounds', () => {
+    it('回転を反映した外接矩形を返す', () => {
+        const bounds = getCircumscribedBounds(createRectangle('a', 0, 0, { rotationAngle: 90 }));
+
+        expect(bounds.minX).toBeCloseTo(-100);
+        expect(bounds.maxX).toBeCloseTo(100);
+        expect(bounds.minY).toBeCloseTo(-500);
+        expect(bounds.maxY).toBeCloseTo(500);
+        expect(bounds.centerX).toBe(0);
+    });
+});
+
+describe('boundsOverlap', () => {
+    const base = { minX: 0, minY: 0, maxX: 100, maxY: 100, centerX: 50, centerY: 50 };
+
+    it('辺が接しているだけの場合は重なりとしない', () => {
+        expect(boundsOverlap(base, { ...base, minX: 100, maxX: 200 })).toBe(false);
+        expect(boundsOverlap(base, { ...base, minX: 99, maxX: 200 })).toBe(true);
+    });
+});
+
+describe('tablesOverlap', () => {
+    it('回転を反映した実際の形同士で判定する', () => {
+        expect(tablesOverlap(createRectangle('a', 0, 0), createRectangle('b', 0, 150))).toBe(true);
+        expect(tablesOverlap(createRectangle('a', 0, 0, { rotationAngle: 90 }), createRectangle('b', 700, 0, { rotationAngle: 90 }))).toBe(false);
+        expect(tablesOverlap(createRectangle('a', 0, 0), createCircle('c', 900, 0))).toBe(true);
+        expect(tablesOverlap(createRectangle('a', 0, 0), createCircle('c', 1000, 0))).toBe(false);
+    });
+});
+
+describe('findOverlappingTables', () => {
+    it('重なっている既存のオブジェクトを返す', () => {
+        const tables = [createRectangle('a', 0, 0), createRectangle('b', 0, 1000), createCircle('c', 1200, 0)];
+        expect(findOverlappingTables(createRectangle('new', 200, 100), tables).map(table => table.id)).toEqual(['a']);
+    });
+
+    it('外接矩形が重なっていても実際の形が離れていれば重なりとしない', () => {
+        // 45度回転した長方形の短辺方向（外接矩形の角）に円を置く
+        const rotated = createRectangle('a', 0, 0, { rotationAngle: 45 });
+        expect(findOverlappingTables(createCircle('new', 700, -700), [rotated])).toEqual([]);
+        expect(findOverlappingTables(createCircle('new', 300, -300), [rotated]).map(table => table.id)).toEqual(['a']);
+    });
+
+    it('自分自身と縮尺（寸法線）は対象外', () => {
+        const scale = createScale('s', 'a', 'b');
+        const table = createRectangle('a', 0, 0);
+        expect(findOverlappingTables(table, [table, scale])).toEqual([]);
+        expect(findOverlappingTables(scale, [table])).toEqual([]);
+    });
+});
+
+describe('findOverlappingPairs', () => {
+    it('重なっているオブジェクトの組をすべて返す', () => {
+        const tables = [createRectangle('c', 3000, 0), createRectangle('b', 500, 0), createRectangle('a', 0, 0), createCircle('d', 3000, 500)];
+        expect(findOverlappingPairs(tables)).toEqual([['a', 'b'], ['c', 'd']]);
+    });
+
+    it('テキストボックス・縮尺（寸法線）・同じグループのオブジェクト同士は対象外', () => {
+        const textbox: TableObject = {
+            id: 't',
+            type: 'textbox',
+            position: { x: 0, y: 0 },
+            properties: { text: 'A', fontSize: 200, fontFamily: 'sans-serif', width: 1000, height: 400, textColor: '#000', rotationAngle: 0 },
+            zIndex: 0
+        };
+        const scale = createScale('s', 'a', 't');
+        const grouped = [createRectangle('g1', 0, 2000, { groupId: 'g' }), createRectangle('g2', 500, 2000, { groupId: 'g' })];
+
+        expect(findOverlappingPairs([createRectangle('a', 0, 0), textbox, scale, ...grouped])).toEqual([]);
+        expect(findOverlappingPairs([...grouped, createRectangle('x', 1000, 2000)])).toEqual([['g2', 'x']]);
+    });
+});
@@ -0,0 +1,79 @@
+import { type TableObject, type TableBounds, circumscriptionSizeFull } from '../types/index';
+import { getFootprint, footprintsOverlap } from './footprint';
+
+/**
+ * オブジェクト同士の重なりの判定
+ *
+ * 外接矩形で候補を絞り込み、回転を反映した実際の形（円・回転した長方形）で重なりを判定する。
+ */
+
+/**
+ * オブジェクトの外接矩形を取得
+ */
+export const getCircumscribedBounds = (table: TableObject): TableBounds => {
+    const { corners } = circumscriptionSizeFull(table);
+    return {
+        minX: corners.topLeft.x,
+        minY: corners.topLeft.y,
+        maxX: corners.bottomRight.x,
+        maxY: corners.bottomRight.y,
+        centerX: table.position.x,
+        centerY: table.position.y
+    };
+};
+
+/**
+ * 外接矩形同士が重なっているか（辺が接しているだけの場合は重なりとしない）
+ */
+export const boundsOverlap = (a: TableBounds, b: TableBounds): boolean =>
+    a.minX < b.maxX && b.minX < a.maxX && a.minY < b.maxY && b.minY < a.maxY;
+
+/**
+ * オブジェクトの実際の形同士が重なっているか
+ */
+export const tablesOverlap = (a: TableObject, b: TableObject): boolean => {
+    const footprintA = getFootprint(a);
+    const footprintB = getFootprint(b);
+    return footprintA !== null && footprintB !== null && footprintsOverlap(footprintA, footprintB);
+};
+
+/**
+ * 指定したオブジェクトと重なる既存のオブジェクトを取得
+ * 縮尺（寸法線）は他のオブジェクトを参照して描画するだけのため対象外
+ */
+export const findOverlappingTables = (candidate: TableObject, tables: TableObject[]): TableObject[] => {
+    if (candidate.type === 'scale') return [];
+
+    const candidateBounds = getCircumscribedBounds(candidate);
+    return tables.filter(table =>
+        table.id !== candidate.id &&
+        table.type !== 'scale' &&
+        boundsOverlap(candidateBounds, getCircumscribedBounds(table)) &&
+        tablesOverlap(candidate, table)
+    );
+};
+
+/**
+ * 重なっているオブジェクトの組（IDの組）をすべて取得
+ * テキストボックスはオブジェクトに重ねて注記として使うため対象外
+ * 同じグループのオブジェクト同士は意図して組み合わせたものとして対象外
+ */
+export const findOverlappingPairs = (tables: TableObject[]): [string, string][] => {
+    // 外接矩形の左端の順に並べ、左右に重なり得るものだけを調べる
+    const targets = tables
+        .filter(table => table.type !== 'scale' && table.type !== 'textbox')
+        .map(table => ({ table, bounds: getCircumscribedBounds(table) }))
+        .sort((a, b) => a.bounds.minX - b.bounds.minX);
+
+    const pairs: [string, string][] = [];
+    targets.forEach((target, index) => {
+        for (let i = index + 1; i < targets.length && targets[i].bounds.minX < target.bounds.maxX; i++) {
+            const other = targets[i];
+            if (target.table.groupId && target.table.groupId === other.table.groupId) continue;
+            if (boundsOverlap(target.bounds, other.bounds) && tablesOverlap(target.table, other.table)) {
+                pairs.push([target.table.id, other.table.id]);
+            }
+        }
+    });
+    return pairs;
+};
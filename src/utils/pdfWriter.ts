@@ -0,0 +1,98 @@
+/**
+ * 最小限のPDF作成処理
+ * 各ページにJPEG画像を1枚、ページ全体に配置したPDFを作成する
+ */
+
+export interface PDFImagePage {
+    widthMm: number;       // 用紙サイズ（mm）
+    heightMm: number;
+    jpeg: Uint8Array;      // ページ全体のJPEG画像
+    pixelWidth: number;
+    pixelHeight: number;
+}
+
+const MM_TO_PT = 72 / 25.4;
+
+const encoder = new TextEncoder();
+
+// PDFの文字列としてUTF-16BEの16進表記に変換（日本語のタイトル用）
+const toPDFTextString = (text: string): string => {
+    let hex = 'FEFF';
+    for (let i = 0; i < text.length; i++) {
+        hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+};
+
+const formatNumber = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+/**
+ * 画像ページからPDFを作成
+ */
+export const createImagePDF = (pages: PDFImagePage[], title: string): Blob => {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+
+    const beginObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // オブジェクト番号: 1=カタログ, 2=ページツリー, 3=文書情報, 以降はページごとに3つ
+    const pageObjectId = (index: number) => 4 + index * 3;
+    const objectCount = 3 + pages.length * 3;
+
+    write('%PDF-1.4\n');
+    write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // バイナリを含むことを示すコメント
+
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    beginObject(2);
+    const kids = pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ');
+    write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+    beginObject(3);
+    write(`<< /Title ${toPDFTextString(title)} /Producer (venue-layout-editor) >>\nendobj\n`);
+
+    pages.forEach((page, index) => {
+        const pageId = pageObjectId(index);
+        const contentId = pageId + 1;
+        const imageId = pageId + 2;
+        const width = formatNumber(page.widthMm * MM_TO_PT);
+        const height = formatNumber(page.heightMm * MM_TO_PT);
+
+        beginObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+            `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+        // 画像をページ全体に描画
+        const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+        beginObject(contentId);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+        beginObject(imageId);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+            `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        write(page.jpeg);
+        write('\nendstream\nendobj\n');
+    });
+
+    // 相互参照表
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount + 1}\n`);
+    write('0000000000 65535 f \n');
+    for (let id = 1; id <= objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
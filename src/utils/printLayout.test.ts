@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { computePrintPlan, buildPrintPageSVG, type PrintOptions } from './printLayout';
+import type { ProjectData, SVGData } from '../types/index';
+import { withRealXMLParser } from '../test/xmlParser';
+
+withRealXMLParser();
+
+const createSVGData = (width: number, height: number): SVGData => ({
+    content: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}"><rect width="${width}" height="${height}"/></svg>`,
+    width,
+    height,
+    viewBox: { x: 0, y: 0, width, height },
+    bounds: { minX: 0, minY: 0, maxX: width, maxY: height },
+    fileName: '会場.svg'
+});
+
+const createProject = (svgData: SVGData): ProjectData => ({
+    projectInfo: { name: 'テスト', createdAt: '', lastModified: '', version: '1.2' },
+    venue: { svgData, dimensions: { width: svgData.width, height: svgData.height } },
+    tables: []
+});
+
+const options: PrintOptions = { paperSize: 'A4', orientation: 'landscape', scaleDenominator: 100, dpi: 150 };
+
+// スケールバーの右端の目盛り（x座標と表示する長さ）
+const getScaleBarEnd = (svg: string): { x: number; label: string } => {
+    const matches = [...svg.matchAll(/<text x="([\d.]+)"[^>]*>(\d+(?:\.\d+)?m{1,2})<\/text>/g)];
+    const last = matches[matches.length - 1];
+    return { x: Number(last[1]), label: last[2] };
+};
+
+describe('computePrintPlan', () => {
+    it('図面枠と表題欄を用紙の余白の内側に配置する', () => {
+        const plan = computePrintPlan(createSVGData(20000, 10000), options);
+
+        expect(plan.paperWidth).toBe(297);
+        expect(plan.paperHeight).toBe(210);
+        expect(plan.scale).toBe(0.01);
+        expect(plan.drawingArea).toEqual({ x: 10, y: 10, width: 277, height: 162 });
+        expect(plan.titleBlock).toEqual({ x: 10, y: 176, width: 277, height: 24 });
+    });
+
+    it('1枚に収まる会場は1ページにする', () => {
+        const plan = computePrintPlan(createSVGData(27700, 16200), options);
+
+        expect(plan.tiles).toHaveLength(1);
+        expect(plan.tiles[0]).toEqual({ row: 0, column: 0, modelX: 0, modelY: 0, modelWidth: 27700, modelHeight: 16200 });
+    });
+
+    it('1枚に収まらない会場は複数ページに分割する', () => {
+        const plan = computePrintPlan(createSVGData(50000, 20000), options);
+
+        expect(plan.rows).toBe(2);
+        expect(plan.columns).toBe(2);
+        expect(plan.tiles.map(tile => [tile.row, tile.column])).toEqual([[0, 0], [0, 1], [1, 0], [1, 1]]);
+        expect(plan.tiles[3]).toMatchObject({ modelX: 27700, modelY: 16200, modelWidth: 22300, modelHeight: 3800 });
+    });
+});
+
+describe('buildPrintPageSVG', () => {
+    it('分割したページに位置を表示する', () => {
+        const svgData = createSVGData(50000, 20000);
+        const plan = computePrintPlan(svgData, options);
+        const svg = buildPrintPageSVG(createProject(svgData), plan, plan.tiles[1], options, { width: '297mm', height: '210mm' }, '2026/1/1');
+
+        expect(svg).toContain('ページ：2/4（1行2列）');
+        expect(svg).toContain('縮尺：1:100');
+        expect(svg).toContain('日付：2026/1/1');
+    });
+
+    it('スケールバーを表題欄のスケールバー欄に収まる長さにする', () => {
+        // A4縦の表題欄は幅190mm、スケールバー欄は47.5mm（左右の余白を除くと35.5mm）
+        const portrait: PrintOptions = { ...options, orientation: 'portrait' };
+        const svgData = createSVGData(10000, 10000);
+        const plan = computePrintPlan(svgData, portrait);
+        const svg = buildPrintPageSVG(createProject(svgData), plan, plan.tiles[0], portrait, { width: '210mm', height: '297mm' });
+
+        const { x: endX, label } = getScaleBarEnd(svg);
+        const cellRight = plan.titleBlock.x + plan.titleBlock.width;
+        expect(label).toBe('2m');
+        expect(endX).toBeLessThanOrEqual(cellRight - 6);
+    });
+
+    it('スケールバー欄が広い場合は長いスケールバーにする', () => {
+        const a1: PrintOptions = { ...options, paperSize: 'A1' };
+        const svgData = createSVGData(10000, 10000);
+        const plan = computePrintPlan(svgData, a1);
+        const svg = buildPrintPageSVG(createProject(svgData), plan, plan.tiles[0], a1, { width: '841mm', height: '594mm' });
+
+        // スケールバー欄は821×0.25−12≒193mm → 1:100で約19m → 10m
+        expect(getScaleBarEnd(svg).label).toBe('10m');
+    });
+});
@@ -0,0 +1,282 @@
+import type { ProjectData, SVGData } from '../types/index';
+import {
+    type PaperSize,
+    type PaperOrientation,
+    getPaperDimensions,
+    getExportStrokeWidth,
+    renderLayoutContent,
+    rasterizeSVG,
+    canvasToBlob,
+    escapeXml
+} from './layoutExport';
+import { createImagePDF, type PDFImagePage } from './pdfWriter';
+
+/**
+ * 印刷用PDFの作成
+ *
+ * 指定した用紙サイズ・縮尺で会場図を配置し、表題欄（プロジェクト名・会場・日付・縮尺・スケールバー）を付ける。
+ * 1枚に収まらない会場は複数ページに分割する。
+ */
+
+export interface PrintOptions {
+    paperSize: PaperSize;
+    orientation: PaperOrientation;
+    scaleDenominator: number;   // 縮尺 1:N のN
+    dpi: number;                // ページ画像の解像度
+}
+
+/**
+ * 1ページに印刷する会場図の範囲（会場図のmm）
+ */
+export interface PrintTile {
+    row: number;
+    column: number;
+    modelX: number;
+    modelY: number;
+    modelWidth: number;
+    modelHeight: number;
+}
+
+/**
+ * 用紙上の矩形（mm）
+ */
+interface PaperRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PrintPlan {
+    paperWidth: number;
+    paperHeight: number;
+    scale: number;          // 会場図1mmあたりの用紙上のmm
+    drawingArea: PaperRect;
+    titleBlock: PaperRect;
+    rows: number;
+    columns: number;
+    tiles: PrintTile[];
+}
+
+// 用紙の余白・表題欄の高さ・図面と表題欄の間隔（mm）
+const PRINT_MARGIN = 10;
+const TITLE_BLOCK_HEIGHT = 24;
+const TITLE_BLOCK_GAP = 4;
+
+// 表題欄のスケールバー欄の左右の余白（mm）
+const SCALE_BAR_PADDING = 6;
+
+// ページ画像のJPEG品質
+const PAGE_IMAGE_QUALITY = 0.92;
+
+/**
+ * 用紙サイズと縮尺からページ分割を計算
+ */
+export const computePrintPlan = (svgData: SVGData, options: PrintOptions): PrintPlan => {
+    const paper = getPaperDimensions(options.paperSize, options.orientation);
+    const scale = 1 / Math.max(1, options.scaleDenominator);
+
+    const drawingArea: PaperRect = {
+        x: PRINT_MARGIN,
+        y: PRINT_MARGIN,
+        width: paper.width - PRINT_MARGIN * 2,
+        height: paper.height - PRINT_MARGIN * 2 - TITLE_BLOCK_HEIGHT - TITLE_BLOCK_GAP
+    };
+    const titleBlock: PaperRect = {
+        x: PRINT_MARGIN,
+        y: paper.height - PRINT_MARGIN - TITLE_BLOCK_HEIGHT,
+        width: drawingArea.width,
+        height: TITLE_BLOCK_HEIGHT
+    };
+
+    // 1ページに収まる会場図の範囲
+    const tileWidth = drawingArea.width / scale;
+    const tileHeight = drawingArea.height / scale;
+
+    // 浮動小数点の誤差でページが増えないよう僅かに余裕を持たせる
+    const columns = Math.max(1, Math.ceil(svgData.width / tileWidth - 1e-6));
+    const rows = Math.max(1, Math.ceil(svgData.height / tileHeight - 1e-6));
+
+    const tiles: PrintTile[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            const modelX = column * tileWidth;
+            const modelY = row * tileHeight;
+            tiles.push({
+                row,
+                column,
+                modelX,
+                modelY,
+                modelWidth: Math.min(tileWidth, svgData.width - modelX),
+                modelHeight: Math.min(tileHeight, svgData.height - modelY)
+            });
+        }
+    }
+
+    return {
+        paperWidth: paper.width,
+        paperHeight: paper.height,
+        scale,
+        drawingArea,
+        titleBlock,
+        rows,
+        columns,
+        tiles
+    };
+};
+
+/**
+ * スケールバーの長さ（会場図のmm）を1・2・5系列のきりの良い値で決める
+ * maxBarLengthは用紙上で使える長さ（mm）
+ */
+const getScaleBarLength = (scale: number, maxBarLength: number): number => {
+    const target = maxBarLength / scale;
+    const power = Math.pow(10, Math.floor(Math.log10(target)));
+    for (const multiplier of [5, 2, 1]) {
+        if (multiplier * power <= target) {
+            return multiplier * power;
+        }
+    }
+    return power;
+};
+
+const formatLength = (length: number): string =>
+    length >= 1000 ? `${length / 1000}m` : `${length}mm`;
+
+// 数値を出力用に丸める
+const num = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+/**
+ * スケールバー（4分割の白黒交互の帯と目盛り）
+ */
+const renderScaleBar = (x: number, y: number, scale: number, maxBarLength: number): string => {
+    const length = getScaleBarLength(scale, maxBarLength);
+    const barLength = length * scale;
+    const segment = barLength / 4;
+    const barHeight = 2;
+
+    const segments = [0, 1, 2, 3].map(index =>
+        `<rect x="${num(x + segment * index)}" y="${num(y)}" width="${num(segment)}" height="${barHeight}" ` +
+        `fill="${index % 2 === 0 ? '#000' : '#fff'}" stroke="#000" stroke-width="0.2"/>`
+    ).join('');
+
+    return segments +
+        `<text x="${num(x)}" y="${num(y + barHeight + 1)}" font-size="2.5" text-anchor="middle" dominant-baseline="hanging">0</text>` +
+        `<text x="${num(x + barLength)}" y="${num(y + barHeight + 1)}" font-size="2.5" text-anchor="middle" dominant-baseline="hanging">${formatLength(length)}</text>`;
+};
+
+/**
+ * 表題欄
+ */
+const renderTitleBlock = (
+    plan: PrintPlan,
+    projectName: string,
+    venueName: string,
+    dateText: string,
+    scaleDenominator: number,
+    pageText: string
+): string => {
+    const { x, y, width, height } = plan.titleBlock;
+    const nameCellWidth = width * 0.45;
+    const infoCellWidth = width * 0.3;
+    const infoX = x + nameCellWidth;
+    const scaleBarX = infoX + infoCellWidth;
+    const scaleBarCellWidth = width - nameCellWidth - infoCellWidth;
+    const line = (x1: number, y1: number, x2: number, y2: number) =>
+        `<line x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}" stroke="#000" stroke-width="0.3"/>`;
+
+    return `<g font-family="sans-serif" fill="#000">` +
+        `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${height}" fill="none" stroke="#000" stroke-width="0.5"/>` +
+        line(infoX, y, infoX, y + height) +
+        line(scaleBarX, y, scaleBarX, y + height) +
+        // プロジェクト名・会場
+        `<text x="${num(x + 3)}" y="${num(y + 3)}" font-size="6" dominant-baseline="hanging">${escapeXml(projectName)}</text>` +
+        `<text x="${num(x + 3)}" y="${num(y + 14)}" font-size="3.5" dominant-baseline="hanging">会場：${escapeXml(venueName)}</text>` +
+        // 日付・縮尺・ページ
+        `<text x="${num(infoX + 3)}" y="${num(y + 3)}" font-size="3.5" dominant-baseline="hanging">日付：${escapeXml(dateText)}</text>` +
+        `<text x="${num(infoX + 3)}" y="${num(y + 9.5)}" font-size="3.5" dominant-baseline="hanging">縮尺：1:${scaleDenominator}</text>` +
+        `<text x="${num(infoX + 3)}" y="${num(y + 16)}" font-size="3.5" dominant-baseline="hanging">${escapeXml(pageText)}</text>` +
+        // スケールバー
+        renderScaleBar(scaleBarX + SCALE_BAR_PADDING, y + height / 2 - 3, plan.scale, scaleBarCellWidth - SCALE_BAR_PADDING * 2) +
+        `</g>`;
+};
+
+/**
+ * 1ページ分のSVG文字列を作成
+ * outputSizeはルート要素のwidth/height
+ */
+export const buildPrintPageSVG = (
+    projectData: ProjectData,
+    plan: PrintPlan,
+    tile: PrintTile,
+    options: PrintOptions,
+    outputSize: { width: string; height: string },
+    dateText: string = new Date().toLocaleDateString('ja-JP')
+): string => {
+    const svgData = projectData.venue.svgData!;
+    const { drawingArea, scale } = plan;
+
+    // 1ページに収まる場合は図面枠の中央に配置
+    const isSinglePage = plan.tiles.length === 1;
+    const drawX = isSinglePage
+        ? drawingArea.x + (drawingArea.width - tile.modelWidth * scale) / 2
+        : drawingArea.x;
+    const drawY = isSinglePage
+        ? drawingArea.y + (drawingArea.height - tile.modelHeight * scale) / 2
+        : drawingArea.y;
+
+    const pageIndex = tile.row * plan.columns + tile.column;
+    const pageText = isSinglePage
+        ? 'ページ：1/1'
+        : `ページ：${pageIndex + 1}/${plan.tiles.length}（${tile.row + 1}行${tile.column + 1}列）`;
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n` +
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${outputSize.width}" height="${outputSize.height}" ` +
+        `viewBox="0 0 ${num(plan.paperWidth)} ${num(plan.paperHeight)}">` +
+        `<defs><clipPath id="print-tile-clip"><rect x="${num(drawX)}" y="${num(drawY)}" ` +
+        `width="${num(tile.modelWidth * scale)}" height="${num(tile.modelHeight * scale)}"/></clipPath></defs>` +
+        `<rect x="0" y="0" width="${num(plan.paperWidth)}" height="${num(plan.paperHeight)}" fill="#fff"/>` +
+        `<g clip-path="url(#print-tile-clip)">` +
+        `<g transform="translate(${num(drawX - tile.modelX * scale)} ${num(drawY - tile.modelY * scale)}) scale(${scale})">` +
+        renderLayoutContent(svgData, projectData.tables, getExportStrokeWidth(scale)) +
+        `</g></g>` +
+        `<rect x="${num(drawingArea.x)}" y="${num(drawingArea.y)}" width="${num(drawingArea.width)}" height="${num(drawingArea.height)}" ` +
+        `fill="none" stroke="#000" stroke-width="0.5"/>` +
+        renderTitleBlock(plan, projectData.projectInfo.name, svgData.fileName, dateText, options.scaleDenominator, pageText) +
+        `</svg>`;
+};
+
+/**
+ * プロジェクトデータから印刷用PDFを作成
+ */
+export const exportProjectAsPDF = async (projectData: ProjectData, options: PrintOptions): Promise<Blob> => {
+    const svgData = projectData.venue.svgData;
+    if (!svgData) {
+        throw new Error('会場図が読み込まれていません');
+    }
+
+    const plan = computePrintPlan(svgData, options);
+    const pixelsPerMm = options.dpi / 25.4;
+    const pixelWidth = Math.round(plan.paperWidth * pixelsPerMm);
+    const pixelHeight = Math.round(plan.paperHeight * pixelsPerMm);
+    const dateText = new Date().toLocaleDateString('ja-JP');
+
+    // メモリ使用量を抑えるため1ページずつ描画する
+    const pages: PDFImagePage[] = [];
+    for (const tile of plan.tiles) {
+        const svgString = buildPrintPageSVG(projectData, plan, tile, options,
+            { width: String(pixelWidth), height: String(pixelHeight) }, dateText);
+        const canvas = await rasterizeSVG(svgString, pixelWidth, pixelHeight);
+        const jpeg = await canvasToBlob(canvas, 'image/jpeg', PAGE_IMAGE_QUALITY);
+
+        pages.push({
+            widthMm: plan.paperWidth,
+            heightMm: plan.paperHeight,
+            jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+            pixelWidth,
+            pixelHeight
+        });
+    }
+
+    return createImagePDF(pages, projectData.projectInfo.name);
+};
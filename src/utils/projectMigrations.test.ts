@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_PROJECT_VERSION, compareVersions, migrateProjectData } from './projectMigrations';
+
+// バージョン1.0のプロジェクトファイル（回転角度・SVG元サイズ・描画順が無い）
+const createLegacyProject = (version?: unknown) => ({
+    projectInfo: { name: 'テスト', ...(version === undefined ? {} : { version }) },
+    venue: { dimensions: { width: 1000, height: 1000 } },
+    tables: [
+        { id: 'rect', type: 'rectangle', position: { x: 0, y: 0 }, properties: { width: 600, height: 1800, fillColor: '#fff', strokeColor: '#000' } },
+        { id: 'svg', type: 'svg', position: { x: 0, y: 0 }, properties: { svgContent: '<svg/>', width: 900, height: 450, filename: 'a.svg' } },
+        { id: 'circle', type: 'circle', position: { x: 0, y: 0 }, properties: { radius: 900, fillColor: '#fff', strokeColor: '#000' } }
+    ]
+});
+
+// 変換後のデータの確認に使う部分
+interface MigratedProject {
+    projectInfo: Record<string, unknown>;
+    tables: Array<{ zIndex?: number; properties: Record<string, unknown> }>;
+}
+
+describe('compareVersions', () => {
+    it('数値として比較する', () => {
+        expect(compareVersions('1.2', '1.10')).toBeLessThan(0);
+        expect(compareVersions('2.0', '1.9')).toBeGreaterThan(0);
+        expect(compareVersions('1.0', '1')).toBe(0);
+    });
+});
+
+describe('migrateProjectData', () => {
+    it('古いファイルを1段ずつ現在のバージョンまで変換する', () => {
+        const result = migrateProjectData(createLegacyProject('1.0'));
+        const data = result.data as MigratedProject;
+
+        expect(result.fromVersion).toBe('1.0');
+        expect(result.toVersion).toBe(CURRENT_PROJECT_VERSION);
+        expect(data.projectInfo.version).toBe(CURRENT_PROJECT_VERSION);
+
+        // 1.0 → 1.1：回転角度・SVG元サイズの補完
+        expect(data.tables[0].properties.rotationAngle).toBe(0);
+        expect(data.tables[1].properties).toMatchObject({ rotationAngle: 0, originalWidth: 900, originalHeight: 450 });
+        expect(data.tables[2].properties.rotationAngle).toBeUndefined();
+
+        // 1.1 → 1.2：配列の順序を描画順とする
+        expect(data.tables.map(table => table.zIndex)).toEqual([0, 1, 2]);
+    });
+
+    it('データを補完した場合は警告、変換したバージョンはお知らせとして返す', () => {
+        const result = migrateProjectData(createLegacyProject('1.0'));
+
+        expect(result.warnings).toEqual(['2個のオブジェクトに不足していた項目を既定値で補完しました']);
+        expect(result.notes).toEqual([
+            'プロジェクトファイルをバージョン1.0から1.1に変換しました（回転角度・SVG元サイズの補完）',
+            'プロジェクトファイルをバージョン1.1から1.2に変換しました（描画順（zIndex）の追加）'
+        ]);
+    });
+
+    it('途中のバージョンからは残りのマイグレーションだけを適用する', () => {
+        const project = createLegacyProject('1.1');
+        const result = migrateProjectData(project);
+        const data = result.data as MigratedProject;
+
+        expect(result.warnings).toEqual([]);
+        expect(result.notes).toHaveLength(1);
+        expect(data.tables[0].properties.rotationAngle).toBeUndefined();
+        expect(data.tables[0].zIndex).toBe(0);
+    });
+
+    it('既に描画順があるオブジェクトはそのままにする', () => {
+        const project = createLegacyProject('1.1');
+        (project.tables[0] as Record<string, unknown>).zIndex = 5;
+
+        const data = migrateProjectData(project).data as MigratedProject;
+        expect(data.tables.map(table => table.zIndex)).toEqual([5, 1, 2]);
+    });
+
+    it('バージョン情報が無いファイルは1.0とみなして警告する', () => {
+        const result = migrateProjectData(createLegacyProject());
+
+        expect(result.fromVersion).toBe('1.0');
+        expect(result.warnings).toHaveLength(2);
+        expect(result.warnings[0]).toContain('バージョン情報が無い');
+        expect(result.warnings[1]).toContain('既定値で補完しました');
+    });
+
+    it('認識できないバージョンは1.0とみなして警告する', () => {
+        const result = migrateProjectData(createLegacyProject('beta'));
+
+        expect(result.fromVersion).toBe('1.0');
+        expect(result.warnings[0]).toContain('「beta」を認識できない');
+    });
+
+    it('新しいバージョンのファイルは変換せずに警告する', () => {
+        const project = createLegacyProject('99.0');
+        const result = migrateProjectData(project);
+
+        expect(result.data).toBe(project);
+        expect(result.toVersion).toBe('99.0');
+        expect(result.warnings[0]).toContain('新しいバージョン(99.0)');
+        expect(result.notes).toEqual([]);
+    });
+
+    it('現在のバージョンのファイルは変換しない', () => {
+        const result = migrateProjectData(createLegacyProject(CURRENT_PROJECT_VERSION));
+
+        expect(result.warnings).toEqual([]);
+        expect(result.notes).toEqual([]);
+    });
+
+    it('プロジェクト情報が無いデータはそのまま返す', () => {
+        const result = migrateProjectData({ tables: [] });
+        expect(result.data).toEqual({ tables: [] });
+        expect(result.warnings).toEqual([]);
+    });
+});
@@ -0,0 +1,177 @@
+/**
+ * プロジェクトファイルのスキーマバージョン管理とマイグレーション
+ *
+ * ProjectDataやTableObjectの形が変わるたびに、ここへマイグレーションを1段追加する。
+ * 古いファイルは読み込み時に1段ずつ現在のバージョンまで変換される。
+ */
+
+/**
+ * 現在のプロジェクトファイルのスキーマバージョン
+ */
+export const CURRENT_PROJECT_VERSION = '1.2';
+
+/**
+ * バージョン情報が無いファイルをこのバージョンとみなす
+ */
+const LEGACY_PROJECT_VERSION = '1.0';
+
+/**
+ * 1段分のマイグレーション
+ * migrateは受け取ったデータを変換して返し、データを補完・変更した場合は警告に追加する
+ */
+interface ProjectMigration {
+    from: string;
+    to: string;
+    description: string;
+    migrate: (data: Record<string, unknown>, warnings: string[]) => Record<string, unknown>;
+}
+
+export interface MigrationResult {
+    data: unknown;
+    fromVersion: string;
+    toVersion: string;
+    warnings: string[];  // 読み込み前に確認が必要な問題（バージョン不明・新しいバージョン・データの補完など）
+    notes: string[];     // 変換したバージョンのお知らせ（確認は不要）
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object';
+
+/**
+ * マイグレーション一覧（from の古い順）
+ */
+const PROJECT_MIGRATIONS: ProjectMigration[] = [
+    {
+        from: '1.0',
+        to: '1.1',
+        description: '回転角度・SVG元サイズの補完',
+        migrate: (data, warnings) => {
+            if (!Array.isArray(data.tables)) return data;
+
+            let completedCount = 0;
+            const tables = data.tables.map((table: unknown) => {
+                if (!isObject(table) || !isObject(table.properties)) return table;
+
+                const properties = { ...table.properties };
+                let changed = false;
+
+                // 回転機能追加前のデータには回転角度が無い
+                if ((table.type === 'rectangle' || table.type === 'svg' || table.type === 'textbox') &&
+                    typeof properties.rotationAngle !== 'number') {
+                    properties.rotationAngle = 0;
+                    changed = true;
+                }
+
+                // SVGの元サイズが無い場合は現在のサイズを元サイズとみなす
+                if (table.type === 'svg') {
+                    if (typeof properties.originalWidth !== 'number' && typeof properties.width === 'number') {
+                        properties.originalWidth = properties.width;
+                        changed = true;
+                    }
+                    if (typeof properties.originalHeight !== 'number' && typeof properties.height === 'number') {
+                        properties.originalHeight = properties.height;
+                        changed = true;
+                    }
+                }
+
+                if (!changed) return table;
+                completedCount++;
+                return { ...table, properties };
+            });
+
+            if (completedCount > 0) {
+                warnings.push(`${completedCount}個のオブジェクトに不足していた項目を既定値で補完しました`);
+            }
+
+            return { ...data, tables };
+        }
+    },
+    {
+        from: '1.1',
+        to: '1.2',
+        description: '描画順（zIndex）の追加',
+        migrate: (data) => {
+            if (!Array.isArray(data.tables)) return data;
+
+            // これまでは配列の順序がそのまま描画順だった
+            const tables = data.tables.map((table: unknown, index: number) => {
+                if (!isObject(table) || typeof table.zIndex === 'number') return table;
+                return { ...table, zIndex: index };
+            });
+
+            return { ...data, tables };
+        }
+    }
+];
+
+/**
+ * "1.0" 形式のバージョン文字列を比較用の数値配列に変換
+ */
+const parseVersion = (version: string): number[] | null => {
+    if (!/^\d+(\.\d+)*$/.test(version)) return null;
+    return version.split('.').map(Number);
+};
+
+/**
+ * バージョン比較（a < b なら負、a > b なら正、等しければ0）
+ */
+export const compareVersions = (a: string, b: string): number => {
+    const partsA = parseVersion(a) || [0];
+    const partsB = parseVersion(b) || [0];
+    const length = Math.max(partsA.length, partsB.length);
+
+    for (let i = 0; i < length; i++) {
+        const diff = (partsA[i] || 0) - (partsB[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+};
+
+/**
+ * 読み込んだプロジェクトデータを現在のスキーマバージョンまで変換
+ */
+export const migrateProjectData = (data: unknown): MigrationResult => {
+    const warnings: string[] = [];
+    const notes: string[] = [];
+
+    if (!isObject(data) || !isObject(data.projectInfo)) {
+        // 構造の検証はvalidateProjectDataに任せる
+        return { data, fromVersion: LEGACY_PROJECT_VERSION, toVersion: LEGACY_PROJECT_VERSION, warnings, notes };
+    }
+
+    const rawVersion = data.projectInfo.version;
+    let version: string;
+    if (rawVersion === undefined || rawVersion === null || rawVersion === '') {
+        version = LEGACY_PROJECT_VERSION;
+        warnings.push(`バージョン情報が無いため、バージョン${LEGACY_PROJECT_VERSION}のファイルとして読み込みます`);
+    } else if (parseVersion(String(rawVersion)) === null) {
+        version = LEGACY_PROJECT_VERSION;
+        warnings.push(`バージョン「${rawVersion}」を認識できないため、バージョン${LEGACY_PROJECT_VERSION}のファイルとして読み込みます`);
+    } else {
+        version = String(rawVersion);
+    }
+
+    const fromVersion = version;
+
+    if (compareVersions(version, CURRENT_PROJECT_VERSION) > 0) {
+        warnings.push(`このファイルは新しいバージョン(${version})で作成されています。一部のデータが正しく読み込まれない可能性があります`);
+        return { data, fromVersion, toVersion: version, warnings, notes };
+    }
+
+    let migrated: Record<string, unknown> = data;
+    for (const migration of PROJECT_MIGRATIONS) {
+        // 変換先より新しいデータには適用しない
+        if (compareVersions(version, migration.to) >= 0) continue;
+
+        migrated = migration.migrate(migrated, warnings);
+        notes.push(`プロジェクトファイルをバージョン${migration.from}から${migration.to}に変換しました（${migration.description}）`);
+        version = migration.to;
+    }
+
+    migrated = {
+        ...migrated,
+        projectInfo: { ...(migrated.projectInfo as Record<string, unknown>), version: CURRENT_PROJECT_VERSION }
+    };
+
+    return { data: migrated, fromVersion, toVersion: CURRENT_PROJECT_VERSION, warnings, notes };
+};
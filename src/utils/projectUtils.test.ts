@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { exportProjectToJSON, validateProjectData } from './projectUtils';
+import type { EditorSettings } from '../types/index';
+
+const editorSettings: EditorSettings = {
+    grid: { gridSize: 500, snapEnabled: true, gridVisible: false },
+    viewport: { scale: 1.5, panX: -120, panY: 40 }
+};
+
+// 保存したデータをJSON文字列を経由して読み込み直す
+const roundTrip = (data: unknown) => JSON.parse(JSON.stringify(data));
+
+describe('exportProjectToJSON', () => {
+    it('境界エリアと編集環境設定を保存する', () => {
+        const data = exportProjectToJSON([], null, 'テスト', {
+            boundaryArea: { x: 100, y: 200, width: 3000, height: 4000 },
+            editorSettings
+        });
+
+        expect(data.venue.boundaryArea).toEqual({ x: 100, y: 200, width: 3000, height: 4000 });
+        expect(data.editorSettings).toEqual(editorSettings);
+    });
+
+    it('境界エリアが無い場合は保存しない', () => {
+        const data = exportProjectToJSON([], null, 'テスト', { boundaryArea: null });
+        expect(data.venue.boundaryArea).toBeUndefined();
+        expect(data.editorSettings).toBeUndefined();
+    });
+});
+
+describe('validateProjectData', () => {
+    it('保存した境界エリアと編集環境設定をそのまま読み込む', () => {
+        const data = roundTrip(exportProjectToJSON([], null, 'テスト', {
+            boundaryArea: { x: 0, y: 0, width: 1000, height: 2000 },
+            editorSettings
+        }));
+
+        const result = validateProjectData(data);
+        expect(result.isValid).toBe(true);
+        expect(result.warnings).toBeUndefined();
+        expect(data.venue.boundaryArea).toEqual({ x: 0, y: 0, width: 1000, height: 2000 });
+        expect(data.editorSettings).toEqual(editorSettings);
+    });
+
+    it('無効な境界エリアは警告して破棄する', () => {
+        const data = roundTrip(exportProjectToJSON([], null, 'テスト'));
+        data.venue.boundaryArea = { x: 0, y: 0, width: -10, height: 100 };
+
+        const result = validateProjectData(data);
+        expect(result.isValid).toBe(true);
+        expect(result.warnings).toEqual(['境界エリアのデータが無効なため、境界エリアは読み込まれません']);
+        expect(data.venue.boundaryArea).toBeUndefined();
+    });
+
+    it('無効なグリッド設定だけを破棄し、表示領域は読み込む', () => {
+        const data = roundTrip(exportProjectToJSON([], null, 'テスト', { editorSettings }));
+        data.editorSettings.grid.gridSize = 0;
+
+        const result = validateProjectData(data);
+        expect(result.warnings).toEqual(['グリッド設定のデータが無効なため、グリッド設定は読み込まれません']);
+        expect(data.editorSettings.grid).toBeUndefined();
+        expect(data.editorSettings.viewport).toEqual(editorSettings.viewport);
+    });
+
+    it('グリッド設定と表示領域がどちらも無効な場合は編集環境設定ごと破棄する', () => {
+        const data = roundTrip(exportProjectToJSON([], null, 'テスト'));
+        data.editorSettings = { grid: null, viewport: { scale: 'x', panX: 0, panY: 0 } };
+
+        const result = validateProjectData(data);
+        expect(result.warnings).toHaveLength(2);
+        expect(data.editorSettings).toBeUndefined();
+    });
+});
@@ -1,4 +1,15 @@
-import type { ProjectData, ProjectInfo, TableObject, SVGData, LoadResult } from '../types/index';
+import type { ProjectData, ProjectInfo, TableObject, SVGData, LoadResult, BoundaryArea, EditorSettings, TableValidationReport } from '../types/index';
+import { CURRENT_PROJECT_VERSION, migrateProjectData } from './projectMigrations';
+import { validateTables } from './tableValidation';
+import { sanitizeSVGContent, formatSanitizeWarning } from './svgSanitizer';
+
+/**
+ * プロジェクトに保存する編集状態
+ */
+export interface ProjectExportOptions {
+    boundaryArea?: BoundaryArea | null;
+    editorSettings?: EditorSettings;
+}
 
 /**
  * 現在のプロジェクト状態をJSONデータに変換
@@ -6,7 +17,8 @@ import type { ProjectData, ProjectInfo, TableObject, SVGData, LoadResult } from
 export const exportProjectToJSON = (
     tables: TableObject[],
     svgData: SVGData | null,
-    projectName: string
+    projectName: string,
+    options: ProjectExportOptions = {}
 ): ProjectData => {
     const now = new Date().toISOString();
 
@@ -14,7 +26,7 @@ export const exportProjectToJSON = (
         name: projectName || `会場レイアウト_${new Date().toLocaleDateString('ja-JP')}`,
         createdAt: now,
         lastModified: now,
-        version: '1.0'
+        version: CURRENT_PROJECT_VERSION
     };
 
     const projectData: ProjectData = {
@@ -35,6 +47,17 @@ export const exportProjectToJSON = (
         projectData.venue.svgData = svgData;
     }
 
+    // 境界エリアと編集環境設定
+    if (options.boundaryArea) {
+        projectData.venue.boundaryArea = { ...options.boundaryArea };
+    }
+    if (options.editorSettings) {
+        projectData.editorSettings = {
+            grid: { ...options.editorSettings.grid },
+            viewport: { ...options.editorSettings.viewport }
+        };
+    }
+
     return projectData;
 };
 
@@ -44,10 +67,11 @@ export const exportProjectToJSON = (
 export const downloadProjectAsJSON = (
     tables: TableObject[],
     svgData: SVGData | null,
-    projectName: string
+    projectName: string,
+    options: ProjectExportOptions = {}
 ): void => {
     try {
-        const projectData = exportProjectToJSON(tables, svgData, projectName);
+        const projectData = exportProjectToJSON(tables, svgData, projectName, options);
         const jsonString = JSON.stringify(projectData, null, 2);
 
         const blob = new Blob([jsonString], { type: 'application/json' });
@@ -77,16 +101,22 @@ export const loadProjectFromJSON = (file: File): Promise<LoadResult> => {
         reader.onload = (event) => {
             try {
                 const jsonString = event.target?.result as string;
-                const data = JSON.parse(jsonString) as ProjectData;
+                const rawData = JSON.parse(jsonString);
+
+                // 古いバージョンのデータを現在のスキーマに変換
+                const migrationResult = migrateProjectData(rawData);
+                const data = migrationResult.data as ProjectData;
 
                 // データ検証
                 const validationResult = validateProjectData(data);
+                const warnings = [...migrationResult.warnings, ...(validationResult.warnings || [])];
                 
                 if (!validationResult.isValid) {
                     resolve({
                         success: false,
                         error: validationResult.error,
-                        warnings: validationResult.warnings
+                        warnings: warnings.length > 0 ? warnings : undefined,
+                        notes: migrationResult.notes.length > 0 ? migrationResult.notes : undefined
                     });
                     return;
                 }
@@ -95,7 +125,9 @@ export const loadProjectFromJSON = (file: File): Promise<LoadResult> => {
                 resolve({
                     success: true,
                     data: data,
-                    warnings: validationResult.warnings
+                    warnings: warnings.length > 0 ? warnings : undefined,
+                    notes: migrationResult.notes.length > 0 ? migrationResult.notes : undefined,
+                    tableReports: validationResult.tableReports
                 });
             } catch (error) {
                 resolve({
@@ -123,6 +155,7 @@ export const validateProjectData = (data: any): {
     isValid: boolean;
     error?: string;
     warnings?: string[];
+    tableReports?: TableValidationReport[];
 } => {
     const warnings: string[] = [];
 
@@ -160,15 +193,107 @@ export const validateProjectData = (data: any): {
         return { isValid: false, error: 'テーブルデータが無効です' };
     }
 
-    // 各テーブルの検証
-    for (let i = 0; i < data.tables.length; i++) {
-        const table = data.tables[i];
-        if (!table.id || !table.type || !table.position || !table.properties) {
-            warnings.push(`テーブル${i + 1}のデータが不完全です`);
+    // 各テーブルを種類ごとに検証し、修復できないものは除外
+    const { tables, reports: tableReports } = validateTables(data.tables, {
+        x: data.venue.dimensions.width / 2,
+        y: data.venue.dimensions.height / 2
+    });
+    // 結果はオブジェクトごとにtableReportsで返し、読み込みダイアログで一覧表示する
+    data.tables = tables;
+
+    // 会場図SVGの無害化（共有されたファイルに含まれるスクリプトや外部参照を取り除く）
+    if (isObject(data.venue.svgData) && typeof data.venue.svgData.content === 'string') {
+        const sanitized = sanitizeSVGContent(data.venue.svgData.content);
+        if (sanitized.content === null) {
+            warnings.push('会場図のSVGを解析できないため、会場図は読み込まれません');
+            data.venue.svgData = null;
+        } else if (sanitized.removed.length > 0) {
+            warnings.push(formatSanitizeWarning(sanitized.removed, '会場図'));
+            data.venue.svgData.content = sanitized.content;
         }
     }
 
-    return { isValid: true, warnings: warnings.length > 0 ? warnings : undefined };
+    // 会場図の縮尺の確認（任意項目のため、無効な場合は既定の縮尺に戻す）
+    if (isObject(data.venue.svgData) && data.venue.svgData.scaleFactor !== undefined &&
+        !(isFiniteNumber(data.venue.svgData.scaleFactor) && data.venue.svgData.scaleFactor > 0)) {
+        warnings.push('会場図の縮尺のデータが無効なため、既定の縮尺として読み込みます');
+        delete data.venue.svgData.scaleFactor;
+    }
+
+    // 会場図のロックの確認（任意項目のため、無効な場合はロックしていないものとする）
+    if (isObject(data.venue.svgData) && data.venue.svgData.locked !== undefined &&
+        typeof data.venue.svgData.locked !== 'boolean') {
+        warnings.push('会場図のロックのデータが無効なため、ロックせずに読み込みます');
+        delete data.venue.svgData.locked;
+    }
+
+    // 境界エリアの確認（任意項目のため、無効な場合は警告して破棄）
+    if (data.venue.boundaryArea !== undefined && !isValidBoundaryArea(data.venue.boundaryArea)) {
+        warnings.push('境界エリアのデータが無効なため、境界エリアは読み込まれません');
+        delete data.venue.boundaryArea;
+    }
+
+    // 編集環境設定の確認（任意項目のため、無効な場合は警告して破棄）
+    if (data.editorSettings !== undefined) {
+        const settings = data.editorSettings;
+        if (!isObject(settings)) {
+            warnings.push('編集環境設定のデータが無効なため、編集環境設定は読み込まれません');
+            delete data.editorSettings;
+        } else {
+            if (!isValidGridSettings(settings.grid)) {
+                warnings.push('グリッド設定のデータが無効なため、グリッド設定は読み込まれません');
+                delete settings.grid;
+            }
+            if (!isValidViewport(settings.viewport)) {
+                warnings.push('表示領域のデータが無効なため、表示領域は読み込まれません');
+                delete settings.viewport;
+            }
+            if (!settings.grid && !settings.viewport) {
+                delete data.editorSettings;
+            }
+        }
+    }
+
+    return {
+        isValid: true,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        tableReports: tableReports.length > 0 ? tableReports : undefined
+    };
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object';
+
+/**
+ * 境界エリアの検証
+ */
+const isValidBoundaryArea = (area: unknown): boolean => {
+    return isObject(area) &&
+        isFiniteNumber(area.x) && isFiniteNumber(area.y) &&
+        isFiniteNumber(area.width) && isFiniteNumber(area.height) &&
+        area.width > 0 && area.height > 0;
+};
+
+/**
+ * グリッド設定の検証
+ */
+const isValidGridSettings = (grid: unknown): boolean => {
+    return isObject(grid) &&
+        isFiniteNumber(grid.gridSize) && grid.gridSize > 0 &&
+        typeof grid.snapEnabled === 'boolean' &&
+        typeof grid.gridVisible === 'boolean';
+};
+
+/**
+ * 表示領域の検証
+ */
+const isValidViewport = (viewport: unknown): boolean => {
+    return isObject(viewport) &&
+        isFiniteNumber(viewport.scale) && viewport.scale > 0 &&
+        isFiniteNumber(viewport.panX) && isFiniteNumber(viewport.panY);
 };
 
 /**
@@ -177,10 +302,11 @@ export const validateProjectData = (data: any): {
 export const autoSaveProject = (
     tables: TableObject[],
     svgData: SVGData | null,
-    projectName: string
+    projectName: string,
+    options: ProjectExportOptions = {}
 ): void => {
     try {
-        const projectData = exportProjectToJSON(tables, svgData, projectName);
+        const projectData = exportProjectToJSON(tables, svgData, projectName, options);
         localStorage.setItem('venue-layout-autosave', JSON.stringify(projectData));
         localStorage.setItem('venue-layout-autosave-timestamp', new Date().toISOString());
     } catch (error) {
@@ -196,7 +322,7 @@ export const loadAutoSavedProject = (): ProjectData | null => {
         const savedData = localStorage.getItem('venue-layout-autosave');
         if (!savedData) return null;
 
-        const projectData = JSON.parse(savedData) as ProjectData;
+        const projectData = migrateProjectData(JSON.parse(savedData)).data as ProjectData;
         const validationResult = validateProjectData(projectData);
 
         if (validationResult.isValid) {
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { getRadialPlacements, createRadialCopies } from './radialDuplicate';
+import type { RadialDuplicateSettings, RectangleProps } from '../types/index';
+import { createRectangle, createCircle, createScale } from '../test/fixtures';
+
+const settings: RadialDuplicateSettings = {
+    center: { x: 0, y: 0 },
+    radius: 1000,
+    count: 4,
+    startAngle: 0,
+    endAngle: 360,
+    faceCenter: false
+};
+
+describe('getRadialPlacements', () => {
+    it('一周の場合は等分する', () => {
+        const placements = getRadialPlacements(settings);
+
+        expect(placements.map(placement => placement.angle)).toEqual([0, 90, 180, 270]);
+        expect(placements[1].position.x).toBeCloseTo(0);
+        expect(placements[1].position.y).toBeCloseTo(1000);
+        expect(placements[2].position.x).toBeCloseTo(-1000);
+    });
+
+    it('円弧の場合は両端にも配置する', () => {
+        const placements = getRadialPlacements({ ...settings, count: 3, startAngle: 0, endAngle: 180 });
+        expect(placements.map(placement => placement.angle)).toEqual([0, 90, 180]);
+    });
+
+    it('1個の場合は開始角度に置き、0個の場合は何も置かない', () => {
+        expect(getRadialPlacements({ ...settings, count: 1, startAngle: 45 }).map(placement => placement.angle)).toEqual([45]);
+        expect(getRadialPlacements({ ...settings, count: 0 })).toEqual([]);
+    });
+});
+
+describe('createRadialCopies', () => {
+    it('選択全体の中心を各位置に並べる', () => {
+        const copies = createRadialCopies([createRectangle('a', -1000, 0), createRectangle('b', 1000, 0)], { ...settings, count: 2 });
+
+        expect(copies).toHaveLength(4);
+        expect(copies[0].position.x).toBeCloseTo(0);
+        expect(copies[1].position.x).toBeCloseTo(2000);
+        expect(copies[2].position.x).toBeCloseTo(-2000);
+        expect(copies[3].position.x).toBeCloseTo(0);
+        expect(new Set(copies.map(copy => copy.id)).size).toBe(4);
+    });
+
+    it('中心を向ける場合は選択全体を回転する', () => {
+        const copies = createRadialCopies([createRectangle('a', -1000, 0), createRectangle('b', 1000, 0)], {
+            ...settings, count: 1, startAngle: 0, faceCenter: true
+        });
+
+        // 中心の右に置くので -90° 回転する
+        expect(copies[0].position.x).toBeCloseTo(1000);
+        expect(copies[0].position.y).toBeCloseTo(1000);
+        expect(copies[1].position.x).toBeCloseTo(1000);
+        expect(copies[1].position.y).toBeCloseTo(-1000);
+        expect((copies[0].properties as RectangleProps).rotationAngle).toBe(270);
+    });
+
+    it('中心の真下に置く場合は回転しない', () => {
+        const copies = createRadialCopies([createRectangle('a', 0, 0)], { ...settings, count: 1, startAngle: 90, faceCenter: true });
+        expect((copies[0].properties as RectangleProps).rotationAngle).toBe(0);
+    });
+
+    it('円の回転角度は持たない', () => {
+        const circle = createCircle('c', 0, 0, { radius: 300 });
+        const copies = createRadialCopies([circle], { ...settings, count: 1, faceCenter: true });
+        expect(copies[0].properties).toEqual(circle.properties);
+    });
+
+    it('複製ごとに別のグループにし、縮尺（寸法線）は複製しない', () => {
+        const scale = createScale('s', 'a', 'b');
+        const copies = createRadialCopies([createRectangle('a', 0, 0, { groupId: 'g' }), createRectangle('b', 1500, 0, { groupId: 'g' }), scale], { ...settings, count: 2 });
+        const groupIds = copies.map(copy => copy.groupId);
+
+        expect(copies.every(copy => copy.type === 'rectangle')).toBe(true);
+        expect(groupIds[0]).toBe(groupIds[1]);
+        expect(groupIds[0]).not.toBe(groupIds[2]);
+        expect(groupIds).not.toContain('g');
+        expect(createRadialCopies([scale], settings)).toEqual([]);
+    });
+});
@@ -0,0 +1,88 @@
+import type { TableObject, Position, RadialDuplicateSettings, RectangleProps, SVGTableProps, TextBoxProps } from '../types/index';
+import { getTablesBounds, remapGroupIds } from './groupUtils';
+import { normalizeRotation } from './transformGeometry';
+
+/**
+ * 円形・円弧状の複製
+ *
+ * 選択したオブジェクト全体（グループを含む）の外接矩形の中心を、指定した中心から半径の位置に並べる。
+ * 開始角度から終了角度までが一周の場合は等分し、円弧の場合は両端にも配置する。
+ */
+
+// 一度に作成できる複製の上限
+export const MAX_RADIAL_COUNT = 100;
+
+/**
+ * 各複製の位置と角度（度）
+ */
+export const getRadialPlacements = (settings: RadialDuplicateSettings): { position: Position; angle: number }[] => {
+    const { center, radius, count, startAngle, endAngle } = settings;
+    if (count < 1) return [];
+
+    const sweep = endAngle - startAngle;
+    const isFullCircle = Math.abs(sweep) >= 360;
+    const step = count === 1 ? 0 : sweep / (isFullCircle ? count : count - 1);
+
+    return Array.from({ length: count }, (_, index) => {
+        const angle = startAngle + step * index;
+        const theta = angle * Math.PI / 180;
+        return {
+            position: {
+                x: center.x + radius * Math.cos(theta),
+                y: center.y + radius * Math.sin(theta)
+            },
+            angle
+        };
+    });
+};
+
+const rotatePoint = (point: Position, origin: Position, degrees: number): Position => {
+    const theta = degrees * Math.PI / 180;
+    const dx = point.x - origin.x;
+    const dy = point.y - origin.y;
+    return {
+        x: origin.x + dx * Math.cos(theta) - dy * Math.sin(theta),
+        y: origin.y + dx * Math.sin(theta) + dy * Math.cos(theta)
+    };
+};
+
+/**
+ * 回転した複製のプロパティ（円は回転しても変わらない）
+ */
+const rotateProperties = (table: TableObject, degrees: number): TableObject['properties'] => {
+    if (table.type === 'circle' || table.type === 'scale') return table.properties;
+
+    const props = table.properties as RectangleProps | SVGTableProps | TextBoxProps;
+    return { ...props, rotationAngle: normalizeRotation(props.rotationAngle + degrees) };
+};
+
+/**
+ * 円形・円弧状の複製のオブジェクトを作成
+ * 縮尺（寸法線）は元のオブジェクトを参照するため複製しない
+ */
+export const createRadialCopies = (tables: TableObject[], settings: RadialDuplicateSettings): TableObject[] => {
+    const sources = tables.filter(table => table.type !== 'scale');
+    if (sources.length === 0) return [];
+
+    const bounds = getTablesBounds(sources);
+    const origin = { x: bounds.centerX, y: bounds.centerY };
+
+    return getRadialPlacements(settings).flatMap(({ position, angle }, copyIndex) => {
+        // 上辺が中心を向く角度（中心の真下に置いた場合が0°）
+        const rotation = settings.faceCenter ? angle - 90 : 0;
+
+        // 複製ごとに別のグループにする
+        return remapGroupIds(sources.map((table, tableIndex) => {
+            const rotated = rotatePoint(table.position, origin, rotation);
+            return {
+                ...table,
+                id: `table_${Date.now()}_${copyIndex}_${tableIndex}_${Math.random().toString(36).substring(2, 9)}`,
+                position: {
+                    x: rotated.x - origin.x + position.x,
+                    y: rotated.y - origin.y + position.y
+                },
+                properties: rotation === 0 ? table.properties : rotateProperties(table, rotation)
+            };
+        }));
+    });
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { getRoomScaleFactor, getDistance, calibrateLayout } from './scaleCalibration';
+import type { LayoutState } from '../hooks/useLayoutHistory';
+import type { SVGData } from '../types/index';
+import { SVG_SCALE_FACTOR } from '../constants/scale';
+import { createCircle } from '../test/fixtures';
+
+const svgData: SVGData = {
+    content: '<svg/>',
+    width: 2000,
+    height: 1000,
+    viewBox: { x: 100, y: 0, width: 2000, height: 1000 },
+    bounds: { minX: 100, minY: 0, maxX: 2100, maxY: 1000 },
+    fileName: '会場'
+};
+
+const state: LayoutState = {
+    svgData,
+    tables: [createCircle('a', 500, 250, { radius: 400 })],
+    boundaryArea: { x: 100, y: 100, width: 800, height: 600 }
+};
+
+describe('getRoomScaleFactor', () => {
+    it('縮尺が未設定・無効な場合は既定の縮尺を返す', () => {
+        expect(getRoomScaleFactor(svgData)).toBe(SVG_SCALE_FACTOR);
+        expect(getRoomScaleFactor({ ...svgData, scaleFactor: 0 })).toBe(SVG_SCALE_FACTOR);
+        expect(getRoomScaleFactor({ ...svgData, scaleFactor: 25 })).toBe(25);
+    });
+});
+
+describe('getDistance', () => {
+    it('2点間の距離を返す', () => {
+        expect(getDistance({ x: 0, y: 0 }, { x: 300, y: 400 })).toBe(500);
+    });
+});
+
+describe('calibrateLayout', () => {
+    it('会場図・境界エリア・オブジェクトの位置を実寸に合わせて拡大縮小する', () => {
+        // 現在の縮尺で1000mmの2点間が実際は2000mm
+        const calibrated = calibrateLayout(state, 1000, 2000);
+
+        expect(calibrated.svgData).toMatchObject({
+            width: 4000,
+            height: 2000,
+            viewBox: { x: 200, y: 0, width: 4000, height: 2000 },
+            bounds: { minX: 200, minY: 0, maxX: 4200, maxY: 2000 },
+            scaleFactor: SVG_SCALE_FACTOR * 2
+        });
+        expect(calibrated.boundaryArea).toEqual({ x: 200, y: 200, width: 1600, height: 1200 });
+        expect(calibrated.tables[0].position).toEqual({ x: 1000, y: 500 });
+    });
+
+    it('オブジェクトの大きさは変えない', () => {
+        const calibrated = calibrateLayout(state, 1000, 2000);
+        expect(calibrated.tables[0].properties).toEqual(state.tables[0].properties);
+    });
+
+    it('会場図が無い場合・距離が無効な場合は変更しない', () => {
+        expect(calibrateLayout({ ...state, svgData: null }, 1000, 2000).tables).toBe(state.tables);
+        expect(calibrateLayout(state, 0, 2000)).toBe(state);
+        expect(calibrateLayout(state, 1000, -1)).toBe(state);
+    });
+});
@@ -0,0 +1,64 @@
+import type { SVGData, Position } from '../types/index';
+import type { LayoutState } from '../hooks/useLayoutHistory';
+import { SVG_SCALE_FACTOR } from '../constants/scale';
+
+/**
+ * 会場図の縮尺（SVGの1単位あたりのmm）
+ */
+export const getRoomScaleFactor = (svgData: SVGData): number =>
+    svgData.scaleFactor && svgData.scaleFactor > 0 ? svgData.scaleFactor : SVG_SCALE_FACTOR;
+
+/**
+ * 2点間の距離（mm）
+ */
+export const getDistance = (start: Position, end: Position): number =>
+    Math.hypot(end.x - start.x, end.y - start.y);
+
+/**
+ * 会場図の縮尺を調整する
+ * measuredDistanceは現在の縮尺で測った2点間の距離、realDistanceはその実寸（どちらもmm）
+ *
+ * 会場図と境界エリア、オブジェクトの位置は会場図に合わせて拡大縮小する。
+ * オブジェクトの大きさ・グリッド・寸法はmm単位のため変わらない。
+ */
+export const calibrateLayout = (state: LayoutState, measuredDistance: number, realDistance: number): LayoutState => {
+    const { svgData } = state;
+    if (!svgData || measuredDistance <= 0 || realDistance <= 0) return state;
+
+    const ratio = realDistance / measuredDistance;
+    const scalePosition = (position: Position): Position => ({
+        x: position.x * ratio,
+        y: position.y * ratio
+    });
+
+    return {
+        svgData: {
+            ...svgData,
+            width: svgData.width * ratio,
+            height: svgData.height * ratio,
+            viewBox: {
+                x: svgData.viewBox.x * ratio,
+                y: svgData.viewBox.y * ratio,
+                width: svgData.viewBox.width * ratio,
+                height: svgData.viewBox.height * ratio
+            },
+            bounds: {
+                minX: svgData.bounds.minX * ratio,
+                minY: svgData.bounds.minY * ratio,
+                maxX: svgData.bounds.maxX * ratio,
+                maxY: svgData.bounds.maxY * ratio
+            },
+            scaleFactor: getRoomScaleFactor(svgData) * ratio
+        },
+        tables: state.tables.map(table => ({
+            ...table,
+            position: scalePosition(table.position)
+        })),
+        boundaryArea: state.boundaryArea && {
+            x: state.boundaryArea.x * ratio,
+            y: state.boundaryArea.y * ratio,
+            width: state.boundaryArea.width * ratio,
+            height: state.boundaryArea.height * ratio
+        }
+    };
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getScaleMeasurement, formatScaleDistance } from './scaleGeometry';
+import type { TableObject } from '../types/index';
+import { createRectangle, createScale } from '../test/fixtures';
+
+// 中心(x, y)・幅200mm・高さ100mmの長方形
+const createTable = (id: string, x: number, y: number): TableObject =>
+    createRectangle(id, x, y, { width: 200, height: 100 });
+
+describe('getScaleMeasurement', () => {
+    it('上下方向が重なっている場合は水平寸法を返す', () => {
+        const tables = [createTable('a', 0, 0), createTable('b', 1000, 20)];
+        expect(getScaleMeasurement(createScale('scale', 'b', 'a'), tables)).toEqual({
+            scaleType: 'horizontal',
+            startX: 100,
+            startY: 10,
+            endX: 900,
+            endY: 10,
+            distance: 800
+        });
+    });
+
+    it('左右方向が重なっている場合は垂直寸法を返す', () => {
+        const tables = [createTable('a', 0, 0), createTable('b', 0, 600)];
+        expect(getScaleMeasurement(createScale('scale', 'a', 'b'), tables)).toMatchObject({
+            scaleType: 'vertical',
+            startY: 50,
+            endY: 550,
+            distance: 500
+        });
+    });
+
+    it('斜めに離れている場合は向かい合う角同士の直線寸法を返す', () => {
+        const tables = [createTable('a', 0, 0), createTable('b', 500, 400)];
+        expect(getScaleMeasurement(createScale('scale', 'a', 'b'), tables)).toEqual({
+            scaleType: 'digonal',
+            startX: 100,
+            startY: 50,
+            endX: 400,
+            endY: 350,
+            distance: Math.hypot(300, 300)
+        });
+    });
+
+    it('重なっている場合は寸法を表示しない', () => {
+        const tables = [createTable('a', 0, 0), createTable('b', 50, 50)];
+        const measurement = getScaleMeasurement(createScale('scale', 'a', 'b'), tables);
+        expect(measurement?.scaleType).toBe('none');
+        expect(formatScaleDistance(measurement!)).toBe('');
+    });
+
+    it('測定対象が削除されている場合はnull', () => {
+        expect(getScaleMeasurement(createScale('scale', 'a', 'missing'), [createTable('a', 0, 0)])).toBeNull();
+    });
+});
+
+describe('formatScaleDistance', () => {
+    it('mm単位に丸めて桁区切りで表示する', () => {
+        expect(formatScaleDistance({ scaleType: 'horizontal', startX: 0, startY: 0, endX: 0, endY: 0, distance: 1234.6 }))
+            .toBe('1,235mm');
+    });
+});
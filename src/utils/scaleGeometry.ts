@@ -0,0 +1,114 @@
+import { type TableObject, type ScaleProps, circumscriptionSizeFull } from '../types/index';
+
+export type ScaleType = 'none' | 'horizontal' | 'vertical' | 'digonal';
+
+/**
+ * 寸法線の種類・始点終点（mm）・表示する距離
+ */
+export interface ScaleMeasurement {
+    scaleType: ScaleType;
+    startX: number;
+    startY: number;
+    endX: number;
+    endY: number;
+    distance: number;
+}
+
+/**
+ * 寸法線オブジェクトの形状を計算
+ * 測定対象のオブジェクトが削除されている場合はnullを返す
+ */
+export const getScaleMeasurement = (table: TableObject, allTables: TableObject[]): ScaleMeasurement | null => {
+    const props = table.properties as ScaleProps;
+
+    // 選択された２つのテーブルを取得
+    const firstTable = allTables.find(t => t.id == props.firstTableId);
+    const secondTable = allTables.find(t => t.id == props.secondTableId);
+    if (!firstTable || !secondTable) {
+        return null;
+    }
+
+    const firstCircumscription = circumscriptionSizeFull(firstTable);
+    const secondCircumscription = circumscriptionSizeFull(secondTable);
+
+    // 水平方向の距離
+    const horizontalDistance = Math.max(
+        firstCircumscription.corners.topLeft.x - secondCircumscription.corners.bottomRight.x,
+        secondCircumscription.corners.topLeft.x - firstCircumscription.corners.bottomRight.x
+    );
+
+    // 垂直方向の距離
+    const verticalDistance = Math.max(
+        firstCircumscription.corners.topLeft.y - secondCircumscription.corners.bottomRight.y,
+        secondCircumscription.corners.topLeft.y - firstCircumscription.corners.bottomRight.y
+    );
+
+    // 直線距離
+    const digonalDistance = Math.sqrt(Math.pow(horizontalDistance, 2) + Math.pow(verticalDistance, 2));
+
+    if (horizontalDistance <= 0 && verticalDistance <= 0) {
+        // 重なっている
+        return { scaleType: 'none', startX: 0, startY: 0, endX: 0, endY: 0, distance: 0 };
+    }
+
+    if (horizontalDistance > 0 && verticalDistance <= 0) {
+        // 垂直方法は重なっている→水平寸法を表示
+        const overlapStart = Math.max(firstCircumscription.corners.topLeft.y, secondCircumscription.corners.topLeft.y);
+        const overlapEnd = Math.min(firstCircumscription.corners.bottomLeft.y, secondCircumscription.corners.bottomLeft.y);
+        const centerY = (overlapStart + overlapEnd) / 2;
+        const [left, right] = firstCircumscription.corners.topLeft.x < secondCircumscription.corners.topLeft.x
+            ? [firstCircumscription, secondCircumscription]
+            : [secondCircumscription, firstCircumscription];
+        return {
+            scaleType: 'horizontal',
+            startX: left.corners.topRight.x,
+            startY: centerY,
+            endX: right.corners.topLeft.x,
+            endY: centerY,
+            distance: horizontalDistance
+        };
+    }
+
+    if (horizontalDistance <= 0 && verticalDistance > 0) {
+        // 水平方向は重なっている→垂直寸法を表示
+        const overlapStart = Math.max(firstCircumscription.corners.topLeft.x, secondCircumscription.corners.topLeft.x);
+        const overlapEnd = Math.min(firstCircumscription.corners.topRight.x, secondCircumscription.corners.topRight.x);
+        const centerX = (overlapStart + overlapEnd) / 2;
+        const [top, bottom] = firstCircumscription.corners.topLeft.y < secondCircumscription.corners.topLeft.y
+            ? [firstCircumscription, secondCircumscription]
+            : [secondCircumscription, firstCircumscription];
+        return {
+            scaleType: 'vertical',
+            startX: centerX,
+            startY: top.corners.bottomLeft.y,
+            endX: centerX,
+            endY: bottom.corners.topLeft.y,
+            distance: verticalDistance
+        };
+    }
+
+    // 離れている→直線寸法を表示（向かい合う角同士を結ぶ）
+    const firstIsLeft = firstCircumscription.corners.topLeft.x < secondCircumscription.corners.topLeft.x;
+    const firstIsTop = firstCircumscription.corners.topLeft.y < secondCircumscription.corners.topLeft.y;
+    const start = firstIsLeft
+        ? (firstIsTop ? firstCircumscription.corners.bottomRight : firstCircumscription.corners.topRight)
+        : (firstIsTop ? firstCircumscription.corners.bottomLeft : firstCircumscription.corners.topLeft);
+    const end = firstIsLeft
+        ? (firstIsTop ? secondCircumscription.corners.topLeft : secondCircumscription.corners.bottomLeft)
+        : (firstIsTop ? secondCircumscription.corners.topRight : secondCircumscription.corners.bottomRight);
+
+    return {
+        scaleType: 'digonal',
+        startX: start.x,
+        startY: start.y,
+        endX: end.x,
+        endY: end.y,
+        distance: digonalDistance
+    };
+};
+
+/**
+ * 寸法線に表示する文字列
+ */
+export const formatScaleDistance = (measurement: ScaleMeasurement): string =>
+    measurement.scaleType === 'none' ? '' : `${Math.round(measurement.distance).toLocaleString()}mm`;
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { computeSmartGuides } from './smartGuides';
+import type { TableObject, TableBounds } from '../types/index';
+import { createRectangle, createScale } from '../test/fixtures';
+
+// 外接矩形が(minX, minY)〜(maxX, maxY)になる長方形
+const rectangle = (id: string, minX: number, minY: number, maxX: number, maxY: number): TableObject =>
+    createRectangle(id, (minX + maxX) / 2, (minY + maxY) / 2, { width: maxX - minX, height: maxY - minY });
+
+const bounds = (minX: number, minY: number, maxX: number, maxY: number): TableBounds => ({
+    minX, minY, maxX, maxY, centerX: (minX + maxX) / 2, centerY: (minY + maxY) / 2
+});
+
+describe('computeSmartGuides', () => {
+    it('端・中心が揃う位置にスナップしてガイド線を返す', () => {
+        const others = [rectangle('a', -500, -100, 500, 100)];
+        const result = computeSmartGuides(bounds(503, 3000, 1003, 3200), others, 10);
+
+        expect(result.offsetX).toBe(-3);
+        expect(result.offsetY).toBeNull();
+        expect(result.guides).toEqual([{ type: 'alignment', x1: 500, y1: -100, x2: 500, y2: 3200 }]);
+    });
+
+    it('スナップする距離より離れている場合はスナップしない', () => {
+        const others = [rectangle('a', -500, -100, 500, 100)];
+        const result = computeSmartGuides(bounds(520, 3000, 1020, 3200), others, 10);
+
+        expect(result).toEqual({ offsetX: null, offsetY: null, guides: [] });
+    });
+
+    it('2つのオブジェクトの間で左右の間隔が等しくなる位置にスナップする', () => {
+        const others = [rectangle('a', 0, 0, 1000, 200), rectangle('b', 2000, 0, 3000, 200)];
+        const result = computeSmartGuides(bounds(1252, 0, 1752, 200), others, 10);
+
+        expect(result.offsetX).toBe(-2);
+        expect(result.offsetY).toBe(0);
+        expect(result.guides.filter(guide => guide.type === 'spacing')).toEqual([
+            { type: 'spacing', x1: 1000, y1: 100, x2: 1250, y2: 100 },
+            { type: 'spacing', x1: 1750, y1: 100, x2: 2000, y2: 100 }
+        ]);
+    });
+
+    it('隣り合う2つと同じ間隔で並ぶ位置にスナップする', () => {
+        const others = [rectangle('a', 0, 0, 1000, 200), rectangle('b', 1500, 0, 2500, 200)];
+
+        const after = computeSmartGuides(bounds(3004, 0, 3504, 200), others, 10);
+        expect(after.offsetX).toBe(-4);
+        expect(after.guides.filter(guide => guide.type === 'spacing').map(guide => [guide.x1, guide.x2]))
+            .toEqual([[1000, 1500], [2500, 3000]]);
+
+        const before = computeSmartGuides(bounds(-1003, 0, -503, 200), others, 10);
+        expect(before.offsetX).toBe(3);
+    });
+
+    it('縦方向の間隔にもスナップする', () => {
+        const others = [rectangle('a', 0, 0, 200, 1000), rectangle('b', 0, 2000, 200, 3000)];
+        const result = computeSmartGuides(bounds(0, 1255, 200, 1755), others, 10);
+
+        expect(result.offsetY).toBe(-5);
+        expect(result.guides.filter(guide => guide.type === 'spacing')).toEqual([
+            { type: 'spacing', x1: 100, y1: 1000, x2: 100, y2: 1250 },
+            { type: 'spacing', x1: 100, y1: 1750, x2: 100, y2: 2000 }
+        ]);
+    });
+
+    it('縮尺（寸法線）は対象外', () => {
+        const scale = createScale('s', 'a', 'b');
+        expect(computeSmartGuides(bounds(-2, -2, 100, 100), [scale], 10)).toEqual({ offsetX: null, offsetY: null, guides: [] });
+    });
+});
@@ -0,0 +1,201 @@
+import type { TableObject, TableBounds } from '../types/index';
+import { getCircumscribedBounds } from './overlap';
+
+/**
+ * スマートガイド
+ *
+ * ドラッグ中のオブジェクトの外接矩形の端・中心が、他のオブジェクトの端・中心と揃う位置や、
+ * 隣り合うオブジェクトとの間隔が等しくなる位置にスナップし、ガイド線を表示する。
+ */
+
+// スナップする距離（画面上のpx）
+export const SMART_GUIDE_THRESHOLD = 6;
+
+// 揃っているとみなす誤差（mm）
+const ALIGNMENT_EPSILON = 0.5;
+
+type Axis = 'x' | 'y';
+
+/**
+ * ガイド線（会場図の座標）
+ * alignment: 端・中心が揃っている線、spacing: 等しい間隔を示す線分
+ */
+export interface SmartGuide {
+    type: 'alignment' | 'spacing';
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+export interface SmartGuideResult {
+    offsetX: number | null;   // スナップのための移動量（スナップしない場合はnull）
+    offsetY: number | null;
+    guides: SmartGuide[];
+}
+
+interface SpacingSnap {
+    offset: number;
+    gaps: [number, number][];   // 等しい間隔の区間（移動後の座標）
+    neighbours: TableBounds[];
+}
+
+const getLines = (bounds: TableBounds, axis: Axis): number[] =>
+    axis === 'x'
+        ? [bounds.minX, (bounds.minX + bounds.maxX) / 2, bounds.maxX]
+        : [bounds.minY, (bounds.minY + bounds.maxY) / 2, bounds.maxY];
+
+const getRange = (bounds: TableBounds, axis: Axis): [number, number] =>
+    axis === 'x' ? [bounds.minX, bounds.maxX] : [bounds.minY, bounds.maxY];
+
+const shiftBounds = (bounds: TableBounds, offsetX: number, offsetY: number): TableBounds => ({
+    minX: bounds.minX + offsetX,
+    minY: bounds.minY + offsetY,
+    maxX: bounds.maxX + offsetX,
+    maxY: bounds.maxY + offsetY,
+    centerX: bounds.centerX + offsetX,
+    centerY: bounds.centerY + offsetY
+});
+
+/**
+ * 端・中心を揃えるための最小の移動量
+ */
+const findAlignmentOffset = (moving: TableBounds, others: TableBounds[], axis: Axis, threshold: number): number | null => {
+    let best: number | null = null;
+    const movingLines = getLines(moving, axis);
+    others.forEach(other => {
+        getLines(other, axis).forEach(target => {
+            movingLines.forEach(line => {
+                const offset = target - line;
+                if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+                    best = offset;
+                }
+            });
+        });
+    });
+    return best;
+};
+
+/**
+ * 隣り合うオブジェクトとの間隔を等しくするための最小の移動量
+ * 同じ列（もう一方の軸で重なっているもの）だけを対象にする
+ */
+const findSpacingSnap = (moving: TableBounds, others: TableBounds[], axis: Axis, threshold: number): SpacingSnap | null => {
+    const crossAxis: Axis = axis === 'x' ? 'y' : 'x';
+    const [crossMin, crossMax] = getRange(moving, crossAxis);
+    const [movingMin, movingMax] = getRange(moving, axis);
+    const size = movingMax - movingMin;
+
+    const row = others
+        .filter(other => {
+            const [min, max] = getRange(other, crossAxis);
+            return min < crossMax && crossMin < max;
+        })
+        .sort((a, b) => getRange(a, axis)[0] - getRange(b, axis)[0]);
+
+    let best: SpacingSnap | null = null;
+    const consider = (targetMin: number, gaps: (min: number) => [number, number][], neighbours: TableBounds[]) => {
+        const offset = targetMin - movingMin;
+        if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best.offset))) {
+            best = { offset, gaps: gaps(targetMin), neighbours };
+        }
+    };
+
+    row.forEach((a, index) => {
+        const [aMin, aMax] = getRange(a, axis);
+        row.slice(index + 1).forEach(b => {
+            const [bMin, bMax] = getRange(b, axis);
+
+            // 2つの間に入れて左右（上下）の間隔を揃える
+            const freeSpace = bMin - aMax - size;
+            if (freeSpace > 0) {
+                const gap = freeSpace / 2;
+                consider(aMax + gap, min => [[aMax, min], [min + size, bMin]], [a, b]);
+            }
+
+            // 隣り合う2つと同じ間隔で並べる
+            const pairGap = bMin - aMax;
+            if (pairGap > 0 && !row.some(other => other !== a && other !== b &&
+                getRange(other, axis)[0] < bMin && getRange(other, axis)[1] > aMax)) {
+                consider(bMax + pairGap, min => [[aMax, bMin], [bMax, min]], [a, b]);
+                consider(aMin - pairGap - size, min => [[min + size, aMin], [aMax, bMin]], [a, b]);
+            }
+        });
+    });
+
+    return best;
+};
+
+/**
+ * 等しい間隔を示す線分（間隔の中央の高さに引く）
+ */
+const toSpacingGuides = (snap: SpacingSnap, moving: TableBounds, axis: Axis): SmartGuide[] => {
+    const crossAxis: Axis = axis === 'x' ? 'y' : 'x';
+    const ranges = [moving, ...snap.neighbours].map(bounds => getRange(bounds, crossAxis));
+    const crossMin = Math.max(...ranges.map(range => range[0]));
+    const crossMax = Math.min(...ranges.map(range => range[1]));
+    const cross = crossMin <= crossMax
+        ? (crossMin + crossMax) / 2
+        : (getRange(moving, crossAxis)[0] + getRange(moving, crossAxis)[1]) / 2;
+
+    return snap.gaps.map(([start, end]) => axis === 'x'
+        ? { type: 'spacing', x1: start, y1: cross, x2: end, y2: cross }
+        : { type: 'spacing', x1: cross, y1: start, x2: cross, y2: end });
+};
+
+/**
+ * 揃っている端・中心のガイド線（揃っているオブジェクト全体にわたる1本の線）
+ */
+const toAlignmentGuides = (moving: TableBounds, others: TableBounds[], axis: Axis): SmartGuide[] => {
+    const guides: SmartGuide[] = [];
+    const crossAxis: Axis = axis === 'x' ? 'y' : 'x';
+    getLines(moving, axis).forEach(line => {
+        const aligned = others.filter(other =>
+            getLines(other, axis).some(target => Math.abs(target - line) <= ALIGNMENT_EPSILON));
+        if (aligned.length === 0) return;
+
+        const ranges = [moving, ...aligned].map(bounds => getRange(bounds, crossAxis));
+        const start = Math.min(...ranges.map(range => range[0]));
+        const end = Math.max(...ranges.map(range => range[1]));
+        guides.push(axis === 'x'
+            ? { type: 'alignment', x1: line, y1: start, x2: line, y2: end }
+            : { type: 'alignment', x1: start, y1: line, x2: end, y2: line });
+    });
+    return guides;
+};
+
+/**
+ * ドラッグ中のオブジェクトの外接矩形に対するスナップ量とガイド線を計算
+ * threshold は会場図の座標（mm）での距離
+ */
+export const computeSmartGuides = (
+    moving: TableBounds,
+    otherTables: TableObject[],
+    threshold: number
+): SmartGuideResult => {
+    const others = otherTables
+        .filter(table => table.type !== 'scale')
+        .map(getCircumscribedBounds);
+
+    const snapAxis = (axis: Axis) => {
+        const alignment = findAlignmentOffset(moving, others, axis, threshold);
+        const spacing = findSpacingSnap(moving, others, axis, threshold);
+        if (spacing && (alignment === null || Math.abs(spacing.offset) < Math.abs(alignment))) {
+            return { offset: spacing.offset, spacing };
+        }
+        return { offset: alignment, spacing: null };
+    };
+
+    const snapX = snapAxis('x');
+    const snapY = snapAxis('y');
+    const snapped = shiftBounds(moving, snapX.offset ?? 0, snapY.offset ?? 0);
+
+    const guides = [
+        ...toAlignmentGuides(snapped, others, 'x'),
+        ...toAlignmentGuides(snapped, others, 'y'),
+        ...(snapX.spacing ? toSpacingGuides(snapX.spacing, snapped, 'x') : []),
+        ...(snapY.spacing ? toSpacingGuides(snapY.spacing, snapped, 'y') : [])
+    ];
+
+    return { offsetX: snapX.offset, offsetY: snapY.offset, guides };
+};
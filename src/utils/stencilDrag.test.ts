@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    STENCIL_DRAG_TYPE,
+    setStencilDragData,
+    isStencilDrag,
+    getStencilDragData,
+    createStencilTable
+} from './stencilDrag';
+import type { StencilData } from '../types/index';
+import { createRectangleProps } from '../test/fixtures';
+import { withRealXMLParser } from '../test/xmlParser';
+
+// jsdomにはDataTransferが無いため、受け渡しに使う部分だけを用意する
+const createDataTransfer = (initial: Record<string, string> = {}): DataTransfer => {
+    const data = new Map(Object.entries(initial));
+    return {
+        effectAllowed: 'none',
+        get types() { return Array.from(data.keys()); },
+        setData: (format: string, value: string) => { data.set(format, value); },
+        getData: (format: string) => data.get(format) ?? ''
+    } as unknown as DataTransfer;
+};
+
+const stencil: StencilData = {
+    type: 'rectangle',
+    properties: createRectangleProps(1800, 600)
+};
+
+describe('ステンシルのドラッグ＆ドロップ', () => {
+    it('設定したステンシルのデータをドロップ時に取得する', () => {
+        const dataTransfer = createDataTransfer();
+        setStencilDragData(dataTransfer, stencil);
+
+        expect(dataTransfer.effectAllowed).toBe('copy');
+        expect(isStencilDrag(dataTransfer)).toBe(true);
+        expect(getStencilDragData(dataTransfer)).toEqual(stencil);
+    });
+
+    it('ファイルやテキストのドラッグはステンシルとして扱わない', () => {
+        const dataTransfer = createDataTransfer({ 'text/plain': 'hello' });
+
+        expect(isStencilDrag(dataTransfer)).toBe(false);
+        expect(getStencilDragData(dataTransfer)).toBeNull();
+    });
+
+    it('種類やプロパティが無効なデータは受け付けない', () => {
+        expect(getStencilDragData(createDataTransfer({
+            [STENCIL_DRAG_TYPE]: JSON.stringify({ type: 'scale', properties: {} })
+        }))).toBeNull();
+        expect(getStencilDragData(createDataTransfer({
+            [STENCIL_DRAG_TYPE]: JSON.stringify({ type: 'circle' })
+        }))).toBeNull();
+    });
+
+    it('無効な項目は既定値で補完せずに受け付けない', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(getStencilDragData(createDataTransfer({
+            [STENCIL_DRAG_TYPE]: JSON.stringify({ type: 'circle', properties: { radius: 'abc', fillColor: '#fff', strokeColor: '#000' } })
+        }))).toBeNull();
+        expect(getStencilDragData(createDataTransfer({
+            [STENCIL_DRAG_TYPE]: JSON.stringify({ type: 'rectangle', properties: { ...stencil.properties, width: -1 } })
+        }))).toBeNull();
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+
+    it('JSONとして解析できないデータは受け付けない', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(getStencilDragData(createDataTransfer({ [STENCIL_DRAG_TYPE]: '{' }))).toBeNull();
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+});
+
+describe('SVGステンシルのドロップ', () => {
+    withRealXMLParser();
+
+    const svgStencil = (svgContent: string) => createDataTransfer({
+        [STENCIL_DRAG_TYPE]: JSON.stringify({
+            type: 'svg',
+            properties: { svgContent, width: 900, height: 900, originalWidth: 100, originalHeight: 100, filename: 'chair.svg', rotationAngle: 0 }
+        })
+    });
+
+    it('SVGコンテンツを無害化してから受け付ける', () => {
+        const result = getStencilDragData(svgStencil('<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><script>alert(2)</script><rect width="10" height="10"/></svg>'));
+
+        expect(result?.type).toBe('svg');
+        const svgContent = (result?.properties as { svgContent: string }).svgContent;
+        expect(svgContent).not.toContain('script');
+        expect(svgContent).not.toContain('onload');
+        expect(svgContent).toContain('<rect');
+    });
+
+    it('SVGとして解析できないコンテンツは受け付けない', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(getStencilDragData(svgStencil('<svg><rect></svg>'))).toBeNull();
+        expect(getStencilDragData(svgStencil('not svg'))).toBeNull();
+        warn.mockRestore();
+    });
+});
+
+describe('createStencilTable', () => {
+    it('指定した位置に仮のオブジェクトを作成する', () => {
+        expect(createStencilTable(stencil, { x: 100, y: 200 })).toEqual({
+            id: '',
+            type: 'rectangle',
+            position: { x: 100, y: 200 },
+            properties: stencil.properties,
+            zIndex: 0
+        });
+    });
+});
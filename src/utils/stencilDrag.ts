@@ -0,0 +1,64 @@
+import type { StencilData, TableObject, Position } from '../types/index';
+import { validateTableProperties } from './tableValidation';
+
+/**
+ * ツールバーからキャンバスへのステンシルのドラッグ＆ドロップ
+ * HTML5のドラッグ＆ドロップで、作成するオブジェクトの種類とプロパティをJSONで受け渡す
+ */
+
+// 他のドラッグ（ファイルやテキスト）と区別するための独自のデータ形式
+export const STENCIL_DRAG_TYPE = 'application/x-venue-layout-stencil';
+
+const STENCIL_TYPES: StencilData['type'][] = ['rectangle', 'circle', 'svg', 'textbox'];
+
+/**
+ * ドラッグ開始時にステンシルのデータを設定
+ */
+export const setStencilDragData = (dataTransfer: DataTransfer, stencil: StencilData): void => {
+    dataTransfer.setData(STENCIL_DRAG_TYPE, JSON.stringify(stencil));
+    dataTransfer.effectAllowed = 'copy';
+};
+
+/**
+ * ステンシルのドラッグかどうか（dragover中はデータを読めないため種類で判定）
+ */
+export const isStencilDrag = (dataTransfer: DataTransfer): boolean =>
+    Array.from(dataTransfer.types).includes(STENCIL_DRAG_TYPE);
+
+/**
+ * ドロップされたステンシルのデータを取得
+ * 他のページからドロップされたデータもあり得るため、読み込み時と同じ種類ごとの検証とSVGの無害化を行う
+ */
+export const getStencilDragData = (dataTransfer: DataTransfer): StencilData | null => {
+    const json = dataTransfer.getData(STENCIL_DRAG_TYPE);
+    if (!json) return null;
+
+    try {
+        const data = JSON.parse(json);
+        if (!data || typeof data !== 'object' || !STENCIL_TYPES.includes(data.type) ||
+            !data.properties || typeof data.properties !== 'object') {
+            return null;
+        }
+
+        const { properties, errors } = validateTableProperties(data.type, data.properties);
+        if (!properties) {
+            console.warn('ステンシルのデータが無効です:', errors.join('、'));
+            return null;
+        }
+        return { type: data.type, properties } as StencilData;
+    } catch (error) {
+        console.warn('ステンシルのデータを読み込めませんでした:', error);
+    }
+    return null;
+};
+
+/**
+ * 配置位置の計算や重なりの判定のため、ステンシルから仮のオブジェクトを作成
+ */
+export const createStencilTable = (stencil: StencilData, position: Position): TableObject => ({
+    id: '',
+    type: stencil.type,
+    position,
+    properties: stencil.properties,
+    zIndex: 0
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { parseSVGDimensions } from './svgDimensions';
+import { withRealXMLParser } from '../test/xmlParser';
+
+withRealXMLParser();
+
+const svg = (attributes: string) => `<svg xmlns="http://www.w3.org/2000/svg" ${attributes}><rect/></svg>`;
+
+describe('parseSVGDimensions', () => {
+    it('単位なし・pxはSVGの1単位をuserUnitScale倍したmmとして扱う', () => {
+        const result = parseSVGDimensions(svg('width="200" height="100px"'), 10);
+
+        expect(result.success).toBe(true);
+        expect(result.warnings).toEqual([]);
+        expect(result.dimensions).toEqual({
+            width: 2000,
+            height: 1000,
+            viewBox: { x: 0, y: 0, width: 200, height: 100 },
+            scaleFactor: 10
+        });
+    });
+
+    it('物理単位は実寸に換算する', () => {
+        expect(parseSVGDimensions(svg('width="30cm" height="2in" viewBox="0 0 300 50"')).dimensions)
+            .toMatchObject({ width: 300, height: 50.8, scaleFactor: 1 });
+        expect(parseSVGDimensions(svg('width="72pt" height="36pt" viewBox="0 0 72 36"')).dimensions)
+            .toMatchObject({ width: 25.4, height: 12.7 });
+    });
+
+    it('viewBoxが無い物理単位のSVGはCSSのpxを座標系とする', () => {
+        const { dimensions } = parseSVGDimensions(svg('width="25.4mm" height="50.8mm"'));
+
+        expect(dimensions?.width).toBeCloseTo(25.4);
+        expect(dimensions?.viewBox.width).toBeCloseTo(96);
+        expect(dimensions?.viewBox.height).toBeCloseTo(192);
+    });
+
+    it('viewBoxはカンマ区切りも受け付ける', () => {
+        expect(parseSVGDimensions(svg('width="100mm" height="50mm" viewBox="10,20,200,100"')).dimensions?.viewBox)
+            .toEqual({ x: 10, y: 20, width: 200, height: 100 });
+    });
+
+    it('片方のサイズしか無い場合はviewBoxの縦横比から算出して警告する', () => {
+        const result = parseSVGDimensions(svg('width="400mm" viewBox="0 0 200 100"'));
+
+        expect(result.dimensions).toMatchObject({ width: 400, height: 200 });
+        expect(result.warnings).toEqual([
+            { code: 'missing-size', attribute: 'height', value: null, message: 'heightが無いため、viewBoxの縦横比から算出しました' }
+        ]);
+    });
+
+    it('width/heightが無い場合はviewBoxの大きさから算出して警告する', () => {
+        const result = parseSVGDimensions(svg('viewBox="0 0 300 200"'), 10);
+
+        expect(result.dimensions).toMatchObject({ width: 3000, height: 2000, scaleFactor: 10 });
+        expect(result.warnings.map(warning => warning.code)).toEqual(['missing-size']);
+    });
+
+    it('対応していない単位・正でない値・無効なviewBoxは警告して無視する', () => {
+        const result = parseSVGDimensions(svg('width="100%" height="-5" viewBox="0 0 0 100"'));
+
+        expect(result.success).toBe(false);
+        expect(result.warnings.map(warning => warning.code)).toEqual(['unsupported-unit', 'invalid-size', 'invalid-viewbox']);
+        expect(result.error?.message).toBe('SVGのサイズを判別できません');
+        expect(result.error?.details).toBe('width=100%, height=-5, viewBox=0 0 0 100');
+    });
+
+    it('数値として認識できない値は警告する', () => {
+        const result = parseSVGDimensions(svg('width="wide" viewBox="0 0 10 10"'));
+
+        expect(result.success).toBe(true);
+        expect(result.warnings[0]).toMatchObject({ code: 'invalid-size', attribute: 'width', value: 'wide' });
+    });
+
+    it('解析できない文字列はエラーにする', () => {
+        const result = parseSVGDimensions('<svg><g></svg>');
+        expect(result.success).toBe(false);
+        expect(result.error?.type).toBe('parse');
+    });
+});
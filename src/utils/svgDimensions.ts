@@ -0,0 +1,191 @@
+import type { SVGDimensionResult, SVGDimensionWarning, ViewBox } from '../types/index';
+import { SVG_SCALE_FACTOR } from '../constants/scale';
+
+/**
+ * SVGの寸法解析
+ *
+ * ルート要素のwidth/height/viewBoxから実寸（mm）を求める。
+ * mm・cm・in・ptは物理単位として換算し、単位なし・pxはSVGの1単位として userUnitScale（mm）を掛ける。
+ * 判別できない値は推測せず、警告またはエラーとして返す。
+ */
+
+type LengthUnit = '' | 'px' | 'mm' | 'cm' | 'in' | 'pt';
+
+// 各単位の1あたりのmm（単位なし・pxはuserUnitScaleで換算）
+const MM_PER_UNIT: Record<Exclude<LengthUnit, '' | 'px'>, number> = {
+    mm: 1,
+    cm: 10,
+    in: 25.4,
+    pt: 25.4 / 72
+};
+
+// 各単位の1あたりのSVG座標（CSSのpx）。viewBoxが無い場合の座標系の算出に使う
+const USER_UNITS_PER_UNIT: Record<LengthUnit, number> = {
+    '': 1,
+    px: 1,
+    mm: 96 / 25.4,
+    cm: 96 / 2.54,
+    in: 96,
+    pt: 96 / 72
+};
+
+const LENGTH_PATTERN = /^\s*([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*([a-z%]*)\s*$/i;
+
+interface ParsedLength {
+    mm: number;
+    userUnits: number;
+}
+
+const isLengthUnit = (unit: string): unit is LengthUnit => unit in USER_UNITS_PER_UNIT;
+
+/**
+ * width/height属性の値を解析
+ * 属性が無い・解析できない場合はnull（属性がある場合は警告を追加）
+ */
+const parseLength = (
+    attribute: 'width' | 'height',
+    value: string | null,
+    userUnitScale: number,
+    warnings: SVGDimensionWarning[]
+): ParsedLength | null => {
+    if (value === null || value.trim() === '') return null;
+
+    const match = value.match(LENGTH_PATTERN);
+    if (!match) {
+        warnings.push({ code: 'invalid-size', attribute, value, message: `${attribute}「${value}」を数値として認識できません` });
+        return null;
+    }
+
+    const amount = parseFloat(match[1]);
+    const unit = match[2].toLowerCase();
+    if (!isLengthUnit(unit)) {
+        warnings.push({ code: 'unsupported-unit', attribute, value, message: `${attribute}「${value}」の単位「${unit}」には対応していません` });
+        return null;
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+        warnings.push({ code: 'invalid-size', attribute, value, message: `${attribute}「${value}」は正の値ではありません` });
+        return null;
+    }
+
+    return {
+        mm: unit === '' || unit === 'px' ? amount * userUnitScale : amount * MM_PER_UNIT[unit],
+        userUnits: amount * USER_UNITS_PER_UNIT[unit]
+    };
+};
+
+/**
+ * viewBox属性を解析
+ */
+const parseViewBox = (value: string | null, warnings: SVGDimensionWarning[]): ViewBox | null => {
+    if (value === null || value.trim() === '') return null;
+
+    const values = value.trim().split(/[\s,]+/).map(Number);
+    if (values.length !== 4 || !values.every(Number.isFinite) || values[2] <= 0 || values[3] <= 0) {
+        warnings.push({ code: 'invalid-viewbox', attribute: 'viewBox', value, message: `viewBox「${value}」を認識できないため無視しました` });
+        return null;
+    }
+
+    return { x: values[0], y: values[1], width: values[2], height: values[3] };
+};
+
+/**
+ * SVGのルート要素から寸法を取得
+ */
+export const parseSVGElementDimensions = (
+    svgElement: Element,
+    userUnitScale: number = SVG_SCALE_FACTOR
+): SVGDimensionResult => {
+    const warnings: SVGDimensionWarning[] = [];
+    const widthAttr = svgElement.getAttribute('width');
+    const heightAttr = svgElement.getAttribute('height');
+    const viewBoxAttr = svgElement.getAttribute('viewBox');
+
+    const width = parseLength('width', widthAttr, userUnitScale, warnings);
+    const height = parseLength('height', heightAttr, userUnitScale, warnings);
+    const parsedViewBox = parseViewBox(viewBoxAttr, warnings);
+
+    let widthMm: number;
+    let heightMm: number;
+    let viewBox: ViewBox;
+
+    if (width && height) {
+        widthMm = width.mm;
+        heightMm = height.mm;
+        viewBox = parsedViewBox ?? { x: 0, y: 0, width: width.userUnits, height: height.userUnits };
+    } else if (parsedViewBox && (width || height)) {
+        // 片方だけ指定されている場合はviewBoxの縦横比から算出
+        const aspectRatio = parsedViewBox.height / parsedViewBox.width;
+        const known = (width ?? height) as ParsedLength;
+        widthMm = width ? known.mm : known.mm / aspectRatio;
+        heightMm = width ? known.mm * aspectRatio : known.mm;
+        viewBox = parsedViewBox;
+        const missing = width ? 'height' : 'width';
+        warnings.push({
+            code: 'missing-size',
+            attribute: missing,
+            value: missing === 'width' ? widthAttr : heightAttr,
+            message: `${missing}が無いため、viewBoxの縦横比から算出しました`
+        });
+    } else if (parsedViewBox) {
+        // width/heightが無い場合はviewBoxの1単位をSVGの1単位として扱う
+        widthMm = parsedViewBox.width * userUnitScale;
+        heightMm = parsedViewBox.height * userUnitScale;
+        viewBox = parsedViewBox;
+        warnings.push({
+            code: 'missing-size',
+            attribute: width ? 'height' : 'width',
+            value: width ? heightAttr : widthAttr,
+            message: 'width/heightが無いため、viewBoxの大きさから算出しました'
+        });
+    } else {
+        return {
+            success: false,
+            error: {
+                type: 'validation',
+                message: 'SVGのサイズを判別できません',
+                details: `width=${widthAttr ?? 'なし'}, height=${heightAttr ?? 'なし'}, viewBox=${viewBoxAttr ?? 'なし'}`
+            },
+            warnings
+        };
+    }
+
+    return {
+        success: true,
+        dimensions: {
+            width: widthMm,
+            height: heightMm,
+            viewBox,
+            scaleFactor: widthMm / viewBox.width
+        },
+        warnings
+    };
+};
+
+/**
+ * SVG文字列から寸法を取得
+ */
+export const parseSVGDimensions = (
+    svgContent: string,
+    userUnitScale: number = SVG_SCALE_FACTOR
+): SVGDimensionResult => {
+    const doc = new DOMParser().parseFromString(svgContent, 'image/svg+xml');
+    const parserError = doc.querySelector('parsererror');
+    if (parserError) {
+        return {
+            success: false,
+            error: { type: 'parse', message: '無効なSVGファイルです', details: parserError.textContent?.trim() || undefined },
+            warnings: []
+        };
+    }
+
+    const svgElement = doc.documentElement;
+    if (!svgElement || svgElement.nodeName.toLowerCase() !== 'svg') {
+        return {
+            success: false,
+            error: { type: 'validation', message: 'SVG要素が見つかりません' },
+            warnings: []
+        };
+    }
+
+    return parseSVGElementDimensions(svgElement, userUnitScale);
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { processSVGContent, importSVGFile, formatSVGLoadError, MAX_SVG_FILE_SIZE } from './svgImport';
+import { withRealXMLParser } from '../test/xmlParser';
+
+withRealXMLParser();
+
+const ROOM_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="100" viewBox="10 20 200 100"><rect width="200" height="100"/></svg>';
+
+// 指定したサイズのファイル（中身は読み込まない検証用）
+const createSizedFile = (name: string, size: number, type = 'image/svg+xml'): File => {
+    const file = new File([''], name, { type });
+    Object.defineProperty(file, 'size', { value: size });
+    return file;
+};
+
+describe('processSVGContent', () => {
+    it('SVGの1単位をSVG_SCALE_FACTOR倍したmmとして会場データを作成する', () => {
+        const result = processSVGContent(ROOM_SVG, '会場.svg');
+
+        expect(result.success).toBe(true);
+        expect(result.warnings).toEqual([]);
+        expect(result.data).toMatchObject({
+            width: 2000,
+            height: 1000,
+            viewBox: { x: 100, y: 200, width: 2000, height: 1000 },
+            bounds: { minX: 100, minY: 200, maxX: 2100, maxY: 1200 },
+            fileName: '会場',
+            scaleFactor: 10
+        });
+    });
+
+    it('mm単位のSVGは実寸として読み込む', () => {
+        const result = processSVGContent(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="5000mm" height="3000mm" viewBox="0 0 500 300"><rect width="500" height="300"/></svg>',
+            'room.svg'
+        );
+
+        expect(result.data).toMatchObject({ width: 5000, height: 3000, scaleFactor: 10 });
+    });
+
+    it('スクリプトを取り除いて警告する', () => {
+        const result = processSVGContent(
+            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><script>alert(1)</script><rect width="10" height="10"/></svg>',
+            'room.svg'
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.data?.content).not.toContain('script');
+        expect(result.warnings?.[0]).toContain('script');
+    });
+
+    it('図形が無いSVGは警告する', () => {
+        const result = processSVGContent('<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"/>', 'room.svg');
+        expect(result.warnings).toContain('SVGに図形が含まれていません');
+    });
+
+    it('空のファイル・SVGでないファイル・サイズの無いSVGは読み込めない', () => {
+        expect(processSVGContent('  ', 'room.svg').error?.message).toBe('ファイルが空です');
+        expect(processSVGContent('<html xmlns="http://www.w3.org/1999/xhtml"/>', 'room.svg').error?.message).toBe('SVG要素が見つかりません');
+        expect(processSVGContent('<svg xmlns="http://www.w3.org/2000/svg"><rect/></svg>', 'room.svg').error?.message)
+            .toBe('SVGのサイズを判別できません');
+    });
+
+    it('解析できないファイルはエラーにする', () => {
+        const result = processSVGContent('<svg><rect></svg>', 'room.svg');
+        expect(result.success).toBe(false);
+        expect(result.error?.type).toBe('parse');
+    });
+});
+
+describe('importSVGFile', () => {
+    it('SVG以外のファイルは読み込まない', async () => {
+        const result = await importSVGFile(createSizedFile('room.png', 100, 'image/png'));
+        expect(result.error?.message).toBe('SVGファイルを選択してください');
+    });
+
+    it('空のファイル・上限を超えるファイルは読み込まない', async () => {
+        expect((await importSVGFile(createSizedFile('room.svg', 0))).error?.message).toBe('ファイルが空です');
+
+        const result = await importSVGFile(createSizedFile('room.svg', MAX_SVG_FILE_SIZE + 1));
+        expect(result.error?.type).toBe('size');
+        expect(result.error?.details).toBe('room.svg: 10.0MB');
+    });
+});
+
+describe('formatSVGLoadError', () => {
+    it('詳細があれば括弧書きで付ける', () => {
+        expect(formatSVGLoadError({ type: 'file', message: 'ファイルが空です', details: 'room.svg' })).toBe('ファイルが空です（room.svg）');
+        expect(formatSVGLoadError({ type: 'file', message: 'ファイルが空です' })).toBe('ファイルが空です');
+    });
+});
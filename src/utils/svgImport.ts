@@ -0,0 +1,148 @@
+import type { SVGData, SVGLoadError, SVGProcessingResult } from '../types/index';
+import { SVG_SCALE_FACTOR } from '../constants/scale';
+import { parseSVGElementDimensions } from './svgDimensions';
+import { sanitizeSVGElement, formatSanitizeWarning } from './svgSanitizer';
+
+/**
+ * 会場図SVGの読み込み処理
+ * プリセット・ローカルファイルのどちらも同じ処理を通して SVGData を作成する
+ */
+
+// 読み込めるファイルサイズの上限
+export const MAX_SVG_FILE_SIZE = 10 * 1024 * 1024;
+
+// これを超えると描画が重くなる可能性があるため警告する
+const LARGE_SVG_FILE_SIZE = 2 * 1024 * 1024;
+
+const failure = (type: SVGLoadError['type'], message: string, details?: string): SVGProcessingResult => ({
+    success: false,
+    error: { type, message, details }
+});
+
+const formatFileSize = (bytes: number): string =>
+    bytes >= 1024 * 1024
+        ? `${(bytes / 1024 / 1024).toFixed(1)}MB`
+        : `${Math.ceil(bytes / 1024)}KB`;
+
+/**
+ * エラー情報を表示用の文字列に変換
+ */
+export const formatSVGLoadError = (error: SVGLoadError): string =>
+    error.details ? `${error.message}（${error.details}）` : error.message;
+
+/**
+ * SVG文字列を解析して会場データを作成
+ */
+export const processSVGContent = (content: string, fileName: string): SVGProcessingResult => {
+    const warnings: string[] = [];
+
+    if (content.trim() === '') {
+        return failure('file', 'ファイルが空です', fileName);
+    }
+
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(content, 'image/svg+xml');
+
+    const parserError = doc.querySelector('parsererror');
+    if (parserError) {
+        return failure('parse', '無効なSVGファイルです', parserError.textContent?.trim() || undefined);
+    }
+
+    const svgElement = doc.documentElement;
+    if (!svgElement || svgElement.nodeName.toLowerCase() !== 'svg') {
+        return failure('validation', 'SVG要素が見つかりません', fileName);
+    }
+
+    // スクリプトや外部参照を取り除く（保存・共有されるのは無害化後の内容）
+    let sanitizedContent = content;
+    const removed = sanitizeSVGElement(svgElement);
+    if (removed.length > 0) {
+        sanitizedContent = new XMLSerializer().serializeToString(svgElement);
+        warnings.push(formatSanitizeWarning(removed));
+    }
+
+    // width/height・viewBoxから実寸を取得（単位なしはSVG_SCALE_FACTORで拡大）
+    const dimensionResult = parseSVGElementDimensions(svgElement, SVG_SCALE_FACTOR);
+    warnings.push(...dimensionResult.warnings.map(warning => warning.message));
+    if (!dimensionResult.dimensions) {
+        return { success: false, error: dimensionResult.error, warnings };
+    }
+
+    const { width, height, scaleFactor } = dimensionResult.dimensions;
+    const sourceViewBox = dimensionResult.dimensions.viewBox;
+    const viewBox = {
+        x: sourceViewBox.x * scaleFactor,
+        y: sourceViewBox.y * (height / sourceViewBox.height),
+        width,
+        height
+    };
+
+    // 描画する要素が無い場合は会場図として使えない可能性がある
+    if (!svgElement.querySelector('path, rect, line, polyline, polygon, circle, ellipse, image, text, use')) {
+        warnings.push('SVGに図形が含まれていません');
+    }
+
+    const data: SVGData = {
+        content: sanitizedContent,
+        width,
+        height,
+        viewBox,
+        bounds: {
+            minX: viewBox.x,
+            minY: viewBox.y,
+            maxX: viewBox.x + viewBox.width,
+            maxY: viewBox.y + viewBox.height
+        },
+        fileName: fileName.replace(/\.[^/.]+$/, ''),
+        scaleFactor
+    };
+
+    return { success: true, data, warnings };
+};
+
+/**
+ * ファイルをテキストとして読み込む
+ */
+const readFileAsText = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (event) => resolve(event.target?.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsText(file);
+    });
+};
+
+/**
+ * ローカルのSVGファイルを会場図として読み込む
+ */
+export const importSVGFile = async (file: File): Promise<SVGProcessingResult> => {
+    const isSVG = file.type === 'image/svg+xml' || /\.svg$/i.test(file.name);
+    if (!isSVG) {
+        return failure('file', 'SVGファイルを選択してください', file.name);
+    }
+
+    if (file.size === 0) {
+        return failure('file', 'ファイルが空です', file.name);
+    }
+
+    if (file.size > MAX_SVG_FILE_SIZE) {
+        return failure('size', `ファイルサイズが大きすぎます（上限${formatFileSize(MAX_SVG_FILE_SIZE)}）`,
+            `${file.name}: ${formatFileSize(file.size)}`);
+    }
+
+    let content: string;
+    try {
+        content = await readFileAsText(file);
+    } catch (error) {
+        return failure('file', 'ファイルの読み込みに失敗しました', error instanceof Error ? error.message : file.name);
+    }
+
+    const result = processSVGContent(content, file.name);
+    if (result.success && file.size > LARGE_SVG_FILE_SIZE) {
+        result.warnings = [
+            ...(result.warnings || []),
+            `ファイルサイズが大きいため（${formatFileSize(file.size)}）、表示が遅くなる可能性があります`
+        ];
+    }
+    return result;
+};
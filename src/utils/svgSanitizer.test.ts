@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeSVGContent, formatSanitizeWarning } from './svgSanitizer';
+import { withRealXMLParser } from '../test/xmlParser';
+
+withRealXMLParser();
+
+const svg = (body: string, attributes = '') =>
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"${attributes}>${body}</svg>`;
+
+describe('sanitizeSVGContent', () => {
+    it('安全なSVGは元の文字列をそのまま返す', () => {
+        const content = svg('<defs><linearGradient id="g"/></defs><rect fill="url(#g)" width="10" height="10"/><use href="#g"/>');
+        expect(sanitizeSVGContent(content)).toEqual({ content, removed: [] });
+    });
+
+    it('スクリプト・foreignObjectなどの要素を削除する', () => {
+        const result = sanitizeSVGContent(svg(
+            '<script>alert(1)</script><g><script/></g><foreignObject><div/></foreignObject><iframe/><rect/>'
+        ));
+
+        expect(result.removed).toEqual(['script要素×2', 'foreignObject要素', 'iframe要素']);
+        expect(result.content).not.toMatch(/script|foreignObject|iframe/);
+        expect(result.content).toContain('<rect/>');
+    });
+
+    it('イベントハンドラー属性を削除する', () => {
+        const result = sanitizeSVGContent(svg('<rect onclick="alert(1)" width="10"/>', ' onload="alert(1)"'));
+
+        expect(result.removed).toEqual(['onload属性', 'onclick属性']);
+        expect(result.content).not.toContain('alert');
+        expect(result.content).toContain('width="10"');
+    });
+
+    it('外部を参照するhref・url()を削除し、ファイル内の参照と埋め込み画像は残す', () => {
+        const result = sanitizeSVGContent(svg(
+            '<image href="https://example.com/a.png"/>' +
+            '<image xlink:href="data:image/png;base64,AAAA"/>' +
+            '<a xlink:href="javascript:alert(1)"><rect/></a>' +
+            '<rect fill="url(https://example.com/p.svg#x)" stroke="url(#g)"/>'
+        ));
+
+        expect(result.removed).toEqual(['href属性の外部参照', 'xlink:href属性の外部参照', 'fill属性の外部参照']);
+        expect(result.content).toContain('data:image/png;base64,AAAA');
+        expect(result.content).toContain('stroke="url(#g)"');
+        expect(result.content).not.toMatch(/example\.com|javascript/);
+    });
+
+    it('hrefやイベントハンドラーを書き換えるアニメーションを削除する', () => {
+        const result = sanitizeSVGContent(svg(
+            '<a><set attributeName="xlink:href" to="javascript:alert(1)"/><animate attributeName="onmouseover"/>' +
+            '<animate attributeName="opacity" from="0" to="1"/></a>'
+        ));
+
+        expect(result.removed).toEqual(['set要素', 'animate要素']);
+        expect(result.content).toContain('attributeName="opacity"');
+    });
+
+    it('スタイルシート内の外部参照を取り除く', () => {
+        const result = sanitizeSVGContent(svg(
+            '<style>@import url(https://example.com/a.css); rect { fill: url(https://example.com/p); stroke: url(#g); }</style>'
+        ));
+
+        expect(result.removed).toEqual(['style要素の外部参照']);
+        expect(result.content).not.toContain('example.com');
+        expect(result.content).toContain('fill: none');
+        expect(result.content).toContain('stroke: url(#g)');
+    });
+
+    it('解析できない・SVGでない文字列はnullを返す', () => {
+        expect(sanitizeSVGContent('<svg><g></svg>').content).toBeNull();
+        expect(sanitizeSVGContent('<html xmlns="http://www.w3.org/1999/xhtml"/>').content).toBeNull();
+    });
+});
+
+describe('formatSanitizeWarning', () => {
+    it('削除した内容を一覧にする', () => {
+        expect(formatSanitizeWarning(['script要素×2', 'onload属性'], '会場図'))
+            .toBe('会場図から安全でない内容を削除しました: script要素×2、onload属性');
+    });
+});
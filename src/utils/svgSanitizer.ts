@@ -0,0 +1,112 @@
+/**
+ * SVGの無害化
+ *
+ * 会場図・ステンシルのSVGはプロジェクトファイルに埋め込まれて共有されるため、
+ * 取り込む時点でスクリプト・イベントハンドラー・外部参照・foreignObjectなどを取り除く。
+ */
+
+// 要素ごと削除する要素（ローカル名を小文字で比較）
+const DISALLOWED_ELEMENTS = new Set(['script', 'foreignobject', 'iframe', 'embed', 'object']);
+
+// 属性を書き換えるアニメーション要素（hrefやイベントハンドラーを対象にする場合は削除）
+const ANIMATION_ELEMENTS = new Set(['set', 'animate', 'animatemotion', 'animatetransform']);
+
+// ファイル内で完結する参照（要素へのリンクと埋め込みのラスター画像）
+const SAFE_REFERENCE_PATTERN = /^\s*(#|data:image\/(png|jpe?g|gif|webp|bmp);base64,)/i;
+
+// url(#id) 以外のurl()
+const EXTERNAL_URL_PATTERN = /url\(\s*(?!['"]?\s*#)[^)]*\)/gi;
+const IMPORT_RULE_PATTERN = /@import[^;]*;?/gi;
+
+export interface SVGSanitizeResult {
+    content: string | null;   // 解析できない場合はnull
+    removed: string[];        // 削除した内容（「script要素×2」の形式）
+}
+
+const isEventHandler = (name: string): boolean => name.toLowerCase().startsWith('on');
+
+const isHrefAttribute = (attribute: Attr): boolean => attribute.localName.toLowerCase() === 'href';
+
+const hasExternalUrl = (value: string): boolean => {
+    EXTERNAL_URL_PATTERN.lastIndex = 0;
+    return EXTERNAL_URL_PATTERN.test(value);
+};
+
+/**
+ * SVG要素を直接書き換えて無害化し、削除した内容を返す
+ */
+export const sanitizeSVGElement = (svgElement: Element): string[] => {
+    const counts = new Map<string, number>();
+    const record = (label: string) => counts.set(label, (counts.get(label) || 0) + 1);
+
+    const elements = [svgElement, ...Array.from(svgElement.getElementsByTagName('*'))];
+    elements.forEach(element => {
+        // 親要素と一緒に削除済み
+        if (element !== svgElement && !svgElement.contains(element)) return;
+
+        const localName = element.localName.toLowerCase();
+        if (element !== svgElement && DISALLOWED_ELEMENTS.has(localName)) {
+            record(`${element.localName}要素`);
+            element.remove();
+            return;
+        }
+
+        if (ANIMATION_ELEMENTS.has(localName)) {
+            const target = (element.getAttribute('attributeName') || '').replace(/^xlink:/i, '');
+            if (target.toLowerCase() === 'href' || isEventHandler(target)) {
+                record(`${element.localName}要素`);
+                element.remove();
+                return;
+            }
+        }
+
+        Array.from(element.attributes).forEach(attribute => {
+            if (isEventHandler(attribute.localName)) {
+                record(`${attribute.name}属性`);
+                element.removeAttributeNode(attribute);
+            } else if (isHrefAttribute(attribute) && !SAFE_REFERENCE_PATTERN.test(attribute.value)) {
+                record(`${attribute.name}属性の外部参照`);
+                element.removeAttributeNode(attribute);
+            } else if (hasExternalUrl(attribute.value)) {
+                record(`${attribute.name}属性の外部参照`);
+                element.removeAttributeNode(attribute);
+            }
+        });
+
+        // スタイルシート内の外部参照（@import・url()）
+        if (localName === 'style' && element.textContent) {
+            const css = element.textContent;
+            IMPORT_RULE_PATTERN.lastIndex = 0;
+            if (IMPORT_RULE_PATTERN.test(css) || hasExternalUrl(css)) {
+                record('style要素の外部参照');
+                element.textContent = css.replace(IMPORT_RULE_PATTERN, '').replace(EXTERNAL_URL_PATTERN, 'none');
+            }
+        }
+    });
+
+    return Array.from(counts, ([label, count]) => count > 1 ? `${label}×${count}` : label);
+};
+
+/**
+ * SVG文字列を無害化
+ * 削除するものが無い場合は元の文字列をそのまま返す
+ */
+export const sanitizeSVGContent = (content: string): SVGSanitizeResult => {
+    const doc = new DOMParser().parseFromString(content, 'image/svg+xml');
+    const svgElement = doc.documentElement;
+    if (doc.querySelector('parsererror') || !svgElement || svgElement.nodeName.toLowerCase() !== 'svg') {
+        return { content: null, removed: [] };
+    }
+
+    const removed = sanitizeSVGElement(svgElement);
+    return {
+        content: removed.length > 0 ? new XMLSerializer().serializeToString(svgElement) : content,
+        removed
+    };
+};
+
+/**
+ * 削除した内容を警告メッセージに変換
+ */
+export const formatSanitizeWarning = (removed: string[], target: string = 'SVG'): string =>
+    `${target}から安全でない内容を削除しました: ${removed.join('、')}`;
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { validateTables, validateTableProperties, getTableReportLabel } from './tableValidation';
+import type { RectangleProps, CircleProps, TextBoxProps } from '../types/index';
+import { createRectangle, createRectangleProps } from '../test/fixtures';
+
+const fallbackPosition = { x: 5000, y: 3000 };
+
+// 読み込み前のデータ（propertiesで項目を上書きする）
+const rectangle = (id: string, properties: Record<string, unknown> = {}) => ({
+    ...createRectangle(id, 100, 200),
+    properties: { ...createRectangleProps(1800, 600), ...properties }
+});
+
+describe('validateTables', () => {
+    it('正常なオブジェクトはそのまま読み込み、結果を報告しない', () => {
+        const { tables, reports } = validateTables([rectangle('a')], fallbackPosition);
+
+        expect(tables).toHaveLength(1);
+        expect(tables[0].properties).toEqual(rectangle('a').properties);
+        expect(reports).toEqual([]);
+    });
+
+    it('数値文字列・範囲外の回転角度・無効な位置を修復する', () => {
+        const raw = { ...rectangle('a', { width: '1200', rotationAngle: -90 }), position: { x: 'x' } };
+        const { tables, reports } = validateTables([raw], fallbackPosition);
+
+        const props = tables[0].properties as RectangleProps;
+        expect(props.width).toBe(1200);
+        expect(props.rotationAngle).toBe(270);
+        expect(tables[0].position).toEqual(fallbackPosition);
+        expect(reports[0].repairs).toEqual([
+            '位置が無効なため会場の中央に配置しました',
+            '幅を数値に変換しました',
+            '回転角度を270度に正規化しました'
+        ]);
+        expect(reports[0].errors).toEqual([]);
+    });
+
+    it('不足したプロパティを既定値で補完する', () => {
+        const { tables, reports } = validateTables([{ id: 'c', type: 'circle', position: { x: 0, y: 0 } }], fallbackPosition);
+
+        const props = tables[0].properties as CircleProps;
+        expect(props.radius).toBeGreaterThan(0);
+        expect(props.fillColor).toBeTruthy();
+        expect(reports[0].repairs[0]).toBe('プロパティが無いため既定値で補完しました');
+        expect(reports[0].repairs).toContain('描画順が無効なためファイル内の順序で補完しました');
+    });
+
+    it('テキストボックスのサイズが無い場合は文字数から概算する', () => {
+        const raw = { id: 't', type: 'textbox', position: { x: 0, y: 0 }, properties: { text: 'ABC\nD', fontSize: 100 }, zIndex: 0 };
+        const { tables } = validateTables([raw], fallbackPosition);
+
+        const props = tables[0].properties as TextBoxProps;
+        expect(props.width).toBe(3 * 100 + 200);
+        expect(props.height).toBe(2 * 100 + 200);
+    });
+
+    it('修復できないオブジェクトは除外してエラーを報告する', () => {
+        const { tables, reports } = validateTables([
+            'invalid',
+            { id: 'u', type: 'hexagon', position: { x: 0, y: 0 }, properties: {} },
+            { id: 't', type: 'textbox', position: { x: 0, y: 0 }, properties: {} },
+            rectangle('a')
+        ], fallbackPosition);
+
+        expect(tables.map(table => table.id)).toEqual(['a']);
+        expect(reports.map(report => report.index)).toEqual([0, 1, 2]);
+        expect(reports[0].errors).toEqual(['オブジェクトの形式が無効です']);
+        expect(reports[1].errors).toEqual(['不明な種類です（hexagon）']);
+        expect(reports[2].errors).toEqual(['テキストがありません']);
+    });
+
+    it('IDが無い・重複しているオブジェクトには新しいIDを割り当てる', () => {
+        const { tables, reports } = validateTables([
+            rectangle('a'),
+            rectangle('a'),
+            { ...rectangle(''), id: undefined }
+        ], fallbackPosition);
+
+        const ids = tables.map(table => table.id);
+        expect(new Set(ids).size).toBe(3);
+        expect(ids[0]).toBe('a');
+        expect(reports[0].repairs[0]).toMatch(/^IDが重複していたため新しいID/);
+        expect(reports[1].repairs[0]).toBe('IDが無いため新しいIDを割り当てました');
+    });
+
+    it('参照先が無い寸法線は除外する', () => {
+        const scale = (id: string, secondTableId: string) => ({
+            id,
+            type: 'scale',
+            properties: { firstTableId: 'a', secondTableId },
+            zIndex: 1
+        });
+        const { tables, reports } = validateTables([
+            rectangle('a'),
+            rectangle('b'),
+            scale('s1', 'b'),
+            scale('s2', 'missing')
+        ], fallbackPosition);
+
+        expect(tables.map(table => table.id)).toEqual(['a', 'b', 's1']);
+        expect(reports).toHaveLength(1);
+        expect(reports[0]).toMatchObject({ index: 3, tableId: 's2', errors: ['測定対象のオブジェクトが見つかりません'] });
+    });
+
+    it('無効なロック状態・グループを修復し、メンバーが1つのグループは解除する', () => {
+        const { tables, reports } = validateTables([
+            { ...rectangle('a'), locked: 'yes', groupId: 'g1' },
+            { ...rectangle('b'), groupId: '' },
+            { ...rectangle('c'), groupId: 'g2' },
+            { ...rectangle('d'), groupId: 'g2' }
+        ], fallbackPosition);
+
+        expect(tables[0].locked).toBe(false);
+        expect(tables[0].groupId).toBeUndefined();
+        expect(tables[1].groupId).toBeUndefined();
+        expect(tables.slice(2).map(table => table.groupId)).toEqual(['g2', 'g2']);
+        expect(reports[0].repairs).toEqual(['ロック状態が無効なためロックを解除しました']);
+        expect(reports[1].repairs).toEqual(['グループ情報が無効なためグループから外しました']);
+    });
+
+    it('描画順を0からの連番に振り直す', () => {
+        const { tables } = validateTables([
+            { ...rectangle('a'), zIndex: 10 },
+            { ...rectangle('b'), zIndex: -3 }
+        ], fallbackPosition);
+
+        expect(tables.map(table => table.zIndex)).toEqual([1, 0]);
+    });
+});
+
+describe('validateTableProperties', () => {
+    it('有効なプロパティはそのまま返す', () => {
+        const properties = createRectangleProps(1800, 600);
+        expect(validateTableProperties('rectangle', properties)).toEqual({ properties, errors: [], repairs: [] });
+    });
+
+    it('既定値で補完せず、無効な項目をエラーとする', () => {
+        const result = validateTableProperties('circle', { radius: Infinity, fillColor: '#fff' });
+
+        expect(result.properties).toBeNull();
+        expect(result.errors).toEqual(['半径が無効です', '枠線色が無効です']);
+    });
+
+    it('回転角度が無い場合もエラーとする', () => {
+        const properties: Record<string, unknown> = { ...createRectangleProps(1800, 600) };
+        delete properties.rotationAngle;
+        expect(validateTableProperties('rectangle', properties).errors).toEqual(['回転角度が無効です']);
+    });
+});
+
+describe('getTableReportLabel', () => {
+    it('ファイル内の位置・種類・IDを表示する', () => {
+        expect(getTableReportLabel({ index: 2, tableId: 'table_1', type: 'rectangle', errors: [], repairs: [] }))
+            .toBe('オブジェクト3（長方形, ID: table_1）');
+    });
+
+    it('種類が不明な場合もそのまま表示する', () => {
+        expect(getTableReportLabel({ index: 0, type: 'hexagon', errors: [], repairs: [] })).toBe('オブジェクト1（hexagon）');
+        expect(getTableReportLabel({ index: 0, errors: [], repairs: [] })).toBe('オブジェクト1（不明）');
+    });
+});
@@ -0,0 +1,433 @@
+import type {
+    TableObject,
+    Position,
+    RectangleProps,
+    CircleProps,
+    SVGTableProps,
+    TextBoxProps,
+    ScaleProps,
+    TableValidationReport
+} from '../types/index';
+import { parseSVGDimensions } from './svgDimensions';
+import { sanitizeSVGContent, formatSanitizeWarning } from './svgSanitizer';
+import { normalizeZOrder } from './zOrder';
+import { cleanupGroups } from './groupUtils';
+
+/**
+ * 読み込み時に補完する既定値（TableToolbarの初期値に合わせる）
+ */
+const DEFAULT_RECTANGLE_WIDTH = 800;
+const DEFAULT_RECTANGLE_HEIGHT = 600;
+const DEFAULT_CIRCLE_RADIUS = 400;
+const DEFAULT_FILL_COLOR = '#cccccc';
+const DEFAULT_STROKE_COLOR = '#000000';
+const DEFAULT_FONT_SIZE = 500;
+const DEFAULT_FONT_FAMILY = "'MS PGothic', sans-serif";
+const DEFAULT_TEXT_COLOR = '#000000';
+const TEXTBOX_PADDING = 100;
+
+const TABLE_TYPES: TableObject['type'][] = ['rectangle', 'circle', 'svg', 'textbox', 'scale'];
+
+const TYPE_LABELS: { [key in TableObject['type']]: string } = {
+    rectangle: '長方形',
+    circle: '円形',
+    svg: 'SVG',
+    textbox: 'テキストボックス',
+    scale: '寸法線'
+};
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * 数値に変換（数値文字列も受け付ける）。変換できない場合はnull
+ */
+const toFiniteNumber = (value: unknown): number | null => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        return Number(value);
+    }
+    return null;
+};
+
+const generateTableId = (index: number): string =>
+    `table_${Date.now()}_${Math.random().toString(36).substring(2, 9)}_${index}`;
+
+/**
+ * 1つのオブジェクトのプロパティ検証用コンテキスト
+ */
+interface PropertyChecker {
+    props: RawObject;
+    errors: string[];
+    repairs: string[];
+    allowDefaults: boolean;  // falseの場合は既定値で補完せず、無効な項目をエラーとする
+}
+
+/**
+ * 正の数値を検証。無効な場合は既定値で修復（既定値が無い・補完しない場合はエラー）
+ */
+const checkPositiveNumber = (
+    checker: PropertyChecker,
+    key: string,
+    label: string,
+    defaultValue?: number
+): number | null => {
+    const raw = checker.props[key];
+    const value = toFiniteNumber(raw);
+    if (value !== null && value > 0) {
+        if (typeof raw !== 'number') {
+            checker.repairs.push(`${label}を数値に変換しました`);
+        }
+        return value;
+    }
+    if (defaultValue !== undefined && checker.allowDefaults) {
+        checker.repairs.push(`${label}が無効なため${defaultValue}で補完しました`);
+        return defaultValue;
+    }
+    checker.errors.push(`${label}が無効です`);
+    return null;
+};
+
+/**
+ * 回転角度を検証し、0〜360度の範囲に正規化
+ */
+const checkRotation = (checker: PropertyChecker): number => {
+    const raw = checker.props.rotationAngle;
+    const value = toFiniteNumber(raw);
+    if (value === null) {
+        if (!checker.allowDefaults) {
+            checker.errors.push('回転角度が無効です');
+        } else if (raw !== undefined) {
+            checker.repairs.push('回転角度が無効なため0度で補完しました');
+        } else {
+            checker.repairs.push('回転角度が無いため0度で補完しました');
+        }
+        return 0;
+    }
+    const normalized = ((value % 360) + 360) % 360;
+    if (normalized !== value) {
+        checker.repairs.push(`回転角度を${normalized}度に正規化しました`);
+    }
+    return normalized;
+};
+
+/**
+ * 文字列を検証。無効な場合は既定値で修復（既定値が無い・補完しない場合はエラー）
+ */
+const checkString = (
+    checker: PropertyChecker,
+    key: string,
+    label: string,
+    defaultValue?: string
+): string | null => {
+    const value = checker.props[key];
+    if (typeof value === 'string' && value !== '') return value;
+    if (defaultValue !== undefined && checker.allowDefaults) {
+        checker.repairs.push(`${label}が無効なため「${defaultValue}」で補完しました`);
+        return defaultValue;
+    }
+    checker.errors.push(`${label}が無効です`);
+    return null;
+};
+
+const validateRectangleProps = (checker: PropertyChecker): RectangleProps | null => {
+    const width = checkPositiveNumber(checker, 'width', '幅', DEFAULT_RECTANGLE_WIDTH);
+    const height = checkPositiveNumber(checker, 'height', '高さ', DEFAULT_RECTANGLE_HEIGHT);
+    const fillColor = checkString(checker, 'fillColor', '塗潰し色', DEFAULT_FILL_COLOR);
+    const strokeColor = checkString(checker, 'strokeColor', '枠線色', DEFAULT_STROKE_COLOR);
+    const rotationAngle = checkRotation(checker);
+
+    if (width === null || height === null || fillColor === null || strokeColor === null) return null;
+    return { ...checker.props, width, height, fillColor, strokeColor, rotationAngle };
+};
+
+const validateCircleProps = (checker: PropertyChecker): CircleProps | null => {
+    const radius = checkPositiveNumber(checker, 'radius', '半径', DEFAULT_CIRCLE_RADIUS);
+    const fillColor = checkString(checker, 'fillColor', '塗潰し色', DEFAULT_FILL_COLOR);
+    const strokeColor = checkString(checker, 'strokeColor', '枠線色', DEFAULT_STROKE_COLOR);
+
+    if (radius === null || fillColor === null || strokeColor === null) return null;
+    return { ...checker.props, radius, fillColor, strokeColor };
+};
+
+const validateSVGTableProps = (checker: PropertyChecker): SVGTableProps | null => {
+    const rawSvgContent = checker.props.svgContent;
+    if (typeof rawSvgContent !== 'string' || !/<svg[\s>]/i.test(rawSvgContent)) {
+        // SVG本体が無い場合は描画できないため修復不可
+        checker.errors.push('SVGコンテンツがありません');
+        return null;
+    }
+
+    // 共有されたファイルに含まれるスクリプトや外部参照を取り除く
+    const sanitized = sanitizeSVGContent(rawSvgContent);
+    if (sanitized.content === null) {
+        checker.errors.push('SVGコンテンツを解析できません');
+        return null;
+    }
+    if (sanitized.removed.length > 0) {
+        checker.repairs.push(formatSanitizeWarning(sanitized.removed, 'SVGコンテンツ'));
+    }
+    const svgContent = sanitized.content;
+
+    // サイズが無い場合はSVGコンテンツから再取得
+    const needsDimensions = toFiniteNumber(checker.props.width) === null || toFiniteNumber(checker.props.height) === null;
+    const parsed = needsDimensions ? parseSVGDimensions(svgContent).dimensions : undefined;
+
+    const width = checkPositiveNumber(checker, 'width', '幅', parsed?.width);
+    const height = checkPositiveNumber(checker, 'height', '高さ', parsed?.height);
+    const originalWidth = checkPositiveNumber(checker, 'originalWidth', '元の幅', width ?? undefined);
+    const originalHeight = checkPositiveNumber(checker, 'originalHeight', '元の高さ', height ?? undefined);
+    const filename = typeof checker.props.filename === 'string' ? checker.props.filename : '';
+    const rotationAngle = checkRotation(checker);
+
+    if (width === null || height === null || originalWidth === null || originalHeight === null) return null;
+    return { ...checker.props, svgContent, width, height, originalWidth, originalHeight, filename, rotationAngle };
+};
+
+const validateTextBoxProps = (checker: PropertyChecker): TextBoxProps | null => {
+    const text = checker.props.text;
+    if (typeof text !== 'string') {
+        checker.errors.push('テキストがありません');
+        return null;
+    }
+
+    const fontSize = checkPositiveNumber(checker, 'fontSize', 'フォントサイズ', DEFAULT_FONT_SIZE);
+    const fontFamily = checkString(checker, 'fontFamily', 'フォント', DEFAULT_FONT_FAMILY);
+    const textColor = checkString(checker, 'textColor', '文字色', DEFAULT_TEXT_COLOR);
+
+    // サイズが無い場合は文字数とフォントサイズから概算
+    const lines = text.split(/\r?\n/);
+    const estimatedFontSize = fontSize ?? DEFAULT_FONT_SIZE;
+    const longestLine = Math.max(...lines.map(line => line.length), 1);
+    const estimatedWidth = Math.max(longestLine * estimatedFontSize + TEXTBOX_PADDING * 2, 50);
+    const estimatedHeight = Math.max(lines.length * estimatedFontSize + TEXTBOX_PADDING * 2, 20);
+
+    const width = checkPositiveNumber(checker, 'width', '幅', Math.round(estimatedWidth));
+    const height = checkPositiveNumber(checker, 'height', '高さ', Math.round(estimatedHeight));
+    const rotationAngle = checkRotation(checker);
+
+    if (fontSize === null || fontFamily === null || textColor === null || width === null || height === null) return null;
+    return { ...checker.props, text, fontSize, fontFamily, width, height, textColor, rotationAngle };
+};
+
+const validateScaleProps = (checker: PropertyChecker): ScaleProps | null => {
+    const firstTableId = checkString(checker, 'firstTableId', '測定元オブジェクトID');
+    const secondTableId = checkString(checker, 'secondTableId', '測定先オブジェクトID');
+
+    if (firstTableId === null || secondTableId === null) return null;
+    return { ...checker.props, firstTableId, secondTableId };
+};
+
+const validatePropertiesByType = (type: TableObject['type'], checker: PropertyChecker): TableObject['properties'] | null => {
+    switch (type) {
+        case 'rectangle':
+            return validateRectangleProps(checker);
+        case 'circle':
+            return validateCircleProps(checker);
+        case 'svg':
+            return validateSVGTableProps(checker);
+        case 'textbox':
+            return validateTextBoxProps(checker);
+        default:
+            return validateScaleProps(checker);
+    }
+};
+
+/**
+ * 1つのオブジェクトを検証し、可能な限り修復する
+ */
+const validateTableObject = (
+    raw: unknown,
+    index: number,
+    fallbackPosition: Position
+): { table: TableObject | null; report: TableValidationReport } => {
+    const report: TableValidationReport = { index, errors: [], repairs: [] };
+
+    if (!isObject(raw)) {
+        report.errors.push('オブジェクトの形式が無効です');
+        return { table: null, report };
+    }
+
+    const hasId = typeof raw.id === 'string' && raw.id !== '';
+    if (hasId) {
+        report.tableId = raw.id as string;
+    }
+
+    // 種類
+    const type = raw.type;
+    if (typeof type !== 'string' || !TABLE_TYPES.includes(type as TableObject['type'])) {
+        report.type = typeof type === 'string' ? type : undefined;
+        report.errors.push(`不明な種類です（${String(type)}）`);
+        return { table: null, report };
+    }
+    report.type = type;
+
+    // ID
+    let id = raw.id as string;
+    if (!hasId) {
+        id = generateTableId(index);
+        report.tableId = id;
+        report.repairs.push('IDが無いため新しいIDを割り当てました');
+    }
+
+    // 位置
+    let position = fallbackPosition;
+    const rawPosition = raw.position;
+    const x = isObject(rawPosition) ? toFiniteNumber(rawPosition.x) : null;
+    const y = isObject(rawPosition) ? toFiniteNumber(rawPosition.y) : null;
+    if (x !== null && y !== null) {
+        position = { x, y };
+    } else if (type !== 'scale') {
+        // 寸法線は位置を使わないため補完の報告は不要
+        report.repairs.push('位置が無効なため会場の中央に配置しました');
+    }
+
+    // 種類ごとのプロパティ
+    if (!isObject(raw.properties)) {
+        report.repairs.push('プロパティが無いため既定値で補完しました');
+    }
+    const checker: PropertyChecker = {
+        props: isObject(raw.properties) ? raw.properties : {},
+        errors: report.errors,
+        repairs: report.repairs,
+        allowDefaults: true
+    };
+
+    const properties = validatePropertiesByType(type as TableObject['type'], checker);
+    if (!properties || report.errors.length > 0) {
+        return { table: null, report };
+    }
+
+    // 描画順
+    let zIndex = toFiniteNumber(raw.zIndex);
+    if (zIndex === null) {
+        zIndex = index;
+        report.repairs.push('描画順が無効なためファイル内の順序で補完しました');
+    }
+
+    // ロック状態（任意項目）
+    let locked: boolean | undefined;
+    if (raw.locked !== undefined) {
+        if (typeof raw.locked === 'boolean') {
+            locked = raw.locked;
+        } else {
+            locked = false;
+            report.repairs.push('ロック状態が無効なためロックを解除しました');
+        }
+    }
+
+    // グループ（任意項目、寸法線はグループに含めない）
+    let groupId: string | undefined;
+    if (raw.groupId !== undefined) {
+        if (typeof raw.groupId === 'string' && raw.groupId.trim() !== '' && type !== 'scale') {
+            groupId = raw.groupId;
+        } else {
+            report.repairs.push('グループ情報が無効なためグループから外しました');
+        }
+    }
+
+    return {
+        table: {
+            ...raw,
+            id,
+            type: type as TableObject['type'],
+            position,
+            properties,
+            zIndex,
+            locked,
+            groupId
+        },
+        report
+    };
+};
+
+/**
+ * 種類ごとのプロパティだけを検証する（ドロップされたステンシルなど）
+ * 既定値での補完は行わず、無効な項目がある場合はpropertiesがnullになり、errorsに理由を返す
+ * SVGコンテンツの無害化はrepairsに返す
+ */
+export const validateTableProperties = (
+    type: TableObject['type'],
+    rawProperties: unknown
+): { properties: TableObject['properties'] | null; errors: string[]; repairs: string[] } => {
+    const checker: PropertyChecker = {
+        props: isObject(rawProperties) ? rawProperties : {},
+        errors: [],
+        repairs: [],
+        allowDefaults: false
+    };
+    const properties = validatePropertiesByType(type, checker);
+    return {
+        properties: checker.errors.length > 0 ? null : properties,
+        errors: checker.errors,
+        repairs: checker.repairs
+    };
+};
+
+/**
+ * 読み込んだテーブル配列を種類ごとに検証・修復する
+ * 修復できないオブジェクトは除外し、オブジェクト単位の結果を返す
+ */
+export const validateTables = (
+    rawTables: unknown[],
+    fallbackPosition: Position
+): { tables: TableObject[]; reports: TableValidationReport[] } => {
+    const tables: TableObject[] = [];
+    const reports: TableValidationReport[] = [];
+    const usedIds = new Set<string>();
+    const indexById = new Map<string, number>();
+
+    rawTables.forEach((raw, index) => {
+        const { table, report } = validateTableObject(raw, index, fallbackPosition);
+
+        // IDの重複は新しいIDを割り当てて解消
+        if (table && usedIds.has(table.id)) {
+            table.id = generateTableId(index);
+            report.repairs.push(`IDが重複していたため新しいID（${table.id}）を割り当てました`);
+            report.tableId = table.id;
+        }
+
+        if (table) {
+            usedIds.add(table.id);
+            indexById.set(table.id, index);
+            tables.push(table);
+        }
+        if (report.errors.length > 0 || report.repairs.length > 0) {
+            reports.push(report);
+        }
+    });
+
+    // 寸法線は参照先が読み込まれたオブジェクトに存在する場合のみ有効
+    const validTables = tables.filter(table => {
+        if (table.type !== 'scale') return true;
+        const props = table.properties as ScaleProps;
+        const hasReferences = [props.firstTableId, props.secondTableId].every(refId =>
+            tables.some(other => other.id === refId && other.type !== 'scale')
+        );
+        if (!hasReferences) {
+            let report = reports.find(existing => existing.tableId === table.id);
+            if (!report) {
+                report = { index: indexById.get(table.id) ?? 0, tableId: table.id, type: table.type, errors: [], repairs: [] };
+                reports.push(report);
+            }
+            report.errors.push('測定対象のオブジェクトが見つかりません');
+        }
+        return hasReferences;
+    });
+
+    reports.sort((a, b) => a.index - b.index);
+    // メンバーが1つしか残らなかったグループは解除
+    return { tables: normalizeZOrder(cleanupGroups(validTables)), reports };
+};
+
+/**
+ * 検証結果の対象オブジェクトを表す表示名（例: オブジェクト3（長方形, ID: table_1））
+ */
+export const getTableReportLabel = (report: TableValidationReport): string => {
+    const typeLabel = report.type && report.type in TYPE_LABELS
+        ? TYPE_LABELS[report.type as TableObject['type']]
+        : report.type || '不明';
+    return `オブジェクト${report.index + 1}（${typeLabel}${report.tableId ? `, ID: ${report.tableId}` : ''}）`;
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeRotation, getTransformedProperties, MIN_TRANSFORM_SIZE } from './transformGeometry';
+import type { TableObject, RectangleProps, CircleProps, SVGTableProps, TextBoxProps } from '../types/index';
+
+const createTable = (type: TableObject['type'], properties: TableObject['properties']): TableObject => ({
+    id: 'a',
+    type,
+    position: { x: 0, y: 0 },
+    properties,
+    zIndex: 0
+});
+
+describe('normalizeRotation', () => {
+    it('0〜360度未満に正規化する', () => {
+        expect(normalizeRotation(-90)).toBe(270);
+        expect(normalizeRotation(360)).toBe(0);
+        expect(normalizeRotation(725.5)).toBe(5.5);
+        expect(normalizeRotation(359.999)).toBe(0);
+    });
+});
+
+describe('getTransformedProperties', () => {
+    it('長方形は拡大率を幅・高さに反映し、回転角度を書き戻す', () => {
+        const table = createTable('rectangle', { width: 1000, height: 500, fillColor: '#fff', strokeColor: '#000', rotationAngle: 0 });
+        const props = getTransformedProperties(table, 1.5, -0.5, -45) as RectangleProps;
+
+        expect(props).toEqual({ width: 1500, height: 250, fillColor: '#fff', strokeColor: '#000', rotationAngle: 315 });
+    });
+
+    it('最小の大きさより小さくしない', () => {
+        const table = createTable('rectangle', { width: 100, height: 100, fillColor: '#fff', strokeColor: '#000', rotationAngle: 0 });
+        const props = getTransformedProperties(table, 0.01, 0.01, 0) as RectangleProps;
+
+        expect(props.width).toBe(MIN_TRANSFORM_SIZE);
+        expect(props.height).toBe(MIN_TRANSFORM_SIZE);
+    });
+
+    it('円は横方向の拡大率で直径を変える', () => {
+        const table = createTable('circle', { radius: 500, fillColor: '#fff', strokeColor: '#000' });
+        expect((getTransformedProperties(table, 1.2, 3, 30) as CircleProps).radius).toBe(600);
+    });
+
+    it('SVGは元の縦横比を維持する', () => {
+        const table = createTable('svg', {
+            svgContent: '<svg/>', width: 900, height: 900, originalWidth: 200, originalHeight: 100, filename: 'a.svg', rotationAngle: 0
+        });
+        const props = getTransformedProperties(table, 2, 1, 90) as SVGTableProps;
+
+        expect(props.width).toBe(1800);
+        expect(props.height).toBe(900);
+        expect(props.rotationAngle).toBe(90);
+    });
+
+    it('テキストボックスは枠の大きさを変える', () => {
+        const table = createTable('textbox', {
+            text: 'A', fontSize: 200, fontFamily: 'sans-serif', width: 1000, height: 400, textColor: '#000', rotationAngle: 0
+        });
+        const props = getTransformedProperties(table, 0.5, 2, 0) as TextBoxProps;
+
+        expect(props).toMatchObject({ width: 500, height: 800, fontSize: 200 });
+    });
+
+    it('縮尺（寸法線）は変形できない', () => {
+        const table = createTable('scale', { firstTableId: 'b', secondTableId: 'c' });
+        expect(getTransformedProperties(table, 2, 2, 0)).toBeNull();
+    });
+});
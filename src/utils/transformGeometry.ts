@@ -0,0 +1,89 @@
+import type {
+    TableObject,
+    RectangleProps,
+    CircleProps,
+    SVGTableProps,
+    TextBoxProps
+} from '../types/index';
+
+/**
+ * キャンバス上のハンドル（Transformer）による大きさ・回転の変更
+ * Konvaのノードの拡大率・回転角度を、mm単位のプロパティに書き戻す
+ */
+
+// 回転のスナップ角度（15度刻み）と、スナップする範囲（度）
+export const ROTATION_SNAP_ANGLES = Array.from({ length: 24 }, (_, index) => index * 15);
+export const ROTATION_SNAP_TOLERANCE = 5;
+
+// ハンドルで変更できる最小の大きさ（mm）
+export const MIN_TRANSFORM_SIZE = 50;
+
+/**
+ * 回転角度を0〜360度未満に正規化
+ */
+export const normalizeRotation = (angle: number): number => {
+    const normalized = ((Math.round(angle * 100) / 100) % 360 + 360) % 360;
+    return normalized === 360 ? 0 : normalized;
+};
+
+// 書き戻す寸法はmm単位で丸める
+const toSize = (value: number): number => Math.max(MIN_TRANSFORM_SIZE, Math.round(value));
+
+/**
+ * 拡大率・回転角度を適用したプロパティを取得
+ * 縮尺（寸法線）は大きさを持たないためnull
+ */
+export const getTransformedProperties = (
+    table: TableObject,
+    scaleX: number,
+    scaleY: number,
+    rotation: number
+): TableObject['properties'] | null => {
+    switch (table.type) {
+        case 'rectangle': {
+            const props = table.properties as RectangleProps;
+            return {
+                ...props,
+                width: toSize(props.width * Math.abs(scaleX)),
+                height: toSize(props.height * Math.abs(scaleY)),
+                rotationAngle: normalizeRotation(rotation)
+            };
+        }
+
+        case 'circle': {
+            const props = table.properties as CircleProps;
+            return {
+                ...props,
+                radius: toSize(props.radius * 2 * Math.abs(scaleX)) / 2
+            };
+        }
+
+        case 'svg': {
+            // 元のSVGの縦横比を維持
+            const props = table.properties as SVGTableProps;
+            const aspectRatio = props.originalWidth > 0 && props.originalHeight > 0
+                ? props.originalHeight / props.originalWidth
+                : props.height / props.width;
+            const width = toSize(props.width * Math.abs(scaleX));
+            return {
+                ...props,
+                width,
+                height: Math.round(width * aspectRatio),
+                rotationAngle: normalizeRotation(rotation)
+            };
+        }
+
+        case 'textbox': {
+            const props = table.properties as TextBoxProps;
+            return {
+                ...props,
+                width: toSize(props.width * Math.abs(scaleX)),
+                height: toSize(props.height * Math.abs(scaleY)),
+                rotationAngle: normalizeRotation(rotation)
+            };
+        }
+
+        default:
+            return null;
+    }
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { sortByZIndex, getNextZIndex, normalizeZOrder, reorderTables } from './zOrder';
+import type { TableObject } from '../types/index';
+import { createRectangle } from '../test/fixtures';
+
+const createTable = (id: string, zIndex: number, groupId?: string): TableObject =>
+    createRectangle(id, 0, 0, { width: 100, height: 100, zIndex, groupId });
+
+// 背面から順に並べたID
+const stackOrder = (tables: TableObject[]) => sortByZIndex(tables).map(table => table.id);
+
+describe('sortByZIndex', () => {
+    it('描画順で並べ、同じ描画順は配列内の順序を維持する', () => {
+        const tables = [createTable('a', 2), createTable('b', 0), createTable('c', 2), createTable('d', 1)];
+        expect(stackOrder(tables)).toEqual(['b', 'd', 'a', 'c']);
+    });
+});
+
+describe('getNextZIndex', () => {
+    it('最前面の次の描画順を返す', () => {
+        expect(getNextZIndex([createTable('a', 3), createTable('b', 7)])).toBe(8);
+        expect(getNextZIndex([])).toBe(0);
+    });
+});
+
+describe('normalizeZOrder', () => {
+    it('配列の順序を変えずに0からの連番に振り直す', () => {
+        const tables = [createTable('a', 10), createTable('b', -5), createTable('c', 3)];
+        const normalized = normalizeZOrder(tables);
+
+        expect(normalized.map(table => table.id)).toEqual(['a', 'b', 'c']);
+        expect(normalized.map(table => table.zIndex)).toEqual([2, 0, 1]);
+    });
+
+    it('変更の無いオブジェクトは同じ参照のまま返す', () => {
+        const tables = [createTable('a', 0), createTable('b', 1)];
+        const normalized = normalizeZOrder(tables);
+        expect(normalized[0]).toBe(tables[0]);
+        expect(normalized[1]).toBe(tables[1]);
+    });
+});
+
+describe('reorderTables', () => {
+    const tables = [createTable('a', 0), createTable('b', 1), createTable('c', 2), createTable('d', 3)];
+
+    it('最前面へ移動する', () => {
+        expect(stackOrder(reorderTables(tables, ['b'], 'bringToFront'))).toEqual(['a', 'c', 'd', 'b']);
+    });
+
+    it('最背面へ移動する', () => {
+        expect(stackOrder(reorderTables(tables, ['c'], 'sendToBack'))).toEqual(['c', 'a', 'b', 'd']);
+    });
+
+    it('1つ前面へ移動する', () => {
+        expect(stackOrder(reorderTables(tables, ['b'], 'bringForward'))).toEqual(['a', 'c', 'b', 'd']);
+    });
+
+    it('1つ背面へ移動する', () => {
+        expect(stackOrder(reorderTables(tables, ['c'], 'sendBackward'))).toEqual(['a', 'c', 'b', 'd']);
+    });
+
+    it('複数選択時は選択したもの同士の前後関係を維持する', () => {
+        expect(stackOrder(reorderTables(tables, ['c', 'a'], 'bringToFront'))).toEqual(['b', 'd', 'a', 'c']);
+        expect(stackOrder(reorderTables(tables, ['a', 'b'], 'bringForward'))).toEqual(['c', 'a', 'b', 'd']);
+    });
+
+    it('既に最前面のものはそれ以上移動しない', () => {
+        const reordered = reorderTables(tables, ['d'], 'bringForward');
+        expect(stackOrder(reordered)).toEqual(['a', 'b', 'c', 'd']);
+        expect(reordered).toEqual(tables);
+    });
+
+    it('配列の順序は変更しない', () => {
+        const reordered = reorderTables(tables, ['a'], 'bringToFront');
+        expect(reordered.map(table => table.id)).toEqual(['a', 'b', 'c', 'd']);
+        expect(reordered.map(table => table.zIndex)).toEqual([3, 0, 1, 2]);
+    });
+
+    describe('グループ', () => {
+        // g1のメンバー（a・c）の間に単独のbがある
+        const grouped = [createTable('a', 0, 'g1'), createTable('b', 1), createTable('c', 2, 'g1'), createTable('d', 3)];
+
+        it('メンバーの1つを選択するとグループ全体を移動する', () => {
+            expect(stackOrder(reorderTables(grouped, ['a'], 'bringToFront'))).toEqual(['b', 'd', 'a', 'c']);
+            expect(stackOrder(reorderTables(grouped, ['c'], 'sendToBack'))).toEqual(['a', 'c', 'b', 'd']);
+        });
+
+        it('1つずつの移動でもグループの間に他のオブジェクトを挟まない', () => {
+            expect(stackOrder(reorderTables(grouped, ['a'], 'bringForward'))).toEqual(['b', 'd', 'a', 'c']);
+            expect(stackOrder(reorderTables(grouped, ['d'], 'sendBackward'))).toEqual(['b', 'd', 'a', 'c']);
+        });
+
+        it('グループは最も前面にあるメンバーの位置に置く', () => {
+            expect(stackOrder(reorderTables(grouped, ['b'], 'bringToFront'))).toEqual(['a', 'c', 'd', 'b']);
+        });
+    });
+});
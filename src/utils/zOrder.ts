@@ -0,0 +1,105 @@
+import type { TableObject, ZOrderOperation } from '../types/index';
+
+/**
+ * 描画順（zIndex）で並べ替えたテーブル配列を返す
+ * zIndexが同じ場合は配列内の順序を維持する
+ */
+export const sortByZIndex = (tables: TableObject[]): TableObject[] => {
+    return tables
+        .map((table, index) => ({ table, index }))
+        .sort((a, b) => (a.table.zIndex - b.table.zIndex) || (a.index - b.index))
+        .map(({ table }) => table);
+};
+
+/**
+ * 最前面に追加するためのzIndexを取得
+ */
+export const getNextZIndex = (tables: TableObject[]): number => {
+    return tables.reduce((max, table) => Math.max(max, table.zIndex), -1) + 1;
+};
+
+/**
+ * 描画順を0からの連番に振り直す（配列の順序は変更しない）
+ */
+export const normalizeZOrder = (tables: TableObject[]): TableObject[] => {
+    const orderById = new Map<string, number>();
+    sortByZIndex(tables).forEach((table, index) => orderById.set(table.id, index));
+
+    return tables.map(table => {
+        const zIndex = orderById.get(table.id)!;
+        return table.zIndex === zIndex ? table : { ...table, zIndex };
+    });
+};
+
+/**
+ * 描画順に並べたテーブルをグループ単位のまとまりに分ける
+ * まとまりはメンバーのうち最も前面にあるものの位置に置き、メンバー同士の前後関係は維持する
+ */
+const buildZOrderUnits = (sorted: TableObject[]): TableObject[][] => {
+    const units = new Map<string, TableObject[]>();
+
+    sorted.forEach(table => {
+        const key = table.groupId ? `group:${table.groupId}` : table.id;
+        const members = units.get(key) || [];
+        // 後から現れたメンバーの位置へ移すため、一度削除して追加し直す
+        units.delete(key);
+        units.set(key, [...members, table]);
+    });
+
+    return [...units.values()];
+};
+
+/**
+ * 選択されたテーブルの描画順を変更する
+ * グループはまとめて移動し、複数選択時は選択テーブル同士の前後関係を維持する
+ */
+export const reorderTables = (
+    tables: TableObject[],
+    ids: string[],
+    operation: ZOrderOperation
+): TableObject[] => {
+    const units = buildZOrderUnits(sortByZIndex(tables));
+    const isTarget = (unit: TableObject[]) => unit.some(table => ids.includes(table.id));
+    let reordered: TableObject[][];
+
+    switch (operation) {
+        case 'bringToFront':
+            reordered = [...units.filter(unit => !isTarget(unit)), ...units.filter(isTarget)];
+            break;
+
+        case 'sendToBack':
+            reordered = [...units.filter(isTarget), ...units.filter(unit => !isTarget(unit))];
+            break;
+
+        case 'bringForward':
+            // 前面側から順に、すぐ前面にある非選択のまとまりと入れ替える
+            reordered = [...units];
+            for (let i = reordered.length - 2; i >= 0; i--) {
+                if (isTarget(reordered[i]) && !isTarget(reordered[i + 1])) {
+                    [reordered[i], reordered[i + 1]] = [reordered[i + 1], reordered[i]];
+                }
+            }
+            break;
+
+        case 'sendBackward':
+            // 背面側から順に、すぐ背面にある非選択のまとまりと入れ替える
+            reordered = [...units];
+            for (let i = 1; i < reordered.length; i++) {
+                if (isTarget(reordered[i]) && !isTarget(reordered[i - 1])) {
+                    [reordered[i], reordered[i - 1]] = [reordered[i - 1], reordered[i]];
+                }
+            }
+            break;
+
+        default:
+            return tables;
+    }
+
+    const zIndexById = new Map<string, number>();
+    reordered.flat().forEach((table, index) => zIndexById.set(table.id, index));
+
+    return tables.map(table => {
+        const zIndex = zIndexById.get(table.id)!;
+        return table.zIndex === zIndex ? table : { ...table, zIndex };
+    });
+};
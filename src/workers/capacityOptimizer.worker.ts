@@ -0,0 +1,9 @@
+import type { CapacityOptimizerRequest } from '../types';
+import { optimizeCapacity } from '../utils/capacityOptimizer';
+
+/**
+ * 収容数の最適化をメインスレッドとは別に計算し、キャンバスの操作を止めないようにする
+ */
+self.onmessage = (e: MessageEvent<CapacityOptimizerRequest>) => {
+    self.postMessage(optimizeCapacity(e.data));
+};